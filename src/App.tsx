@@ -1,17 +1,25 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { AuthProvider } from './contexts/AuthContext';
+import { AUTH_CALLBACK_PATH, RESET_PASSWORD_PATH } from './lib/config';
 import { AuthForm } from './components/auth/AuthForm';
+import { AuthCallback } from './components/auth/AuthCallback';
+import { GuestRoute, ProtectedRoute } from './components/auth/ProtectedRoute';
+import { ForgotPassword } from './components/auth/ForgotPassword';
+import { ResetPassword } from './components/auth/ResetPassword';
+import { IdleTimeoutWarning } from './components/auth/IdleTimeoutWarning';
+import { AccountPage } from './components/account/AccountPage';
 import { ProductList } from './components/products/ProductList';
+import { ProductDetail } from './components/products/ProductDetail';
+import { TrashList } from './components/products/TrashList';
+import { LowStockDashboard } from './components/products/LowStockDashboard';
+import { CategoryManager } from './components/categories/CategoryManager';
+import { ExchangeRateManager } from './components/currency/ExchangeRateManager';
 import { Navbar } from './components/Navbar';
 
-function PrivateRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
-
-  if (loading) {
-    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
-  }
-
-  return user ? <>{children}</> : <Navigate to="/login" />;
+// The list used to live at / - keep old bookmarks (and their filters) working
+function RedirectToProducts() {
+  const location = useLocation();
+  return <Navigate to={`/products${location.search}`} replace />;
 }
 
 function App() {
@@ -20,15 +28,70 @@ function App() {
       <Router>
         <div className="min-h-screen bg-gray-100">
           <Navbar />
+          <IdleTimeoutWarning />
           <Routes>
-            <Route path="/login" element={<AuthForm mode="signin" />} />
-            <Route path="/signup" element={<AuthForm mode="signup" />} />
+            {/* Keyed so switching between them starts a fresh form */}
+            <Route path="/login" element={<GuestRoute><AuthForm key="signin" mode="signin" /></GuestRoute>} />
+            <Route path="/login/link" element={<GuestRoute><AuthForm key="magic" mode="magic" /></GuestRoute>} />
+            <Route path="/signup" element={<GuestRoute><AuthForm key="signup" mode="signup" /></GuestRoute>} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path={RESET_PASSWORD_PATH} element={<ResetPassword />} />
+            <Route path={AUTH_CALLBACK_PATH} element={<AuthCallback />} />
+            <Route path="/" element={<RedirectToProducts />} />
             <Route
-              path="/"
+              path="/products"
               element={
-                <PrivateRoute>
+                <ProtectedRoute>
                   <ProductList />
-                </PrivateRoute>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/products/:id"
+              element={
+                <ProtectedRoute>
+                  <ProductDetail />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/account"
+              element={
+                <ProtectedRoute>
+                  <AccountPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/trash"
+              element={
+                <ProtectedRoute requires="trash:view">
+                  <TrashList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/inventory"
+              element={
+                <ProtectedRoute>
+                  <LowStockDashboard />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/categories"
+              element={
+                <ProtectedRoute requires="category:manage">
+                  <CategoryManager />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/exchange-rates"
+              element={
+                <ProtectedRoute requires="rates:manage">
+                  <ExchangeRateManager />
+                </ProtectedRoute>
               }
             />
           </Routes>
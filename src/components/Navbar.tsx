@@ -1,49 +1,136 @@
-import { Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-
-export function Navbar() {
-  const { user, signOut } = useAuth();
-
-  return (
-    <nav className="bg-white shadow-lg">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="flex justify-between h-16">
-          <div className="flex">
-            <Link to="/" className="flex-shrink-0 flex items-center">
-              <span className="text-xl font-bold text-indigo-600">FullStackAssignment</span>
-            </Link>
-          </div>
-          
-          <div className="flex items-center">
-            {user ? (
-              <div className="flex items-center space-x-4">
-                <span className="text-gray-700">{user.email}</span>
-                <button
-                  onClick={() => signOut()}
-                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
-                >
-                  Sign Out
-                </button>
-              </div>
-            ) : (
-              <div className="flex items-center space-x-4">
-                <Link
-                  to="/login"
-                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
-                >
-                  Sign In
-                </Link>
-                <Link
-                  to="/signup"
-                  className="bg-indigo-600 text-white hover:bg-indigo-700 px-4 py-2 rounded-md text-sm font-medium"
-                >
-                  Sign Up
-                </Link>
-              </div>
-            )}
-          </div>
-        </div>
-      </div>
-    </nav>
-  );
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { productService } from '../services/productService';
+import { syncService } from '../services/syncService';
+import { SyncStatus } from './SyncStatus';
+import { useCurrency } from '../hooks/useCurrency';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { isLocalBackend } from '../lib/config';
+import { CurrencyCode, SUPPORTED_CURRENCIES } from '../lib/currency';
+
+export function Navbar() {
+  const { user, role, emailVerified, can, signOut } = useAuth();
+  const { displayCurrency, setDisplayCurrency } = useCurrency();
+  const { pending, failed } = useSyncStatus();
+
+  // Replaying offline changes needs someone signed in (it goes through the normal permission checks)
+  const userId = user?.id;
+  useEffect(() => (userId ? syncService.start(userId) : undefined), [userId]);
+
+  // The local backend has no server to empty the trash on a schedule, so it's done in the background
+  // whenever someone who may purge signs in
+  const canPurge = can('product:purge');
+  useEffect(() => {
+    if (!isLocalBackend || !canPurge) return;
+    productService.purgeExpiredProducts().catch(err => console.error('Trash purge error:', err));
+  }, [canPurge]);
+
+  // Signing out clears this device's offline data, unsynced changes included
+  const handleSignOut = () => {
+    const unsynced = pending.length + failed.length;
+    if (unsynced > 0 && !window.confirm(
+      `${unsynced} change${unsynced === 1 ? '' : 's'} made offline ${unsynced === 1 ? "hasn't" : "haven't"} synced yet ` +
+      'and will be lost if you sign out. Sign out anyway?'
+    )) return;
+    signOut();
+  };
+
+  return (
+    <nav className="bg-white shadow-lg">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between h-16">
+          <div className="flex">
+            <Link to="/products" className="flex-shrink-0 flex items-center">
+              <span className="text-xl font-bold text-indigo-600">FullStackAssignment</span>
+            </Link>
+          </div>
+          
+          <div className="flex items-center">
+            {user ? (
+              <div className="flex items-center space-x-4">
+                <SyncStatus />
+                <select
+                  value={displayCurrency}
+                  onChange={(e) => setDisplayCurrency(e.target.value as CurrencyCode)}
+                  aria-label="Show prices in"
+                  title="Show prices in"
+                  className="rounded-md border-gray-300 text-sm"
+                >
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <Link
+                  to="/inventory"
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Low stock
+                </Link>
+                {can('category:manage') && (
+                  <Link
+                    to="/categories"
+                    className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Categories
+                  </Link>
+                )}
+                {can('rates:manage') && (
+                  <Link
+                    to="/exchange-rates"
+                    className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Rates
+                  </Link>
+                )}
+                {can('trash:view') && (
+                  <Link
+                    to="/trash"
+                    className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    Trash
+                  </Link>
+                )}
+                <Link to="/account" className="text-gray-700 hover:text-gray-900" title="Your account and sessions">
+                  {user.email}
+                </Link>
+                {!emailVerified && (
+                  <span
+                    className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs"
+                    title="Click the link in the confirmation email we sent you"
+                  >
+                    Unverified
+                  </span>
+                )}
+                {role && (
+                  <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full text-xs capitalize">{role}</span>
+                )}
+                <button
+                  onClick={handleSignOut}
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Sign Out
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-4">
+                <Link
+                  to="/login"
+                  className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Sign In
+                </Link>
+                <Link
+                  to="/signup"
+                  className="bg-indigo-600 text-white hover:bg-indigo-700 px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Sign Up
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </nav>
+  );
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { QueuedMutation } from '../services/mutationQueue';
+import { syncService } from '../services/syncService';
+
+const KIND_LABELS: Record<QueuedMutation['kind'], string> = {
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Move to trash',
+};
+
+// Navbar pill showing whether offline changes have reached the server, with a panel
+// listing what's queued and what failed to sync
+export function SyncStatus() {
+  const { online, syncing, pending, failed } = useSyncStatus();
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  let label = 'Synced';
+  let tone = 'bg-green-100 text-green-700';
+  if (failed.length > 0) {
+    label = `${failed.length} failed to sync`;
+    tone = 'bg-red-100 text-red-700';
+  } else if (!online) {
+    label = pending.length > 0 ? `Offline · ${pending.length} pending` : 'Offline';
+    tone = 'bg-gray-200 text-gray-700';
+  } else if (syncing) {
+    label = 'Syncing...';
+    tone = 'bg-indigo-100 text-indigo-700';
+  } else if (pending.length > 0) {
+    label = `${pending.length} pending`;
+    tone = 'bg-yellow-100 text-yellow-800';
+  }
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    try {
+      setBusyId(id);
+      await action();
+    } catch (err) {
+      console.error('Sync action error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-2 py-1 rounded-full text-xs font-medium ${tone}`}
+        title="Offline changes"
+      >
+        {label}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg border z-20 p-4 text-sm">
+          {pending.length === 0 && failed.length === 0 && (
+            <p className="text-gray-500">All changes are saved to the server.</p>
+          )}
+
+          {failed.length > 0 && (
+            <div className="mb-3">
+              <h3 className="font-medium text-red-700 mb-2">Couldn't sync</h3>
+              <ul className="space-y-3">
+                {failed.map(mutation => (
+                  <li key={mutation.id} className="border border-red-200 rounded-md p-2">
+                    <div className="font-medium">{KIND_LABELS[mutation.kind]}: {mutation.productName}</div>
+                    <div className="text-xs text-red-600 mb-2">{mutation.error}</div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => runAction(mutation.id, () => syncService.retry(mutation.id))}
+                        disabled={busyId !== null}
+                        className="px-2 py-1 text-xs font-medium text-indigo-600 border border-indigo-600 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                      >
+                        Retry
+                      </button>
+                      {mutation.conflictVersion !== undefined && (
+                        <button
+                          onClick={() => runAction(mutation.id, () => syncService.retry(mutation.id, { keepMine: true }))}
+                          disabled={busyId !== null}
+                          className="px-2 py-1 text-xs font-medium text-indigo-600 border border-indigo-600 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                          title="Overwrite the newer version on the server with this change"
+                        >
+                          Keep mine
+                        </button>
+                      )}
+                      <button
+                        onClick={() => runAction(mutation.id, () => syncService.discard(mutation.id))}
+                        disabled={busyId !== null}
+                        className="px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {pending.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-700 mb-2">Waiting to sync</h3>
+              <ul className="space-y-1">
+                {pending.map(mutation => (
+                  <li key={mutation.id} className="flex justify-between gap-2">
+                    <span className="truncate">{KIND_LABELS[mutation.kind]}: {mutation.productName}</span>
+                    {mutation.attempts > 0 && (
+                      <span className="shrink-0 text-xs text-gray-400">{mutation.attempts} tries</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
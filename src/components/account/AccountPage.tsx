@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { idleTimeoutMs } from '../../lib/config';
+import { SessionListEntry, sessionService } from '../../services/sessionService';
+
+// "Chrome on Windows" - good enough to tell the warehouse terminal from your laptop
+function describeUserAgent(userAgent: string) {
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const system = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return system ? `${browser} on ${system}` : browser;
+}
+
+export function AccountPage() {
+  const { user, role, emailVerified } = useAuth();
+  const [sessions, setSessions] = useState<SessionListEntry[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | 'others' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await sessionService.listSessions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your sessions');
+      console.error('Session list error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (id: string | 'others') => {
+    setError(null);
+    setRevokingId(id);
+    try {
+      if (id === 'others') await sessionService.revokeOthers();
+      else await sessionService.revoke(id);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke the session');
+      console.error('Session revoke error:', err);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const otherCount = sessions?.filter(session => !session.current).length ?? 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold mb-6">Your account</h1>
+
+      <div className="bg-white rounded-lg shadow p-4 mb-8 text-sm space-y-1">
+        <div><span className="text-gray-500">Email:</span> {user?.email}</div>
+        <div>
+          <span className="text-gray-500">Email verified:</span> {emailVerified ? 'Yes' : 'Not yet - check your inbox'}
+        </div>
+        {role && <div><span className="text-gray-500">Role:</span> <span className="capitalize">{role}</span></div>}
+        {idleTimeoutMs > 0 && (
+          <div className="text-gray-500">
+            You're signed out after {Math.round(idleTimeoutMs / 60000)} minutes without activity.
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold">Where you're signed in</h2>
+        {otherCount > 0 && (
+          <button
+            type="button"
+            onClick={() => handleRevoke('others')}
+            disabled={revokingId !== null}
+            className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            {revokingId === 'others' ? 'Signing out...' : 'Sign out everywhere else'}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        A revoked browser is signed out the next time it checks in - usually within a few minutes.
+      </p>
+
+      {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+      {sessions === null ? (
+        !error && <div className="text-center text-gray-500">Loading...</div>
+      ) : (
+        <div className="bg-white rounded-lg shadow divide-y">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-3 p-4">
+              <div className="flex-1">
+                <div className="font-medium">
+                  {describeUserAgent(session.user_agent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">This browser</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Signed in {new Date(session.created_at).toLocaleString()} · last active{' '}
+                  {new Date(session.last_seen_at).toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revokingId !== null}
+                  className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
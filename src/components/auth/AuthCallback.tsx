@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { safeReturnTo } from '../../lib/returnTo';
+
+// Supabase reports a bad or expired link in the URL - the query string or the hash, depending on the flow
+function readLinkError() {
+  const params = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const description = params.get('error_description') ?? hash.get('error_description');
+  const code = params.get('error_code') ?? hash.get('error_code');
+  if (!description && !code) return null;
+  return code === 'otp_expired' ? 'That link has expired - links only work for a while, and only once.' : description;
+}
+
+// Where email confirmation and sign-in links land. The Supabase client picks the session out of the URL
+// by itself, so all that's left is telling the user how it went
+export function AuthCallback() {
+  const { user, loading, emailVerified } = useAuth();
+  // Read once - the client tidies the URL up after handling it
+  const [linkError] = useState(readLinkError);
+  const [next] = useState(() => safeReturnTo(new URLSearchParams(window.location.search).get('next')));
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  const succeeded = !linkError && user && emailVerified;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow p-6 space-y-4 text-center">
+        {succeeded ? (
+          <>
+            <h2 className="text-2xl font-bold text-green-600">You're all set</h2>
+            <p className="text-gray-700">Your email ({user.email}) is confirmed and you're signed in.</p>
+            <Link
+              to={next}
+              replace
+              className="inline-block px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              Continue
+            </Link>
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900">That link didn't work</h2>
+            <p className="text-gray-700">
+              {linkError ?? "We couldn't sign you in from it. It may have been used already or expired."}
+            </p>
+            <div className="flex justify-center gap-4 text-sm">
+              <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">Sign in</Link>
+              <Link to="/login/link" className="font-medium text-indigo-600 hover:text-indigo-500">Email me a new link</Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
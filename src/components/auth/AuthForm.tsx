@@ -1,100 +1,239 @@
-import { useState } from 'react';
-import { useAuth } from '../../contexts/AuthContext';
-
-type AuthFormProps = {
-  mode: 'signin' | 'signup';
-};
-
-export function AuthForm({ mode }: AuthFormProps) {
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
-    setLoading(true);
-
-    try {
-      if (mode === 'signup') {
-        await signUp(email, password);
-      } else {
-        await signIn(email, password);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-md w-full space-y-8">
-        <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            {mode === 'signin' ? 'Sign in to your account' : 'Create your account'}
-          </h2>
-        </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="email-address" className="sr-only">
-                Email address
-              </label>
-              <input
-                id="email-address"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-              />
-            </div>
-            <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-            </div>
-          </div>
-
-          {error && (
-            <div className="text-red-600 text-sm text-center">{error}</div>
-          )}
-
-          <div>
-            <button
-              type="submit"
-              disabled={loading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              {loading ? (
-                'Processing...'
-              ) : mode === 'signin' ? (
-                'Sign in'
-              ) : (
-                'Sign up'
-              )}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-}
\ No newline at end of file
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { SignOutReason } from '../../lib/authSync';
+import { readReturnTo } from '../../lib/returnTo';
+
+// 'magic' is passwordless - we email a sign-in link that also carries a code to type in here
+// Signing in doesn't navigate anywhere itself - GuestRoute moves the user on once they're signed in
+type AuthFormProps = {
+  mode: 'signin' | 'signup' | 'magic';
+};
+
+const TITLES: Record<AuthFormProps['mode'], string> = {
+  signin: 'Sign in to your account',
+  signup: 'Create your account',
+  magic: 'Sign in with an email link',
+};
+
+const SIGN_OUT_MESSAGES: Record<SignOutReason, string> = {
+  idle: 'You were signed out because nothing happened for a while.',
+  revoked: 'This browser was signed out from another session.',
+};
+
+const linkClasses = 'font-medium text-indigo-600 hover:text-indigo-500';
+
+export function AuthForm({ mode }: AuthFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { signIn, signUp, sendSignInLink, verifySignInCode, unverifiedEmail, signOutReason } = useAuth();
+  // Passed along between the auth pages so the return-to location isn't lost on the way
+  const { state } = useLocation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      if (mode === 'signup') {
+        await signUp(email, password, readReturnTo(state));
+      } else if (mode === 'magic') {
+        if (codeSent) {
+          await verifySignInCode(email, code);
+        } else {
+          await sendSignInLink(email, readReturnTo(state));
+          setCodeSent(true);
+        }
+      } else {
+        await signIn(email, password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (unverifiedEmail) return <VerifyEmailNotice email={unverifiedEmail} />;
+
+  const submitLabel = mode === 'signin'
+    ? 'Sign in'
+    : mode === 'signup'
+      ? 'Sign up'
+      : codeSent ? 'Sign in with code' : 'Email me a sign-in link';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {TITLES[mode]}
+          </h2>
+          {signOutReason && mode !== 'signup' && (
+            <p className="mt-2 text-center text-sm text-yellow-800 bg-yellow-50 rounded-md p-2">
+              {SIGN_OUT_MESSAGES[signOutReason]}
+            </p>
+          )}
+          {mode === 'magic' && codeSent && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              We've sent a link to {email}. Click it, or type in the code from the email below.
+            </p>
+          )}
+        </div>
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div className="rounded-md shadow-sm -space-y-px">
+            <div>
+              <label htmlFor="email-address" className="sr-only">
+                Email address
+              </label>
+              <input
+                id="email-address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                disabled={codeSent}
+                className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 ${mode === 'magic' && !codeSent ? 'rounded-md' : 'rounded-t-md'} focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm disabled:bg-gray-100`}
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            {mode === 'magic' ? (
+              codeSent && (
+                <div>
+                  <label htmlFor="code" className="sr-only">
+                    Code from the email
+                  </label>
+                  <input
+                    id="code"
+                    name="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Code from the email"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+              )
+            ) : (
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-red-600 text-sm text-center">{error}</div>
+          )}
+
+          <div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {loading ? 'Processing...' : submitLabel}
+            </button>
+          </div>
+        </form>
+
+        <div className="text-center text-sm space-y-2">
+          {mode === 'signin' && (
+            <>
+              <p><Link to="/forgot-password" state={state} className={linkClasses}>Forgot your password?</Link></p>
+              <p><Link to="/login/link" state={state} className={linkClasses}>Email me a sign-in link instead</Link></p>
+              <p className="text-gray-600">No account yet? <Link to="/signup" state={state} className={linkClasses}>Sign up</Link></p>
+            </>
+          )}
+          {mode === 'magic' && (
+            <>
+              {codeSent && (
+                <p>
+                  <button type="button" onClick={() => { setCodeSent(false); setCode(''); }} className={linkClasses}>
+                    Use a different email
+                  </button>
+                </p>
+              )}
+              <p><Link to="/login" state={state} className={linkClasses}>Sign in with a password instead</Link></p>
+            </>
+          )}
+          {mode === 'signup' && (
+            <p className="text-gray-600">Already have an account? <Link to="/login" state={state} className={linkClasses}>Sign in</Link></p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Shown after signing up (or trying to sign in) before the confirmation link has been clicked
+function VerifyEmailNotice({ email }: { email: string }) {
+  const { resendVerification, clearUnverified } = useAuth();
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setError(null);
+    setStatus('sending');
+    try {
+      await resendVerification();
+      setStatus('sent');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not resend the email');
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow p-6 space-y-4 text-center">
+        <h2 className="text-2xl font-bold text-gray-900">Confirm your email</h2>
+        <p className="text-gray-700">
+          Your account isn't verified yet. We've sent a confirmation link to <span className="font-medium">{email}</span> -
+          click it to finish setting up and you'll be signed in.
+        </p>
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+        {status === 'sent' && <div className="text-green-700 text-sm">Sent - check your inbox (and spam folder).</div>}
+        <div className="flex justify-center gap-3">
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={status === 'sending'}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {status === 'sending' ? 'Sending...' : 'Resend the email'}
+          </button>
+          <button
+            type="button"
+            onClick={clearUnverified}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Use a different email
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
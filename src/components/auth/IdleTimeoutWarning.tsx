@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useIdleTimeout } from '../../hooks/useIdleTimeout';
+
+// The "still there?" countdown before an idle user is signed out - renders nothing the rest of the time
+export function IdleTimeoutWarning() {
+  const { user, signOut } = useAuth();
+  const handleTimeout = useCallback(() => {
+    signOut('idle').catch(err => console.error('Idle sign out error:', err));
+  }, [signOut]);
+  const { secondsLeft, stayActive } = useIdleTimeout(Boolean(user), handleTimeout);
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div role="alertdialog" aria-labelledby="idle-title" className="bg-white rounded-lg p-6 w-full max-w-sm text-center space-y-4">
+        <h2 id="idle-title" className="text-xl font-bold">Still there?</h2>
+        <p className="text-gray-700">
+          You'll be signed out in <span className="font-semibold tabular-nums">{secondsLeft}</span>{' '}
+          {secondsLeft === 1 ? 'second' : 'seconds'} because nothing's happened for a while.
+        </p>
+        <div className="flex justify-center gap-3">
+          <button
+            type="button"
+            onClick={() => signOut().catch(err => console.error('Sign out error:', err))}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Sign out now
+          </button>
+          <button
+            type="button"
+            onClick={stayActive}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,62 @@
-import { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
-import { useAuth } from '../../contexts/AuthContext';
-
-type ProtectedRouteProps = {
-  children: ReactNode;
-};
-
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading } = useAuth();
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!user) {
-    return <Navigate to="/login" replace />;
-  }
-
-  return <>{children}</>;
-}
\ No newline at end of file
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { Action, Role } from '../../lib/permissions';
+import { DEFAULT_RETURN_TO, readReturnTo, returnToState } from '../../lib/returnTo';
+
+type Auth = ReturnType<typeof useAuth>;
+
+// Every guard needs someone signed in. On top of that a route can ask for a permission, one of a
+// few roles, or any other check on the session - all of them have to pass
+type ProtectedRouteProps = {
+  children: ReactNode;
+  requires?: Action;
+  roles?: Role[];
+  when?: (auth: Auth) => boolean;
+  redirectTo?: string;   // Where signed-in users who don't pass go (default: the product list)
+};
+
+function GuardLoading() {
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    </div>
+  );
+}
+
+// Signed-out visitors go to /login, which sends them back here once they're in
+export function ProtectedRoute({ children, requires, roles, when, redirectTo = DEFAULT_RETURN_TO }: ProtectedRouteProps) {
+  const auth = useAuth();
+  const location = useLocation();
+
+  if (auth.loading) return <GuardLoading />;
+
+  if (!auth.user) {
+    return <Navigate to="/login" replace state={returnToState(location)} />;
+  }
+
+  const allowed = (!requires || auth.can(requires)) &&
+    (!roles || (auth.role !== null && roles.includes(auth.role))) &&
+    (!when || when(auth));
+  // Don't bounce back to the page that's refusing them
+  if (!allowed) {
+    return <Navigate to={redirectTo === location.pathname ? DEFAULT_RETURN_TO : redirectTo} replace />;
+  }
+
+  return <>{children}</>;
+}
+
+// For the sign-in and sign-up pages: anyone already signed in goes on to where they were headed.
+// That's also how a successful sign-in moves on - the user appears and this redirects
+export function GuestRoute({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return <GuardLoading />;
+  if (user) return <Navigate to={readReturnTo(location.state)} replace />;
+
+  return <>{children}</>;
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+
+const MIN_PASSWORD_LENGTH = 6;   // Supabase's default minimum
+
+// Second half of a password reset - the emailed link signs the user in and lands here
+export function ResetPassword() {
+  const { user, loading, updatePassword } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("Those passwords don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updatePassword(password);
+      navigate('/products', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update your password');
+      console.error('Password update error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Choose a new password</h2>
+
+        {/* The link's session is what allows the change - without one the link was bad or has expired */}
+        {!user ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-700">This reset link is invalid or has expired.</p>
+            <Link to="/forgot-password" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Send a new link
+            </Link>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <p className="text-center text-sm text-gray-600">For {user.email}</p>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="new-password" className="sr-only">
+                  New password
+                </label>
+                <input
+                  id="new-password"
+                  name="password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="New password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirm-password" className="sr-only">
+                  Confirm new password
+                </label>
+                <input
+                  id="confirm-password"
+                  name="confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm new password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {error && <div className="text-red-600 text-sm text-center">{error}</div>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save new password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { ATTRIBUTE_TYPES, AttributeDefinition, AttributeType, checkAttributeSchema } from '../../lib/attributes';
+import { Category } from '../../lib/supabase';
+
+type AttributeSchemaEditorProps = {
+  category: Category;
+  inherited: AttributeDefinition[];   // From the categories above it - shown, not edited here
+  onSave: (attributes: AttributeDefinition[]) => Promise<void>;
+  onClose: () => void;
+};
+
+// An attribute as the editor holds it - numbers and options are text until saved
+type DraftAttribute = {
+  key: string;
+  label: string;
+  type: AttributeType;
+  required: boolean;
+  unit: string;
+  options: string;    // Comma separated
+  min: string;
+  max: string;
+  isNew: boolean;     // Keys of saved attributes are fixed - products store their values under them
+  keyTouched: boolean;
+};
+
+const toDraft = (definition: AttributeDefinition): DraftAttribute => ({
+  key: definition.key,
+  label: definition.label,
+  type: definition.type,
+  required: definition.required ?? false,
+  unit: definition.unit ?? '',
+  options: definition.options?.join(', ') ?? '',
+  min: definition.min?.toString() ?? '',
+  max: definition.max?.toString() ?? '',
+  isNew: false,
+  keyTouched: true,
+});
+
+const toDefinition = (draft: DraftAttribute): AttributeDefinition => ({
+  key: draft.key.trim(),
+  label: draft.label.trim(),
+  type: draft.type,
+  required: draft.required,
+  unit: draft.unit,
+  options: draft.options.split(','),
+  min: draft.min.trim() === '' ? undefined : Number(draft.min),
+  max: draft.max.trim() === '' ? undefined : Number(draft.max),
+});
+
+// "Warranty (months)" -> "warranty_months"
+const keyFromLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 32);
+
+const inputClasses = 'border rounded-md px-2 py-1 text-sm w-full';
+
+// Modal for the extra product fields a category asks for
+export function AttributeSchemaEditor({ category, inherited, onSave, onClose }: AttributeSchemaEditorProps) {
+  const [drafts, setDrafts] = useState<DraftAttribute[]>(() => (category.attributes ?? []).map(toDraft));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (index: number, changes: Partial<DraftAttribute>) => {
+    setDrafts(prev => prev.map((draft, position) => {
+      if (position !== index) return draft;
+      const next = { ...draft, ...changes };
+      // New attributes get a key from their label until one is typed in
+      if (changes.label !== undefined && next.isNew && !next.keyTouched) next.key = keyFromLabel(changes.label);
+      return next;
+    }));
+  };
+
+  const addAttribute = () => {
+    setDrafts(prev => [...prev, {
+      key: '', label: '', type: 'text', required: false, unit: '', options: '', min: '', max: '',
+      isNew: true, keyTouched: false,
+    }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const definitions = drafts.map(toDefinition);
+    if (definitions.some(definition => Number.isNaN(definition.min) || Number.isNaN(definition.max))) {
+      setError('Min and max should be numbers');
+      return;
+    }
+    const problem = checkAttributeSchema(definitions.map(definition => ({
+      ...definition,
+      options: definition.options?.map(option => option.trim()).filter(Boolean),
+    })));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(definitions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the attributes');
+      console.error('Attribute schema save error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">{category.name} attributes</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Extra fields on products in this category and everything under it. Removing one hides it, and products drop
+          their value for it the next time they're saved.
+        </p>
+
+        {inherited.length > 0 && (
+          <p className="text-sm text-gray-500 mb-4">
+            Inherited: {inherited.map(definition => definition.label).join(', ')}
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {drafts.map((draft, index) => (
+            <div key={index} className="grid grid-cols-6 gap-2 items-start p-3 rounded-md border border-gray-200">
+              <input
+                type="text"
+                placeholder="Label"
+                value={draft.label}
+                onChange={(e) => update(index, { label: e.target.value })}
+                className={`${inputClasses} col-span-2`}
+              />
+              <input
+                type="text"
+                placeholder="key"
+                title={draft.isNew ? 'Stored under this - lower-case letters, digits and underscores' : "Saved keys can't change"}
+                value={draft.key}
+                disabled={!draft.isNew}
+                onChange={(e) => update(index, { key: e.target.value, keyTouched: true })}
+                className={`${inputClasses} col-span-2 font-mono disabled:bg-gray-50`}
+              />
+              <select
+                value={draft.type}
+                onChange={(e) => update(index, { type: e.target.value as AttributeType })}
+                className={inputClasses}
+              >
+                {ATTRIBUTE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setDrafts(prev => prev.filter((_, position) => position !== index))}
+                className="justify-self-end text-red-600 hover:text-red-800 pt-1"
+                title="Remove attribute"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+
+              {draft.type !== 'boolean' && (
+                <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.required}
+                    onChange={(e) => update(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+              )}
+              {draft.type === 'enum' && (
+                <input
+                  type="text"
+                  placeholder="Options, comma separated"
+                  value={draft.options}
+                  onChange={(e) => update(index, { options: e.target.value })}
+                  className={`${inputClasses} col-span-4`}
+                />
+              )}
+              {(draft.type === 'number' || draft.type === 'text') && (
+                <>
+                  {draft.type === 'number' && (
+                    <input
+                      type="text"
+                      placeholder="Unit"
+                      value={draft.unit}
+                      onChange={(e) => update(index, { unit: e.target.value })}
+                      className={inputClasses}
+                    />
+                  )}
+                  <input
+                    type="number"
+                    placeholder={draft.type === 'text' ? 'Min length' : 'Min'}
+                    value={draft.min}
+                    onChange={(e) => update(index, { min: e.target.value })}
+                    className={inputClasses}
+                  />
+                  <input
+                    type="number"
+                    placeholder={draft.type === 'text' ? 'Max length' : 'Max'}
+                    value={draft.max}
+                    onChange={(e) => update(index, { max: e.target.value })}
+                    className={inputClasses}
+                  />
+                </>
+              )}
+            </div>
+          ))}
+
+          <button type="button" onClick={addAttribute} className="text-sm text-indigo-600 hover:text-indigo-800">
+            + Add attribute
+          </button>
+
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save attributes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { ArrowDownIcon, ArrowUpIcon, PencilIcon } from '@heroicons/react/24/outline';
+import { Category } from '../../lib/supabase';
+import { categoryService, flattenCategoryTree, getAttributeSchema } from '../../services/categoryService';
+import { useCategories } from '../../hooks/useCategories';
+import { AttributeSchemaEditor } from './AttributeSchemaEditor';
+
+export function CategoryManager() {
+  const { categories, loading, error: loadError, reload } = useCategories();
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [schemaCategoryId, setSchemaCategoryId] = useState<string | null>(null);
+
+  // Every change goes through here: run it, reload the tree, surface errors
+  const runChange = async (change: () => Promise<unknown>) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await change();
+      await reload();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      console.error('Category change error:', err);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await runChange(() => categoryService.createCategory(newName, newParentId || null));
+    if (created) setNewName('');
+  };
+
+  const handleRename = async (category: Category) => {
+    const renamed = await runChange(() => categoryService.renameCategory(category.id, editingName));
+    if (renamed) setEditingId(null);
+  };
+
+  // Archived ones included - this is where they get unarchived
+  const tree = flattenCategoryTree(categories, { includeArchived: true });
+
+  // A category can't move under itself or its own descendants
+  const parentOptionsFor = (category: Category) => {
+    const excluded = new Set([category.id]);
+    tree.forEach(({ category: candidate }) => {
+      if (candidate.parent_id && excluded.has(candidate.parent_id)) excluded.add(candidate.id);
+    });
+    return tree.filter(({ category: candidate }) => !excluded.has(candidate.id));
+  };
+
+  const schemaCategory = categories.find(category => category.id === schemaCategoryId);
+  const schemaParent = categories.find(category => category.id === schemaCategory?.parent_id);
+
+  if (loading && categories.length === 0) {
+    return <div className="text-center py-8">Loading categories...</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold mb-1">Categories</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Renaming a category moves its products along with it. Archived categories stay on existing products
+        but can't be picked for new ones.
+      </p>
+
+      <form onSubmit={handleCreate} className="bg-white p-4 rounded-lg shadow mb-6 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          placeholder="New category name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          required
+          className="border rounded-md px-3 py-2 flex-1"
+        />
+        <select
+          value={newParentId}
+          onChange={(e) => setNewParentId(e.target.value)}
+          className="border rounded-md px-3 py-2"
+        >
+          <option value="">Top level</option>
+          {tree.map(({ category, depth }) => (
+            <option key={category.id} value={category.id}>
+              {'\u00A0\u00A0'.repeat(depth)}{category.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Add Category
+        </button>
+      </form>
+
+      {(error || loadError) && <div className="text-red-600 text-sm mb-4">{error ?? loadError}</div>}
+
+      <div className="bg-white rounded-lg shadow divide-y">
+        {tree.map(({ category, depth }) => (
+          <div
+            key={category.id}
+            className={`flex items-center gap-3 p-3 ${category.archived_at ? 'bg-gray-50 text-gray-400' : ''}`}
+            style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}
+          >
+            {editingId === category.id ? (
+              <form
+                className="flex gap-2 flex-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRename(category);
+                }}
+              >
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  autoFocus
+                  className="border rounded-md px-2 py-1 flex-1 text-gray-900"
+                />
+                <button type="submit" disabled={isWorking} className="text-sm text-indigo-600 hover:text-indigo-800">
+                  Save
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="text-sm text-gray-500">
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <span className="flex-1 font-medium">
+                {category.name}
+                {category.archived_at && <span className="ml-2 text-xs">(archived)</span>}
+              </span>
+            )}
+
+            {editingId !== category.id && (
+              <>
+                <button
+                  onClick={() => {
+                    setEditingId(category.id);
+                    setEditingName(category.name);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                  title="Rename"
+                >
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => runChange(() => categoryService.moveCategory(category.id, -1))}
+                  disabled={isWorking}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Move up"
+                >
+                  <ArrowUpIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => runChange(() => categoryService.moveCategory(category.id, 1))}
+                  disabled={isWorking}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Move down"
+                >
+                  <ArrowDownIcon className="h-4 w-4" />
+                </button>
+                <select
+                  value={category.parent_id ?? ''}
+                  onChange={(e) => runChange(() => categoryService.setParent(category.id, e.target.value || null))}
+                  disabled={isWorking}
+                  className="border rounded-md px-2 py-1 text-sm text-gray-700"
+                  title="Parent category"
+                >
+                  <option value="">Top level</option>
+                  {parentOptionsFor(category).map(({ category: option, depth: optionDepth }) => (
+                    <option key={option.id} value={option.id}>
+                      {'\u00A0\u00A0'.repeat(optionDepth)}{option.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSchemaCategoryId(category.id)}
+                  className="text-sm text-indigo-600 hover:text-indigo-800"
+                  title="Extra product fields for this category"
+                >
+                  Attributes{category.attributes?.length ? ` (${category.attributes.length})` : ''}
+                </button>
+                <button
+                  onClick={() => runChange(() => categoryService.setArchived(category.id, !category.archived_at))}
+                  disabled={isWorking}
+                  className="text-sm text-gray-600 hover:text-gray-900 w-20 text-right"
+                >
+                  {category.archived_at ? 'Unarchive' : 'Archive'}
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {tree.length === 0 && (
+        <div className="text-center py-8 text-gray-500">No categories yet. Add the first one above.</div>
+      )}
+
+      {schemaCategory && (
+        <AttributeSchemaEditor
+          category={schemaCategory}
+          inherited={schemaParent ? getAttributeSchema(categories, schemaParent.name) : []}
+          onSave={async (attributes) => {
+            await categoryService.setAttributes(schemaCategory.id, attributes);
+            await reload();
+            setSchemaCategoryId(null);
+          }}
+          onClose={() => setSchemaCategoryId(null)}
+        />
+      )}
+    </div>
+  );
+}
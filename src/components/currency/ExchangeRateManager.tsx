@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { BASE_CURRENCY, CurrencyCode, SUPPORTED_CURRENCIES, formatPrice } from '../../lib/currency';
+import { currencyService } from '../../services/currencyService';
+import { useCurrency } from '../../hooks/useCurrency';
+
+export function ExchangeRateManager() {
+  const { rateRows } = useCurrency();
+  // Typed-in rates that haven't been saved yet, by currency
+  const [drafts, setDrafts] = useState<Partial<Record<CurrencyCode, string>>>({});
+  const [savingCurrency, setSavingCurrency] = useState<CurrencyCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (currency: CurrencyCode) => {
+    const draft = drafts[currency];
+    if (draft === undefined) return;
+    setError(null);
+    setSavingCurrency(currency);
+    try {
+      await currencyService.setRate(currency, Number(draft));
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[currency];
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the rate');
+      console.error('Exchange rate save error:', err);
+    } finally {
+      setSavingCurrency(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold mb-1">Exchange rates</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        How much of each currency one {BASE_CURRENCY} buys. Prices are converted with these wherever they're
+        shown in another currency, and when filtering by price.
+      </p>
+
+      {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+      <div className="bg-white rounded-lg shadow divide-y">
+        {SUPPORTED_CURRENCIES.map(currency => {
+          const row = rateRows.find(candidate => candidate.currency === currency);
+          const isBase = currency === BASE_CURRENCY;
+          const draft = drafts[currency];
+          return (
+            <form
+              key={currency}
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSave(currency);
+              }}
+              className="flex flex-col sm:flex-row sm:items-center gap-3 p-4"
+            >
+              <div className="w-32">
+                <div className="font-medium">{currency}</div>
+                <div className="text-xs text-gray-500">{formatPrice(1, currency)}</div>
+              </div>
+              {isBase ? (
+                <span className="flex-1 text-sm text-gray-600">1 (base currency)</span>
+              ) : (
+                <>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    aria-label={`${currency} per ${BASE_CURRENCY}`}
+                    value={draft ?? row?.rate.toString() ?? ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [currency]: e.target.value }))}
+                    required
+                    className="border rounded-md px-3 py-2 w-32"
+                  />
+                  <span className="flex-1 text-xs text-gray-500">
+                    {row
+                      ? `Updated ${new Date(row.updated_at).toLocaleString()}${row.updated_by_email ? ` by ${row.updated_by_email}` : ''}`
+                      : 'No rate yet - prices in this currency show unconverted'}
+                  </span>
+                  <button
+                    type="submit"
+                    disabled={draft === undefined || savingCurrency !== null}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {savingCurrency === currency ? 'Saving...' : 'Save'}
+                  </button>
+                </>
+              )}
+            </form>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { AttributeDefinition, AttributeInputs } from '../../lib/attributes';
+
+type AttributeFieldsProps = {
+  definitions: AttributeDefinition[];
+  values: AttributeInputs;
+  errors?: Record<string, string>;   // By attribute key
+  onChange: (key: string, value: string) => void;
+};
+
+const inputClasses =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+// The extra fields a product's category asks for, one input per attribute type
+export function AttributeFields({ definitions, values, errors, onChange }: AttributeFieldsProps) {
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {definitions.map(definition => {
+        const value = values[definition.key] ?? '';
+        const label = definition.unit ? `${definition.label} (${definition.unit})` : definition.label;
+
+        if (definition.type === 'boolean') {
+          return (
+            <label key={definition.key} className="flex items-center gap-2 text-sm font-medium text-gray-700 self-end pb-2">
+              <input
+                type="checkbox"
+                checked={value === 'true'}
+                onChange={(e) => onChange(definition.key, e.target.checked ? 'true' : '')}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {label}
+            </label>
+          );
+        }
+
+        return (
+          <div key={definition.key}>
+            <label className="block text-sm font-medium text-gray-700">
+              {label}
+              {!definition.required && <span className="text-gray-400 font-normal"> - optional</span>}
+            </label>
+            {definition.type === 'enum' ? (
+              <select
+                value={value}
+                onChange={(e) => onChange(definition.key, e.target.value)}
+                required={definition.required}
+                className={inputClasses}
+              >
+                <option value="">Choose...</option>
+                {definition.options?.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : definition.type === 'number' ? (
+              <input
+                type="number"
+                value={value}
+                onChange={(e) => onChange(definition.key, e.target.value)}
+                required={definition.required}
+                min={definition.min}
+                max={definition.max}
+                step="any"
+                className={inputClasses}
+              />
+            ) : (
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => onChange(definition.key, e.target.value)}
+                required={definition.required}
+                minLength={definition.min}
+                maxLength={definition.max}
+                className={inputClasses}
+              />
+            )}
+            {errors?.[definition.key] && <p className="mt-1 text-sm text-red-600">{errors[definition.key]}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
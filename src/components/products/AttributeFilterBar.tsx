@@ -0,0 +1,87 @@
+import { AttributeCondition, AttributeDefinition, AttributeFilters } from '../../lib/attributes';
+
+type AttributeFilterBarProps = {
+  definitions: AttributeDefinition[];    // The picked category's schema
+  filters: AttributeFilters | undefined;
+  onChange: (filters: AttributeFilters | undefined) => void;
+};
+
+// Set (or clear) one attribute's condition - empty conditions are dropped so they don't filter anything out
+function withCondition(filters: AttributeFilters | undefined, key: string, changes: AttributeCondition) {
+  const condition = { ...filters?.[key], ...changes };
+  const cleaned = Object.fromEntries(
+    Object.entries(condition).filter(([, value]) => value !== undefined && value !== '')
+  ) as AttributeCondition;
+
+  const next = { ...filters };
+  if (Object.keys(cleaned).length > 0) next[key] = cleaned;
+  else delete next[key];
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+const numberOrUndefined = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Filters for the category's own attributes - only shown once a category is picked
+export function AttributeFilterBar({ definitions, filters, onChange }: AttributeFilterBarProps) {
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-3 grid grid-cols-1 md:grid-cols-4 gap-4">
+      {definitions.map(definition => {
+        const condition = filters?.[definition.key];
+        const label = definition.unit ? `${definition.label} (${definition.unit})` : definition.label;
+        const set = (changes: AttributeCondition) => onChange(withCondition(filters, definition.key, changes));
+
+        return (
+          <div key={definition.key}>
+            <label className="block text-sm text-gray-500 mb-1">{label}</label>
+            {definition.type === 'number' ? (
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  placeholder="Min"
+                  aria-label={`Minimum ${definition.label}`}
+                  className="border rounded-md px-3 py-2 w-1/2"
+                  value={condition?.min ?? ''}
+                  onChange={(e) => set({ min: numberOrUndefined(e.target.value) })}
+                />
+                <input
+                  type="number"
+                  placeholder="Max"
+                  aria-label={`Maximum ${definition.label}`}
+                  className="border rounded-md px-3 py-2 w-1/2"
+                  value={condition?.max ?? ''}
+                  onChange={(e) => set({ max: numberOrUndefined(e.target.value) })}
+                />
+              </div>
+            ) : definition.type === 'text' ? (
+              <input
+                type="text"
+                placeholder="Exact match"
+                className="border rounded-md px-3 py-2 w-full"
+                value={condition?.equals ?? ''}
+                onChange={(e) => set({ equals: e.target.value || undefined })}
+              />
+            ) : (
+              <select
+                className="border rounded-md px-3 py-2 w-full"
+                value={condition?.equals ?? ''}
+                onChange={(e) => set({ equals: e.target.value || undefined })}
+              >
+                <option value="">Any</option>
+                {definition.type === 'boolean' ? (
+                  <>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </>
+                ) : (
+                  definition.options?.map(option => <option key={option} value={option}>{option}</option>)
+                )}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
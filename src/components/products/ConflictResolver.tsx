@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ProductImage } from '../../lib/supabase';
+import { FieldMerge, MergeSource } from '../../lib/merge';
+import { NewProduct } from '../../services/productRepository';
+
+const FIELD_LABELS: Record<keyof NewProduct, string> = {
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  price: 'Price',
+  currency: 'Currency',
+  sku: 'SKU',
+  reorder_threshold: 'Reorder threshold',
+  attributes: 'Attributes',
+  images: 'Images',
+  primary_image_id: 'Primary image',
+};
+
+type Side = 'base' | MergeSource;
+
+type ConflictResolverProps = {
+  merges: FieldMerge<NewProduct>[];
+  saving: boolean;
+  onResolve: (choices: Partial<Record<keyof NewProduct, MergeSource>>) => void;
+  onCancel: () => void;
+};
+
+// Side-by-side view of base / yours / theirs for every field that moved, with a pick per field
+export function ConflictResolver({ merges, saving, onResolve, onCancel }: ConflictResolverProps) {
+  const changed = merges.filter(merge => merge.changedByMe || merge.changedByThem);
+  const [choices, setChoices] = useState(() =>
+    Object.fromEntries(changed.map(merge => [merge.field, merge.suggested])) as Partial<Record<keyof NewProduct, MergeSource>>
+  );
+  const conflictCount = changed.filter(merge => merge.conflict).length;
+
+  // The primary image is just an id - show which of that side's images it points at
+  const imagesOn = (side: Side) =>
+    (merges.find(merge => merge.field === 'images')?.[side] as ProductImage[] | undefined) ?? [];
+
+  const formatValue = (merge: FieldMerge<NewProduct>, side: Side) => {
+    const value = merge[side];
+    if (merge.field === 'primary_image_id') {
+      const index = imagesOn(side).findIndex(image => image.id === value);
+      return index === -1 ? '—' : `Image ${index + 1}`;
+    }
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return `${value.length} image${value.length === 1 ? '' : 's'}`;
+    if (typeof value === 'object') return Object.entries(value).map(([key, item]) => `${key}: ${item}`).join(', ');
+    return String(value);
+  };
+
+  const pick = (field: keyof NewProduct, source: MergeSource) => {
+    setChoices(prev => ({ ...prev, [field]: source }));
+  };
+
+  return (
+    <div>
+      <div className="mb-4 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+        Someone else saved this product while you were editing it.
+        {conflictCount > 0
+          ? ` ${conflictCount} field${conflictCount === 1 ? ' was' : 's were'} changed by both of you - pick which value to keep.`
+          : ' None of your changes overlap, so both sets can be kept.'}
+      </div>
+
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-2 font-medium">Field</th>
+            <th className="py-1 pr-2 font-medium">Before</th>
+            <th className="py-1 pr-2 font-medium">Yours</th>
+            <th className="py-1 font-medium">Theirs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changed.map(merge => (
+            <tr key={merge.field} className={`align-top ${merge.conflict ? 'bg-amber-50' : ''}`}>
+              <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">{FIELD_LABELS[merge.field]}</td>
+              <td className="py-2 pr-2 text-gray-500 break-all">{formatValue(merge, 'base')}</td>
+              {(['mine', 'theirs'] as const).map(source => (
+                <td key={source} className="py-2 pr-2 break-all">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`merge-${merge.field}`}
+                      checked={choices[merge.field] === source}
+                      onChange={() => pick(merge.field, source)}
+                      className="mt-0.5 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>{formatValue(merge, source)}</span>
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Back to editing
+        </button>
+        <button
+          type="button"
+          onClick={() => onResolve(choices)}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          {saving ? 'Saving...' : 'Save merged version'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { Category } from '../../lib/supabase';
+import { CurrencyCode } from '../../lib/currency';
+import { ProductFacets } from '../../services/productService';
+import { ProductSearch } from '../../services/savedSearchService';
+import { flattenCategoryTree, getCategoryNamesWithin } from '../../services/categoryService';
+import { PriceRangeSlider } from './PriceRangeSlider';
+
+type FacetFilters = ProductSearch['filters'];
+
+type FacetPanelProps = {
+  facets: ProductFacets | null;
+  categories: Category[];
+  filters: FacetFilters;                              // What's applied now
+  currency: CurrencyCode;                             // The price facet comes back in this
+  onChange: (changes: Partial<FacetFilters>) => void; // Applies straight away
+};
+
+// Clickable category / rating / price choices, each with how many products it would show
+export function FacetPanel({ facets, categories, filters, currency, onChange }: FacetPanelProps) {
+  // A parent category counts its subcategories' products too, like picking it in the select does
+  const categoryRows = useMemo(() => {
+    if (!facets) return [];
+    const counts = new Map(facets.categories.map(facet => [facet.category, facet.count]));
+    const rows = flattenCategoryTree(categories, { includeArchived: true }).map(({ category, depth }) => ({
+      name: category.name,
+      depth,
+      count: getCategoryNamesWithin(categories, category.name).reduce((sum, name) => sum + (counts.get(name) ?? 0), 0),
+    }));
+    // Products can still carry a name that has no category record (e.g. imported before categories existed)
+    facets.categories
+      .filter(facet => !categories.some(category => category.name === facet.category))
+      .forEach(facet => rows.push({ name: facet.category, depth: 0, count: facet.count }));
+    return rows.filter(row => row.count > 0 || row.name === filters.category);
+  }, [facets, categories, filters.category]);
+
+  if (!facets) return null;
+
+  const facetClasses = (selected: boolean) =>
+    `w-full flex justify-between gap-2 px-2 py-1 rounded-md text-sm text-left ${
+      selected ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-3 grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Category</h3>
+        <div className="max-h-48 overflow-y-auto space-y-0.5">
+          {categoryRows.length === 0 && <p className="text-sm text-gray-500">No matching products</p>}
+          {categoryRows.map(row => (
+            <button
+              key={row.name}
+              onClick={() => onChange({ category: row.name === filters.category ? undefined : row.name })}
+              className={facetClasses(row.name === filters.category)}
+              style={{ paddingLeft: `${0.5 + row.depth}rem` }}
+            >
+              <span className="truncate">{row.name}</span>
+              <span className="shrink-0">{row.count}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Rating</h3>
+        <div className="space-y-0.5">
+          {facets.ratings.map(facet => (
+            <button
+              key={facet.minRating}
+              onClick={() => onChange({ minRating: facet.minRating === filters.minRating ? undefined : facet.minRating })}
+              disabled={facet.count === 0 && facet.minRating !== filters.minRating}
+              className={`${facetClasses(facet.minRating === filters.minRating)} disabled:opacity-40`}
+            >
+              <span>
+                <span className={facet.minRating === filters.minRating ? '' : 'text-yellow-400'}>★</span> {facet.minRating} & up
+              </span>
+              <span>{facet.count}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Price</h3>
+        <PriceRangeSlider
+          min={facets.price.min}
+          max={facets.price.max}
+          buckets={facets.price.buckets}
+          minPrice={filters.minPrice}
+          maxPrice={filters.maxPrice}
+          currency={currency}
+          onChange={(minPrice, maxPrice) => onChange({ minPrice, maxPrice })}
+        />
+      </div>
+    </div>
+  );
+}
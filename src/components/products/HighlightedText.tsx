@@ -0,0 +1,27 @@
+type HighlightedTextProps = {
+  text: string;
+  terms: string[];   // Lower-cased search terms, as parseSearchQuery returns them
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Renders text with every occurrence of the search terms marked
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>;
+
+  // Longest first so "noise cancelling" wins over "noise"; the capture group keeps matches in split()'s output
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // split() with one capture group puts the matches at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 rounded-sm">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
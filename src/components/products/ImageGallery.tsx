@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ProductImage } from '../../lib/supabase';
+
+type ImageGalleryProps = {
+  images: ProductImage[];
+  startIndex?: number;
+  title?: string;
+  onClose: () => void;
+};
+
+// Full-screen lightbox - arrow keys to browse, Escape to close
+export function ImageGallery({ images, startIndex = 0, title, onClose }: ImageGalleryProps) {
+  const [index, setIndex] = useState(startIndex);
+
+  const showPrevious = useCallback(() => {
+    setIndex(current => (current - 1 + images.length) % images.length);
+  }, [images.length]);
+
+  const showNext = useCallback(() => {
+    setIndex(current => (current + 1) % images.length);
+  }, [images.length]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') showPrevious();
+      if (e.key === 'ArrowRight') showNext();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, showPrevious, showNext]);
+
+  const image = images[index];
+  if (!image) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <button className="absolute top-4 right-4 text-white" onClick={onClose} title="Close">
+        <XMarkIcon className="h-8 w-8" />
+      </button>
+
+      <div className="flex items-center gap-4 max-w-full" onClick={(e) => e.stopPropagation()}>
+        {images.length > 1 && (
+          <button className="text-white" onClick={showPrevious} title="Previous image">
+            <ChevronLeftIcon className="h-10 w-10" />
+          </button>
+        )}
+        <img src={image.url} alt={title ?? ''} className="max-h-[80vh] max-w-[80vw] object-contain" />
+        {images.length > 1 && (
+          <button className="text-white" onClick={showNext} title="Next image">
+            <ChevronRightIcon className="h-10 w-10" />
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 flex gap-2" onClick={(e) => e.stopPropagation()}>
+        {images.map((thumb, thumbIndex) => (
+          <button key={thumb.id} onClick={() => setIndex(thumbIndex)}>
+            <img
+              src={thumb.thumbnail_url}
+              alt=""
+              className={`h-12 w-12 object-cover rounded ${thumbIndex === index ? 'ring-2 ring-white' : 'opacity-60'}`}
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, StarIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { ProductImage } from '../../lib/supabase';
+import { imageService } from '../../services/imageService';
+
+type ImageUploaderProps = {
+  images: ProductImage[];
+  primaryImageId: string | null;
+  onChange: (images: ProductImage[], primaryImageId: string | null) => void;
+  // A new image is in storage - the form adds it (and can clean it up if it's cancelled)
+  // Uploads finish one after another while `images` is still the list from before, so the form has to
+  // add to its latest list rather than this one
+  onUploaded: (image: ProductImage) => void;
+};
+
+export function ImageUploader({ images, primaryImageId, onChange, onUploaded }: ImageUploaderProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Primary falls back to the first image, same as on the cards
+  const effectivePrimaryId = images.some(image => image.id === primaryImageId)
+    ? primaryImageId
+    : images[0]?.id ?? null;
+
+  // Upload one by one so a single bad file doesn't sink the rest
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploadError(null);
+
+    for (const file of Array.from(files)) {
+      setUploadingCount(count => count + 1);
+      try {
+        onUploaded(await imageService.uploadProductImage(file));
+      } catch (err) {
+        setUploadError(err instanceof Error ? err.message : 'Failed to upload image');
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+    const reordered = [...images];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered, primaryImageId);
+  };
+
+  const removeImage = (id: string) => {
+    onChange(
+      images.filter(image => image.id !== id),
+      primaryImageId === id ? null : primaryImageId
+    );
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Images</label>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        className={`mt-1 border-2 border-dashed rounded-md p-4 text-center text-sm ${
+          isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 text-gray-500'
+        }`}
+      >
+        <p>Drag images here or</p>
+        <label className="text-indigo-600 hover:text-indigo-800 cursor-pointer font-medium">
+          browse
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="sr-only"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = ''; // Allow picking the same file again
+            }}
+          />
+        </label>
+        {uploadingCount > 0 && <p className="mt-1">Uploading {uploadingCount}...</p>}
+      </div>
+
+      {uploadError && <div className="text-red-600 text-sm mt-1">{uploadError}</div>}
+
+      {images.length > 0 && (
+        <div className="mt-2 grid grid-cols-4 gap-2">
+          {images.map((image, index) => (
+            <div key={image.id} className="relative group">
+              <img
+                src={image.thumbnail_url}
+                alt=""
+                className={`h-20 w-full object-cover rounded-md ${
+                  image.id === effectivePrimaryId ? 'ring-2 ring-indigo-500' : ''
+                }`}
+              />
+              <div className="absolute inset-x-0 bottom-0 flex justify-between bg-black bg-opacity-40 rounded-b-md text-white">
+                <button type="button" onClick={() => moveImage(index, -1)} title="Move left" disabled={index === 0}>
+                  <ChevronLeftIcon className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => onChange(images, image.id)} title="Make primary image">
+                  {image.id === effectivePrimaryId ? (
+                    <StarSolidIcon className="h-4 w-4 text-yellow-300" />
+                  ) : (
+                    <StarIcon className="h-4 w-4" />
+                  )}
+                </button>
+                <button type="button" onClick={() => moveImage(index, 1)} title="Move right" disabled={index === images.length - 1}>
+                  <ChevronRightIcon className="h-4 w-4" />
+                </button>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeImage(image.id)}
+                className="absolute top-1 right-1 bg-white rounded-full text-gray-700 hover:text-red-600"
+                title="Remove image"
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
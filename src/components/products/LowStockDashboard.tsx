@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Product } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getStockOnHand } from '../../services/productService';
+import { getShortfall, stockService } from '../../services/stockService';
+import { StockAdjuster } from './StockAdjuster';
+
+// Everything at or below its reorder threshold, furthest under first - the reorder list
+// Anyone signed in can see it; only those who may adjust stock get the adjust buttons
+export function LowStockDashboard() {
+  const { can } = useAuth();
+  const canAdjust = can('stock:adjust');
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setProducts(await stockService.getLowStockProducts());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load low stock products.');
+      console.error('Low stock fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  if (loading) return <div className="text-center py-8">Loading inventory...</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Low stock</h1>
+        <Link to="/products?low_stock=1" className="text-sm text-indigo-600 hover:text-indigo-800">
+          Show in the catalog
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {products.length === 0 && !error ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-600">
+          Nothing needs reordering right now.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-4 py-3">Product</th>
+                <th className="px-4 py-3">SKU</th>
+                <th className="px-4 py-3 text-right">On hand</th>
+                <th className="px-4 py-3 text-right">Reorder at</th>
+                <th className="px-4 py-3 text-right">Short by</th>
+                {canAdjust && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody>
+              {products.map(product => (
+                <tr key={product.id} className="border-b last:border-0">
+                  <td className="px-4 py-3">
+                    <Link to={`/products/${product.id}`} className="font-medium hover:text-indigo-600">
+                      {product.name}
+                    </Link>
+                    <div className="text-xs text-gray-500">{product.category}</div>
+                  </td>
+                  <td className="px-4 py-3 font-mono">{product.sku ?? '—'}</td>
+                  <td className={`px-4 py-3 text-right ${getStockOnHand(product) === 0 ? 'text-red-600 font-medium' : ''}`}>
+                    {getStockOnHand(product)}
+                  </td>
+                  <td className="px-4 py-3 text-right">{product.reorder_threshold}</td>
+                  <td className="px-4 py-3 text-right">{getShortfall(product)}</td>
+                  {canAdjust && (
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => setAdjustingProduct(product)}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        Adjust stock
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canAdjust && adjustingProduct && (
+        <StockAdjuster
+          product={adjustingProduct}
+          // Reload on close - whatever got restocked drops off the list
+          onClose={() => {
+            setAdjustingProduct(null);
+            loadProducts();
+          }}
+          onAdjusted={updated => setProducts(prev => prev.map(product => (product.id === updated.id ? updated : product)))}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { PriceBucket } from '../../services/productService';
+import { CurrencyCode, formatPrice } from '../../lib/currency';
+
+type PriceRangeSliderProps = {
+  min: number;
+  max: number;
+  buckets: PriceBucket[];
+  minPrice?: number;
+  maxPrice?: number;
+  currency: CurrencyCode;   // What the prices above are in
+  // undefined means "no bound" - dragging a handle all the way out removes that filter
+  onChange: (minPrice: number | undefined, maxPrice: number | undefined) => void;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Two handles over a histogram of prices. The range only applies on release, not on every pixel of a drag
+export function PriceRangeSlider({ min, max, buckets, minPrice, maxPrice, currency, onChange }: PriceRangeSliderProps) {
+  const [low, setLow] = useState(clamp(minPrice ?? min, min, max));
+  const [high, setHigh] = useState(clamp(maxPrice ?? max, min, max));
+
+  // Follow the applied filter (and a histogram that moved under us)
+  useEffect(() => {
+    setLow(clamp(minPrice ?? min, min, max));
+    setHigh(clamp(maxPrice ?? max, min, max));
+  }, [min, max, minPrice, maxPrice]);
+
+  const commit = () => {
+    if (low === clamp(minPrice ?? min, min, max) && high === clamp(maxPrice ?? max, min, max)) return;
+    onChange(low > min ? low : undefined, high < max ? high : undefined);
+  };
+
+  const tallest = Math.max(1, ...buckets.map(bucket => bucket.count));
+  const step = max - min >= 20 ? 1 : 0.01;
+  // Both inputs span the whole track; only their thumbs take pointer events so either can be grabbed
+  const thumbClasses = 'absolute inset-x-0 top-0 w-full h-4 appearance-none bg-transparent pointer-events-none ' +
+    '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none ' +
+    '[&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full ' +
+    '[&::-webkit-slider-thumb]:bg-indigo-600 [&::-webkit-slider-thumb]:cursor-pointer ' +
+    '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 ' +
+    '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-indigo-600 [&::-moz-range-thumb]:border-0';
+
+  if (max <= min) {
+    return <p className="text-sm text-gray-500">{buckets[0]?.count ? `All at ${formatPrice(min, currency)}` : 'No prices to show'}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-16" aria-hidden="true">
+        {buckets.map(bucket => (
+          <div
+            key={bucket.from}
+            title={`${formatPrice(bucket.from, currency)} - ${formatPrice(bucket.to, currency)}: ${bucket.count}`}
+            className={`flex-1 rounded-t-sm ${bucket.to > low && bucket.from < high ? 'bg-indigo-300' : 'bg-gray-200'}`}
+            style={{ height: `${Math.max(bucket.count > 0 ? 8 : 2, (bucket.count / tallest) * 100)}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="relative h-4 mt-1">
+        <div className="absolute inset-x-0 top-1.5 h-1 rounded bg-gray-200" />
+        <div
+          className="absolute top-1.5 h-1 rounded bg-indigo-600"
+          style={{ left: `${((low - min) / (max - min)) * 100}%`, right: `${((max - high) / (max - min)) * 100}%` }}
+        />
+        <input
+          type="range"
+          aria-label="Minimum price"
+          min={min}
+          max={max}
+          step={step}
+          value={low}
+          onChange={(e) => setLow(Math.min(Number(e.target.value), high))}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          className={thumbClasses}
+        />
+        <input
+          type="range"
+          aria-label="Maximum price"
+          min={min}
+          max={max}
+          step={step}
+          value={high}
+          onChange={(e) => setHigh(Math.max(Number(e.target.value), low))}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          className={thumbClasses}
+        />
+      </div>
+
+      <div className="flex justify-between text-sm text-gray-600 mt-2">
+        <span>{formatPrice(low, currency)}</span>
+        <span>{formatPrice(high, currency)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, ClockIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Product } from '../../lib/supabase';
+import { productService, ProductNotFoundError } from '../../services/productService';
+import { getPrimaryImage } from '../../services/imageService';
+import { getAttributeSchema, getCategoryPath } from '../../services/categoryService';
+import { formatAttributeValue } from '../../lib/attributes';
+import { useCategories } from '../../hooks/useCategories';
+import { useCurrency } from '../../hooks/useCurrency';
+import { formatPrice, getProductCurrency } from '../../lib/currency';
+import { useAuth } from '../../contexts/AuthContext';
+import { ProductForm } from './ProductForm';
+import { ProductHistory } from './ProductHistory';
+import { ImageGallery } from './ImageGallery';
+import { ProductReviews } from './ProductReviews';
+import { StarRating } from './StarRating';
+import { StockBadge } from './StockBadge';
+import { StockAdjuster } from './StockAdjuster';
+
+// Where "Back to products" goes - the list passes its query string along so filters survive the round trip
+export type ProductDetailLocationState = {
+  listSearch?: string;
+};
+
+export function ProductDetail() {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, can, canModify } = useAuth();
+  const { categories } = useCategories();
+  const { displayCurrency, rates, formatProductPrice } = useCurrency();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showStockAdjuster, setShowStockAdjuster] = useState(false);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const listUrl = `/products${(location.state as ProductDetailLocationState | null)?.listSearch ?? ''}`;
+  // People who can see the trash get a trashed product with a banner instead of a 404
+  const canSeeTrash = can('trash:view');
+
+  const loadProduct = useCallback(async () => {
+    try {
+      setLoading(true);
+      setProduct(await productService.getProductById(id, { includeDeleted: canSeeTrash }));
+      setNotFound(false);
+      setError(null);
+    } catch (err) {
+      if (err instanceof ProductNotFoundError) {
+        setNotFound(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'Unable to load this product.');
+        console.error('Product fetch error:', err);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [id, canSeeTrash]);
+
+  useEffect(() => {
+    loadProduct();
+  }, [loadProduct]);
+
+  // Someone else editing or deleting this product shows up straight away
+  useEffect(() => {
+    return productService.subscribeToChanges(change => {
+      if (change.type === 'delete' && change.id === id) {
+        setProduct(null);
+        setNotFound(true);
+      } else if (change.type !== 'delete' && change.product.id === id) {
+        if (change.product.deleted_at && !canSeeTrash) {
+          setProduct(null);
+          setNotFound(true);
+        } else {
+          setProduct(change.product);
+        }
+      }
+    });
+  }, [id, canSeeTrash]);
+
+  const handleDelete = async () => {
+    if (!product) return;
+    if (!window.confirm('Move this product to the trash? You can restore it from the Trash page.')) return;
+
+    try {
+      setDeleting(true);
+      await productService.deleteProduct(product.id);
+      navigate(listUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove product. Please try again.');
+      console.error('Product deletion error:', err);
+      setDeleting(false);
+    }
+  };
+
+  const backLink = (
+    <Link to={listUrl} className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 mb-4">
+      <ArrowLeftIcon className="h-4 w-4" />
+      Back to products
+    </Link>
+  );
+
+  if (loading) return <div className="text-center py-8">Loading product...</div>;
+
+  if (notFound || !product) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {backLink}
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <h1 className="text-2xl font-bold mb-2">Product not found</h1>
+          <p className="text-gray-600">
+            {error ?? 'It may have been deleted, or the link might be wrong.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const images = product.images ?? [];
+  const primaryImage = getPrimaryImage(product);
+  const categoryPath = getCategoryPath(categories, product.category);
+  // Labels and units for the product's attribute values
+  const attributeSchema = getAttributeSchema(categories, product.category);
+  const mayEdit = can('product:update') && canModify(product) && !product.deleted_at;
+  const mayDelete = can('product:delete') && canModify(product) && !product.deleted_at;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {backLink}
+
+      {product.deleted_at && (
+        <div className="mb-4 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+          This product is in the trash since {new Date(product.deleted_at).toLocaleString()}.{' '}
+          <Link to="/trash" className="font-medium underline">Go to the trash</Link> to restore it.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          {primaryImage ? (
+            <button
+              onClick={() => setGalleryIndex(Math.max(0, images.findIndex(image => image.id === primaryImage.id)))}
+              className="block w-full"
+              title="View images"
+            >
+              <img src={primaryImage.url} alt={product.name} className="w-full max-h-96 object-contain rounded-md bg-gray-50" />
+            </button>
+          ) : (
+            <div className="h-64 flex items-center justify-center rounded-md bg-gray-100 text-gray-400">No images</div>
+          )}
+          {images.length > 1 && (
+            <div className="flex gap-2 mt-3 overflow-x-auto">
+              {images.map((image, index) => (
+                <button key={image.id} onClick={() => setGalleryIndex(index)} className="shrink-0">
+                  <img src={image.thumbnail_url} alt="" className="h-16 w-16 object-cover rounded-md" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <nav className="text-sm text-gray-500 mb-2">
+            {(categoryPath.length > 0 ? categoryPath.map(category => category.name) : [product.category]).map((name, index) => (
+              <span key={name}>
+                {index > 0 && ' / '}
+                <Link to={`/products?${new URLSearchParams({ category: name })}`} className="hover:text-indigo-600">
+                  {name}
+                </Link>
+              </span>
+            ))}
+          </nav>
+
+          <div className="flex justify-between items-start gap-4 mb-4">
+            <h1 className="text-3xl font-bold">{product.name}</h1>
+            <div className="flex gap-3 shrink-0">
+              <button
+                onClick={() => setShowHistory(true)}
+                className="text-gray-500 hover:text-gray-700"
+                title="Product history"
+              >
+                <ClockIcon className="h-6 w-6" />
+              </button>
+              {mayEdit && (
+                <button
+                  onClick={() => setShowEditForm(true)}
+                  className="text-blue-600 hover:text-blue-800"
+                  title="Edit product"
+                >
+                  <PencilIcon className="h-6 w-6" />
+                </button>
+              )}
+              {mayDelete && (
+                <button
+                  onClick={handleDelete}
+                  disabled={deleting}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  title="Delete product"
+                >
+                  <TrashIcon className="h-6 w-6" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-6 mb-6">
+            <span className="text-2xl font-semibold">
+              {formatProductPrice(product)}
+              {/* Converted prices also show what the product is actually priced at */}
+              {rates && getProductCurrency(product) !== displayCurrency && (
+                <span className="ml-2 text-base font-normal text-gray-500">
+                  ({formatPrice(product.price, getProductCurrency(product))})
+                </span>
+              )}
+            </span>
+            <span className="flex items-center gap-2 text-gray-600">
+              {product.review_count ? (
+                <>
+                  <StarRating value={product.rating} />
+                  {product.rating.toFixed(1)} ({product.review_count} {product.review_count === 1 ? 'review' : 'reviews'})
+                </>
+              ) : (
+                'No reviews yet'
+              )}
+            </span>
+          </div>
+
+          <p className="text-gray-700 whitespace-pre-line mb-6">{product.description}</p>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+            {Object.entries(product.attributes ?? {}).map(([key, value]) => {
+              const definition = attributeSchema.find(candidate => candidate.key === key);
+              return [
+                <dt key={`${key}-label`} className="text-gray-500">{definition?.label ?? key}</dt>,
+                <dd key={key}>{formatAttributeValue(definition, value)}</dd>,
+              ];
+            })}
+            <dt className="text-gray-500">SKU</dt>
+            <dd>{product.sku ?? '—'}</dd>
+            <dt className="text-gray-500">Stock</dt>
+            <dd className="flex items-center gap-3">
+              <StockBadge product={product} />
+              {can('stock:adjust') && !product.deleted_at && (
+                <button onClick={() => setShowStockAdjuster(true)} className="text-indigo-600 hover:text-indigo-800">
+                  Adjust stock
+                </button>
+              )}
+            </dd>
+            <dt className="text-gray-500">Reorder at</dt>
+            <dd>{product.reorder_threshold ?? 'No alert'}</dd>
+            <dt className="text-gray-500">Added by</dt>
+            <dd>
+              {product.created_by && product.created_by === user?.id
+                ? 'You'
+                : product.created_by_email ?? 'unknown'}
+            </dd>
+            <dt className="text-gray-500">Added on</dt>
+            <dd>{new Date(product.created_at).toLocaleString()}</dd>
+            <dt className="text-gray-500">Version</dt>
+            <dd>{product.version ?? 0}</dd>
+            <dt className="text-gray-500">Product ID</dt>
+            <dd className="font-mono text-xs break-all">{product.id}</dd>
+          </dl>
+        </div>
+      </div>
+
+      {!product.deleted_at && <ProductReviews product={product} onProductChange={setProduct} />}
+
+      {showEditForm && (
+        <ProductForm
+          product={product}
+          onClose={() => setShowEditForm(false)}
+          onSuccess={loadProduct}
+        />
+      )}
+
+      {showHistory && (
+        <ProductHistory
+          product={product}
+          onClose={() => setShowHistory(false)}
+          onReverted={loadProduct}
+        />
+      )}
+
+      {showStockAdjuster && (
+        <StockAdjuster
+          product={product}
+          onClose={() => setShowStockAdjuster(false)}
+          onAdjusted={setProduct}
+        />
+      )}
+
+      {galleryIndex !== null && images.length > 0 && (
+        <ImageGallery
+          images={images}
+          startIndex={galleryIndex}
+          title={product.name}
+          onClose={() => setGalleryIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
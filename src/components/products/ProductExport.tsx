@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { downloadBlob } from '../../lib/download';
+import { ProductFilter } from '../../services/productService';
+import {
+  exportService,
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+} from '../../services/exportService';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (spreadsheets)' },
+  { value: 'json', label: 'JSON (pretty printed)' },
+  { value: 'ndjson', label: 'NDJSON (one product per line)' },
+];
+
+// Everything except the internal id is picked by default
+const DEFAULT_COLUMNS = EXPORT_COLUMNS.map(({ column }) => column).filter(column => column !== 'id');
+
+type ProductExportProps = {
+  filters: ProductFilter;   // Filters and sort currently applied to the list
+  totalCount: number;
+  onClose: () => void;
+};
+
+export function ProductExport({ filters, totalCount, onClose }: ProductExportProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_COLUMNS);
+  const [quoteAll, setQuoteAll] = useState(false);
+  const [flattenNewlines, setFlattenNewlines] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(prev =>
+      prev.includes(column)
+        ? prev.filter(c => c !== column)
+        // Keep the chosen columns in their canonical order
+        : EXPORT_COLUMNS.map(c => c.column).filter(c => c === column || prev.includes(c))
+    );
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      const { blob, fileName } = await exportService.exportProducts(
+        filters,
+        {
+          format,
+          columns,
+          csv: { quoteAll, newlines: flattenNewlines ? 'space' : 'keep' },
+        },
+        setProgress
+      );
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (err) {
+      console.error('Product export error:', err);
+      setError(err instanceof Error ? err.message : 'Export failed. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-1">Export Products</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Exports all {totalCount} products matching the current filters and sort.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Columns</legend>
+            <div className="grid grid-cols-2 gap-1 text-sm">
+              {EXPORT_COLUMNS.map(({ column, label }) => (
+                <label key={column} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {format === 'csv' && (
+            <fieldset className="text-sm space-y-1">
+              <legend className="block font-medium text-gray-700 mb-1">CSV escaping</legend>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={quoteAll} onChange={(e) => setQuoteAll(e.target.checked)} />
+                Quote every field (not just ones containing commas or quotes)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={flattenNewlines}
+                  onChange={(e) => setFlattenNewlines(e.target.checked)}
+                />
+                Replace line breaks in descriptions with spaces
+              </label>
+            </fieldset>
+          )}
+
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isExporting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting || columns.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isExporting ? `Exporting... ${progress}` : 'Download'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,229 +1,421 @@
-import { useState, useEffect } from 'react';
-import { Product } from '../../lib/supabase';
-import { productService } from '../../services/productService';
-
-// Shared product categories for consistency
-const PRODUCT_CATEGORIES = [
-  { value: 'Electronics', label: 'Electronics' },
-  { value: 'Clothing', label: 'Clothing' },
-  { value: 'Books', label: 'Books' },
-  { value: 'Home', label: 'Home' }
-];
-
-// Keeping these handy for form validation
-// Note: Might want to make these customizable per product type later
-const formRules = {
-  price: { min: 0, message: "C'mon, price can't be negative!" },
-  rating: { min: 0, max: 5, message: "Let's stick to a rating between 0 and 5 stars" }
-};
-
-type ProductFormProps = {
-  product?: Product;
-  onClose: () => void;
-  onSuccess: () => void;
-};
-
-export function ProductForm({ product, onClose, onSuccess }: ProductFormProps) {
-  // Track form state and validation
-  const [productDetails, setProductDetails] = useState({
-    name: product?.name ?? '',
-    description: product?.description ?? '',
-    category: product?.category ?? '',
-    price: product?.price?.toString() ?? '',
-    rating: product?.rating?.toString() ?? ''
-  });
-  const [validationError, setValidationError] = useState<string | null>(null);
-  const [isSaving, setIsSaving] = useState(false);
-
-  // Reset form when editing different product
-  useEffect(() => {
-    if (product) {
-      setProductDetails({
-        name: product.name,
-        description: product.description,
-        category: product.category,
-        price: product.price.toString(),
-        rating: product.rating.toString()
-      });
-    }
-  }, [product]);
-
-  const checkFormValidity = () => {
-    const trimmedName = productDetails.name.trim();
-    if (!trimmedName) {
-      return 'Hey, we need a name for this product!';
-    }
-    if (!productDetails.description.trim()) {
-      return 'Mind adding a quick description?';
-    }
-    if (!productDetails.category) {
-      return 'Please pick a category for this item';
-    }
-
-    const priceValue = Number(productDetails.price);
-    if (isNaN(priceValue) || priceValue < formRules.price.min) {
-      return formRules.price.message;
-    }
-
-    const ratingValue = Number(productDetails.rating);
-    if (isNaN(ratingValue) || 
-        ratingValue < formRules.rating.min || 
-        ratingValue > formRules.rating.max) {
-      return formRules.rating.message;
-    }
-
-    return null;
-  };
-
-  // Handle the form submission - validate, save, and show feedback
-const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setValidationError(null); // Clear any previous errors
-    
-    const errorMsg = checkFormValidity();
-    if (errorMsg) {
-      setValidationError(errorMsg);
-      return;
-    }
-
-    setIsSaving(true);
-
-    try {
-      const updatedProduct = {
-        name: productDetails.name,
-        description: productDetails.description,
-        category: productDetails.category,
-        price: Number(productDetails.price),
-        rating: Number(productDetails.rating)
-      };
-
-      if (product?.id) {
-        await productService.updateProduct(product.id, updatedProduct);
-      } else {
-        await productService.createProduct(updatedProduct);
-      }
-
-      onSuccess();
-      onClose();
-    } catch (err) {
-      console.error('Failed to save product:', err);
-      setValidationError(
-        err instanceof Error 
-          ? err.message 
-          : 'Oops! Something went wrong while saving'
-      );
-    } finally {
-      setIsSaving(false);
-    }
-  };
-
-  // Update form fields as user types/selects
-const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setProductDetails(prev => ({ ...prev, [name]: value })); // Keep the rest of the form data intact
-  };
-
-  return (
-    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md">
-        <h2 className="text-xl font-bold mb-4">
-          {product ? 'Edit Product' : 'Add New Product'}
-        </h2>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Name</label>
-            <input
-              type="text"
-              name="name"
-              value={productDetails.name}
-              onChange={handleChange}
-              required
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Description</label>
-            <textarea
-              name="description"
-              value={productDetails.description}
-              onChange={handleChange}
-              required
-              rows={3}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Category</label>
-            <select
-              name="category"
-              value={productDetails.category}
-              onChange={handleChange}
-              required
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            >
-              <option value="">Choose a category...</option>
-              {PRODUCT_CATEGORIES.map(category => (
-                <option key={category.value} value={category.value}>
-                  {category.label}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Price</label>
-            <input
-              type="number"
-              name="price"
-              value={productDetails.price}
-              onChange={handleChange}
-              required
-              min="0"
-              step="0.01"
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Rating</label>
-            <input
-              type="number"
-              name="rating"
-              value={productDetails.rating}
-              onChange={handleChange}
-              required
-              min="0"
-              max="5"
-              step="0.1"
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
-
-          {validationError && (
-            <div className="text-red-600 text-sm">{validationError}</div>
-          )}
-
-          <div className="flex justify-end gap-3">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isSaving}
-              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              {isSaving ? 'Saving...' : 'Save Product'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Product, ProductImage } from '../../lib/supabase';
+import {
+  productService,
+  getProductVersion,
+  ProductConflictError,
+  ProductFieldErrors,
+  ProductValidationError,
+} from '../../services/productService';
+import { NewProduct } from '../../services/productRepository';
+import { imageService } from '../../services/imageService';
+import { ProductDetails, hasProductErrors, validateProductDetails } from '../../lib/productSchema';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, getProductCurrency } from '../../lib/currency';
+import { AttributeInputs, toAttributeInputs } from '../../lib/attributes';
+import { flattenCategoryTree, getAttributeSchema } from '../../services/categoryService';
+import { useCategories } from '../../hooks/useCategories';
+import { useCurrency } from '../../hooks/useCurrency';
+import { ImageUploader } from './ImageUploader';
+import { AttributeFields } from './AttributeFields';
+import { ConflictResolver } from './ConflictResolver';
+import { FieldMerge, MergeSource, applyMerge, mergeFields } from '../../lib/merge';
+
+// Everything the form edits - the fields a conflict can be merged over
+const EDITABLE_FIELDS: (keyof NewProduct)[] = [
+  'name',
+  'description',
+  'category',
+  'price',
+  'currency',
+  'sku',
+  'reorder_threshold',
+  'attributes',
+  'images',
+  'primary_image_id',
+];
+
+const toEditable = (product: Product): NewProduct => ({
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  price: product.price,
+  currency: getProductCurrency(product),
+  sku: product.sku ?? null,
+  reorder_threshold: product.reorder_threshold ?? null,
+  attributes: product.attributes ?? null,
+  images: product.images ?? [],
+  primary_image_id: product.primary_image_id ?? null,
+});
+
+// A save that lost the race: what we tried to write, what's there now, and the per-field comparison
+type SaveConflict = {
+  mine: NewProduct;
+  theirs: Product;
+  merges: FieldMerge<NewProduct>[];
+};
+
+type ProductFormProps = {
+  product?: Product;
+  onClose: () => void;
+  onSuccess: () => void;
+};
+
+export function ProductForm({ product, onClose, onSuccess }: ProductFormProps) {
+  const { categories, loading: categoriesLoading, error: categoriesError, reload: reloadCategories } = useCategories();
+  // New products start out priced in whatever currency the user is looking at
+  const { displayCurrency } = useCurrency();
+  // Track form state and validation
+  const [productDetails, setProductDetails] = useState<ProductDetails>({
+    name: product?.name ?? '',
+    description: product?.description ?? '',
+    category: product?.category ?? '',
+    price: product?.price?.toString() ?? '',
+    currency: product ? getProductCurrency(product) : displayCurrency,
+    sku: product?.sku ?? '',
+    reorder_threshold: product?.reorder_threshold?.toString() ?? ''
+  });
+  // Kept by key across category changes, so switching back and forth doesn't lose what was typed
+  const [attributeInputs, setAttributeInputs] = useState<AttributeInputs>(toAttributeInputs(product?.attributes));
+  const [images, setImages] = useState<ProductImage[]>(product?.images ?? []);
+  const [primaryImageId, setPrimaryImageId] = useState<string | null>(product?.primary_image_id ?? null);
+  const [validationError, setValidationError] = useState<string | null>(null);   // Save failures
+  const [fieldErrors, setFieldErrors] = useState<ProductFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  // The version this edit started from - its values are the base of a three-way merge
+  const [baseProduct, setBaseProduct] = useState<Product | undefined>(product);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  // Images uploaded while this form was open - deleted again if they don't end up saved
+  const uploadedImagesRef = useRef<ProductImage[]>([]);
+
+  // Reset form when editing different product
+  useEffect(() => {
+    if (product) {
+      setProductDetails({
+        name: product.name,
+        description: product.description,
+        category: product.category,
+        price: product.price.toString(),
+        currency: getProductCurrency(product),
+        sku: product.sku ?? '',
+        reorder_threshold: product.reorder_threshold?.toString() ?? ''
+      });
+      setAttributeInputs(toAttributeInputs(product.attributes));
+      setImages(product.images ?? []);
+      setPrimaryImageId(product.primary_image_id ?? null);
+    }
+    setBaseProduct(product);
+    setConflict(null);
+  }, [product]);
+
+  const fillForm = (values: NewProduct) => {
+    setProductDetails({
+      name: values.name,
+      description: values.description,
+      category: values.category,
+      price: values.price.toString(),
+      currency: getProductCurrency(values),
+      sku: values.sku ?? '',
+      reorder_threshold: values.reorder_threshold?.toString() ?? ''
+    });
+    setAttributeInputs(toAttributeInputs(values.attributes));
+    setImages(values.images ?? []);
+    setPrimaryImageId(values.primary_image_id ?? null);
+  };
+
+  // The extra fields the chosen category (and the ones above it) ask for - null until the categories
+  // are in, and saving waits for them: attributes checked against a schema we don't know would come out empty
+  const attributeSchema = useMemo(
+    () => (categoriesLoading || categoriesError ? null : getAttributeSchema(categories, productDetails.category)),
+    [categories, categoriesLoading, categoriesError, productDetails.category]
+  );
+
+  // Clean up uploads that aren't part of `keep` - best effort, a leftover file is harmless
+  const discardUnsavedImages = (keep: ProductImage[]) => {
+    const unsaved = uploadedImagesRef.current.filter(image => !keep.some(kept => kept.id === image.id));
+    uploadedImagesRef.current = [];
+    if (unsaved.length > 0) {
+      imageService.discardImages(unsaved).catch(err => console.error('Image cleanup error:', err));
+    }
+  };
+
+  const handleCancel = () => {
+    discardUnsavedImages([]);
+    onClose();
+  };
+
+  // Save against `base`; if someone else saved since, switch to the merge screen instead
+  const saveProduct = async (values: NewProduct, base: Product | undefined) => {
+    setIsSaving(true);
+
+    try {
+      if (base) {
+        await productService.updateProduct(base.id, values, getProductVersion(base));
+      } else {
+        await productService.createProduct(values);
+      }
+      discardUnsavedImages(values.images ?? []);
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      if (err instanceof ProductConflictError && base) {
+        setConflict({
+          mine: values,
+          theirs: err.current,
+          merges: mergeFields(toEditable(base), values, toEditable(err.current), EDITABLE_FIELDS),
+        });
+        return;
+      }
+      // The service runs the same rules - this only happens if something changed under us (e.g. the schema)
+      if (err instanceof ProductValidationError) {
+        setFieldErrors(err.errors);
+        return;
+      }
+      console.error('Failed to save product:', err);
+      setValidationError(
+        err instanceof Error 
+          ? err.message 
+          : 'Oops! Something went wrong while saving'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handle the form submission - validate, save, and show feedback
+const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null); // Clear any previous errors
+    if (!attributeSchema) return;
+
+    // Same rules productService applies. Values for attributes the category doesn't have (any more) are dropped
+    const { value, errors } = validateProductDetails(productDetails, { schema: attributeSchema, inputs: attributeInputs });
+    setFieldErrors(errors);
+    if (hasProductErrors(errors)) return;
+
+    await saveProduct({
+      ...value,
+      currency: value.currency ?? BASE_CURRENCY,
+      images,
+      primary_image_id: images.some(image => image.id === primaryImageId) ? primaryImageId : null
+    }, baseProduct);
+  };
+
+  // The merged result becomes the new edit, based on their version - if yet another save
+  // sneaks in before this one, the merge screen comes back against that
+  const handleResolve = async (choices: Partial<Record<keyof NewProduct, MergeSource>>) => {
+    if (!conflict) return;
+    const merged = applyMerge(conflict.mine, toEditable(conflict.theirs), choices);
+    const mergedImages = merged.images ?? [];
+    if (!mergedImages.some(image => image.id === merged.primary_image_id)) {
+      merged.primary_image_id = null;
+    }
+
+    fillForm(merged);
+    setBaseProduct(conflict.theirs);
+    setConflict(null);
+    setValidationError(null);
+    await saveProduct(merged, conflict.theirs);
+  };
+
+  // Update form fields as user types/selects
+const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setProductDetails(prev => ({ ...prev, [name]: value })); // Keep the rest of the form data intact
+    clearFieldError(name as keyof ProductDetails);
+  };
+
+  // An error goes away as soon as its field is touched - the rest stay until the next submit
+  const clearFieldError = (field: keyof ProductDetails) => {
+    setFieldErrors(prev => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  const fieldError = (message: string | undefined) =>
+    message && <p className="mt-1 text-sm text-red-600">{message}</p>;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className={`bg-white rounded-lg p-6 w-full ${conflict ? 'max-w-2xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto`}>
+        <h2 className="text-xl font-bold mb-4">
+          {conflict ? 'Resolve Conflicting Edits' : product ? 'Edit Product' : 'Add New Product'}
+        </h2>
+
+        {conflict && (
+          <ConflictResolver
+            merges={conflict.merges}
+            saving={isSaving}
+            onResolve={handleResolve}
+            onCancel={() => setConflict(null)}
+          />
+        )}
+
+        {/* noValidate: the schema's messages show under the fields instead of the browser's bubbles */}
+        <form hidden={conflict !== null} onSubmit={handleSubmit} noValidate className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              name="name"
+              value={productDetails.name}
+              onChange={handleChange}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            {fieldError(fieldErrors.name)}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              name="description"
+              value={productDetails.description}
+              onChange={handleChange}
+              required
+              rows={3}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            {fieldError(fieldErrors.description)}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Category</label>
+            <select
+              name="category"
+              value={productDetails.category}
+              onChange={handleChange}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Choose a category...</option>
+              {flattenCategoryTree(categories).map(({ category, depth }) => (
+                <option key={category.id} value={category.name}>
+                  {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                </option>
+              ))}
+              {/* Keep an archived category selectable on products that already use it */}
+              {product?.category && categories.some(c => c.name === product.category && c.archived_at) && (
+                <option value={product.category}>{product.category} (archived)</option>
+              )}
+            </select>
+            {fieldError(fieldErrors.category)}
+          </div>
+
+          <AttributeFields
+            definitions={attributeSchema ?? []}
+            values={attributeInputs}
+            errors={fieldErrors.attributes}
+            onChange={(key, value) => {
+              setAttributeInputs(prev => ({ ...prev, [key]: value }));
+              setFieldErrors(prev => {
+                const attributes = { ...prev.attributes };
+                delete attributes[key];
+                return { ...prev, attributes };
+              });
+            }}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Price</label>
+            <div className="mt-1 flex gap-2">
+              <input
+                type="number"
+                name="price"
+                value={productDetails.price}
+                onChange={handleChange}
+                required
+                min="0"
+                step="0.01"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              <select
+                name="currency"
+                value={productDetails.currency}
+                onChange={handleChange}
+                aria-label="Currency"
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {SUPPORTED_CURRENCIES.map(currency => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            {fieldError(fieldErrors.price ?? fieldErrors.currency)}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">SKU</label>
+              <input
+                type="text"
+                name="sku"
+                value={productDetails.sku}
+                onChange={handleChange}
+                placeholder="Optional"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm uppercase focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {fieldError(fieldErrors.sku)}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reorder threshold</label>
+              <input
+                type="number"
+                name="reorder_threshold"
+                value={productDetails.reorder_threshold}
+                onChange={handleChange}
+                min="0"
+                step="1"
+                placeholder="No alert"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {fieldError(fieldErrors.reorder_threshold)}
+            </div>
+          </div>
+
+          <ImageUploader
+            images={images}
+            primaryImageId={primaryImageId}
+            onChange={(nextImages, nextPrimaryId) => {
+              setImages(nextImages);
+              setPrimaryImageId(nextPrimaryId);
+            }}
+            onUploaded={(image) => {
+              uploadedImagesRef.current.push(image);
+              setImages(current => [...current, image]);
+            }}
+          />
+
+          {validationError && (
+            <div className="text-red-600 text-sm">{validationError}</div>
+          )}
+          {categoriesError && (
+            <div className="text-red-600 text-sm">
+              Categories couldn't be loaded, so the product can't be checked yet.{' '}
+              <button type="button" onClick={reloadCategories} className="underline">Try again</button>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !attributeSchema}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : categoriesLoading ? 'Loading categories...' : 'Save Product'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
 }
\ No newline at end of file
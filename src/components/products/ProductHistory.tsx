@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product } from '../../lib/supabase';
+import { productService, getProductVersion } from '../../services/productService';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  revisionService,
+  revisionToUpdate,
+  ProductRevision,
+  RevisionAction,
+} from '../../services/revisionService';
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+};
+
+// Nicer labels for the fields people actually look at
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  price: 'Price',
+  currency: 'Currency',
+  rating: 'Rating',
+  sku: 'SKU',
+  reorder_threshold: 'Reorder threshold',
+  attributes: 'Attributes',
+  deleted_at: 'Deleted at',
+  images: 'Images',
+  primary_image_id: 'Primary image',
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  // Image lists are long JSON blobs - a count says enough
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+type ProductHistoryProps = {
+  product: Product;
+  onClose: () => void;
+  onReverted: () => void;
+};
+
+export function ProductHistory({ product, onClose, onReverted }: ProductHistoryProps) {
+  const { can, canModify } = useAuth();
+  const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRevisions(await revisionService.getHistory(product.id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load history.');
+      console.error('History fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [product.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Revert is just a normal update with the old values, so it shows up in history too
+  const handleRevert = async (revision: ProductRevision) => {
+    const userConfirmed = window.confirm('Revert this product to the selected version?');
+    if (!userConfirmed) return;
+
+    try {
+      setRevertingId(revision.id);
+      // Against the latest version - reverting is a deliberate overwrite of whatever is there now
+      const current = await productService.getProductById(product.id);
+      await productService.updateProduct(product.id, revisionToUpdate(revision), getProductVersion(current));
+      await loadHistory();
+      onReverted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert product.');
+      console.error('Product revert error:', err);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">History: {product.name}</h2>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && <div className="text-red-600 text-sm mb-2">{error}</div>}
+
+        <div className="overflow-y-auto space-y-4">
+          {loading && <div className="text-center py-4">Loading history...</div>}
+
+          {!loading && revisions.length === 0 && (
+            <div className="text-center py-4 text-gray-500">No recorded changes yet.</div>
+          )}
+
+          {revisions.map((revision, index) => (
+            <div key={revision.id} className="border rounded-md p-4">
+              <div className="flex justify-between items-start gap-4 mb-2">
+                <div>
+                  <span className="font-medium">{ACTION_LABELS[revision.action]}</span>
+                  <span className="text-sm text-gray-500">
+                    {' '}by {revision.actor_email ?? 'unknown user'} · {new Date(revision.created_at).toLocaleString()}
+                  </span>
+                </div>
+                {/* Newest revision is the current state - nothing to revert to */}
+                {index > 0 && revision.action !== 'delete' && can('product:update') && canModify(product) && (
+                  <button
+                    onClick={() => handleRevert(revision)}
+                    disabled={revertingId !== null}
+                    className="shrink-0 px-3 py-1 text-sm font-medium text-indigo-600 border border-indigo-600 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    {revertingId === revision.id ? 'Reverting...' : 'Revert to this version'}
+                  </button>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <tbody>
+                  {Object.entries(revision.changes).map(([field, change]) => (
+                    <tr key={field} className="align-top">
+                      <td className="py-1 pr-4 text-gray-500 whitespace-nowrap">{FIELD_LABELS[field] ?? field}</td>
+                      <td className="py-1 pr-4 text-red-700 line-through break-all">{formatValue(change.from)}</td>
+                      <td className="py-1 text-green-700 break-all">{formatValue(change.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import {
+  importService,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ImportMode,
+  ImportPreviewRow,
+  ImportSummary,
+  ParsedImport,
+} from '../../services/importService';
+
+const STATUS_STYLES: Record<ImportPreviewRow['status'], { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  skip: { label: 'Skip', className: 'bg-gray-100 text-gray-700' },
+  invalid: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+type ProductImportProps = {
+  onClose: () => void;
+  onImported: () => void;
+};
+
+export function ProductImport({ onClose, onImported }: ProductImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Read and parse the chosen file, then guess the column mapping from its headers
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setPreview(null);
+    setSummary(null);
+    try {
+      const text = await file.text();
+      const result = importService.parse(text, importService.detectFormat(file.name, text));
+      if (result.rows.length === 0) {
+        throw new Error('No rows found in that file');
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(importService.guessMapping(result.columns));
+    } catch (err) {
+      setParsed(null);
+      setMapping(null);
+      setError(err instanceof Error ? err.message : 'Could not read that file');
+    }
+  };
+
+  // Changing the mapping or mode invalidates the last preview
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => (prev ? { ...prev, [field]: column } : prev));
+    setPreview(null);
+  };
+
+  const handleModeChange = (nextMode: ImportMode) => {
+    setMode(nextMode);
+    setPreview(null);
+  };
+
+  // Dry run - validates every row without writing anything
+  const handlePreview = async () => {
+    if (!parsed || !mapping) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      setPreview(await importService.preview(parsed, mapping, mode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not validate the import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      setSummary(await importService.run(preview));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Refresh the list only once the summary has been seen - refreshing unmounts this modal
+  const handleClose = () => {
+    if (summary) onImported();
+    onClose();
+  };
+
+  const writableCount = preview?.filter(row => row.status === 'create' || row.status === 'update').length ?? 0;
+  const invalidCount = preview?.filter(row => row.status === 'invalid').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold mb-4">Import Products</h2>
+
+        <div className="overflow-y-auto space-y-4">
+          {summary ? (
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="font-medium text-green-700">{summary.created} created</span>,{' '}
+                <span className="font-medium text-blue-700">{summary.updated} updated</span>,{' '}
+                <span className="font-medium text-gray-700">{summary.skipped} skipped</span>,{' '}
+                <span className="font-medium text-red-700">{summary.failed.length} failed</span>
+              </p>
+              {summary.failed.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {summary.failed.map(failure => (
+                    <li key={failure.rowNumber}>Row {failure.rowNumber}: {failure.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">CSV or JSON file</label>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={handleFileChange}
+                  className="mt-1 block w-full text-sm"
+                />
+                {parsed && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {fileName}: {parsed.rows.length} rows, {parsed.columns.length} columns
+                  </p>
+                )}
+              </div>
+
+              {parsed && mapping && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                    {IMPORT_FIELDS.map(({ field, label }) => (
+                      <div key={field}>
+                        <label className="block text-sm font-medium text-gray-700">{label}</label>
+                        <select
+                          value={mapping[field]}
+                          onChange={(e) => handleMappingChange(field, e.target.value)}
+                          className="mt-1 block w-full border rounded-md px-2 py-1 text-sm"
+                        >
+                          <option value="">Not mapped</option>
+                          {parsed.columns.map(column => (
+                            <option key={column} value={column}>{column}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-6 text-sm">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={mode === 'create'}
+                        onChange={() => handleModeChange('create')}
+                      />
+                      Only add new products
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={mode === 'upsert'}
+                        onChange={() => handleModeChange('upsert')}
+                      />
+                      Update existing products with the same SKU (or name)
+                    </label>
+                  </div>
+                </>
+              )}
+
+              {preview && (
+                <div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {writableCount} of {preview.length} rows will be written
+                    {invalidCount > 0 && `, ${invalidCount} have errors and will be skipped`}.
+                  </p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 pr-2">Row</th>
+                        <th className="py-1 pr-2">SKU</th>
+                        <th className="py-1 pr-2">Name</th>
+                        <th className="py-1 pr-2">Category</th>
+                        <th className="py-1 pr-2">Price</th>
+                        <th className="py-1">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map(row => (
+                        <tr key={row.rowNumber} className="border-b align-top">
+                          <td className="py-1 pr-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="py-1 pr-2">{row.details.sku}</td>
+                          <td className="py-1 pr-2">{row.details.name}</td>
+                          <td className="py-1 pr-2">{row.details.category}</td>
+                          <td className="py-1 pr-2">{row.details.price} {row.details.currency.toUpperCase()}</td>
+                          <td className="py-1">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[row.status].className}`}>
+                              {STATUS_STYLES[row.status].label}
+                            </span>
+                            {row.reason && <div className="text-xs text-gray-500">{row.reason}</div>}
+                            {row.errors.map(message => (
+                              <div key={message} className="text-xs text-red-600">{message}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {summary ? 'Done' : 'Cancel'}
+          </button>
+          {!summary && parsed && (
+            preview ? (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isWorking || writableCount === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Importing...' : `Import ${writableCount} products`}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={isWorking}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Validating...' : 'Preview import'}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,213 +1,707 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Product } from '../../lib/supabase';
-import { productService } from '../../services/productService';
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
-import { ProductForm } from './ProductForm';
-
-// Define available product categories for better maintainability
-const PRODUCT_CATEGORIES = [
-  { value: 'Electronics', label: 'Electronics' },
-  { value: 'Clothing', label: 'Clothing' },
-  { value: 'Books', label: 'Books' },
-  { value: 'Home', label: 'Home' }
-];
-
-type ProductFilter = {
-  category?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  minRating?: number;
-  searchQuery?: string;
-};
-
-export function ProductList() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<ProductFilter>({});
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-  const [deletingId, setDeletingId] = useState<string | null>(null);
-
-  // Fetch products with current filters and handle loading states
-  const refreshProductList = useCallback(async () => {
-    try {
-      setLoading(true);
-      const productList = await productService.getProducts(filters);
-      setProducts(productList);
-      setError(null);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unable to fetch products. Please try again.';
-      setError(errorMessage);
-      console.error('Product fetch error:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [filters]);
-
-  // Refresh product list whenever filters change
-  useEffect(() => {
-    refreshProductList();
-  }, [refreshProductList]);
-
-  // Handle product deletion with user confirmation
-  const handleProductRemoval = async (productId: string) => {
-    const userConfirmed = window.confirm('This action cannot be undone. Are you sure you want to remove this product?');
-    if (!userConfirmed) return;
-    
-    try {
-      setDeletingId(productId);
-      await productService.deleteProduct(productId);
-      setProducts(currentProducts => 
-        currentProducts.filter(product => product.id !== productId)
-      );
-      setError(null);
-    } catch (err) {
-      const errorMessage = err instanceof Error 
-        ? err.message 
-        : 'Failed to remove product. Please try again.';
-      setError(errorMessage);
-      console.error('Product deletion error:', err);
-    } finally {
-      setDeletingId(null);
-    }
-  };
-
-  const [tempFilters, setTempFilters] = useState<ProductFilter>({});
-
-  const handleFilter = (newFilters: Partial<ProductFilter>) => {
-    setTempFilters(prev => ({ ...prev, ...newFilters }));
-  };
-
-  const applyFilters = () => {
-    setFilters(tempFilters);
-  };
-
-  if (loading) return <div className="text-center py-8">Loading products...</div>;
-  if (error) return <div className="text-red-600 text-center py-8">{error}</div>;
-
-  return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold">Products</h1>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="bg-indigo-600 text-white px-4 py-2 rounded-md flex items-center gap-2 hover:bg-indigo-700"
-        >
-          <PlusIcon className="h-5 w-5" />
-          Add Product
-        </button>
-      </div>
-
-      {/* Filters */}
-      <div className="bg-white p-4 rounded-lg shadow mb-6 grid grid-cols-1 md:grid-cols-5 gap-4">
-        <input
-          type="text"
-          placeholder="Search products..."
-          className="border rounded-md px-3 py-2"
-          onChange={(e) => handleFilter({ searchQuery: e.target.value })}
-        />
-        <select
-          className="border rounded-md px-3 py-2"
-          onChange={(e) => handleFilter({ category: e.target.value })}
-        >
-          <option value="">All Categories</option>
-          {PRODUCT_CATEGORIES.map(category => (
-            <option key={category.value} value={category.value}>
-              {category.label}
-            </option>
-          ))}
-        </select>
-        <div className="flex gap-2">
-          <input
-            type="number"
-            placeholder="Min Price"
-            className="border rounded-md px-3 py-2 w-1/2"
-            onChange={(e) => handleFilter({ minPrice: Number(e.target.value) || undefined })}
-          />
-          <input
-            type="number"
-            placeholder="Max Price"
-            className="border rounded-md px-3 py-2 w-1/2"
-            onChange={(e) => handleFilter({ maxPrice: Number(e.target.value) || undefined })}
-          />
-        </div>
-        <input
-          type="number"
-          placeholder="Min Rating"
-          min="0"
-          max="5"
-          className="border rounded-md px-3 py-2"
-          onChange={(e) => handleFilter({ minRating: Number(e.target.value) || undefined })}
-        />
-        <button
-          onClick={applyFilters}
-          className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700"
-        >
-          Apply Filters
-        </button>
-      </div>
-
-      {/* Product Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {products.map((product) => (
-          <div key={product.id} className="bg-white rounded-lg shadow p-6">
-            <div className="flex justify-between items-start mb-4">
-              <h2 className="text-xl font-semibold">{product.name}</h2>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setEditingProduct(product)}
-                  className="text-blue-600 hover:text-blue-800"
-                  title="Edit product"
-                >
-                  <PencilIcon className="h-5 w-5" />
-                </button>
-                <button
-                  onClick={() => handleProductRemoval(product.id)}
-                  className="text-red-600 hover:text-red-800"
-                  disabled={deletingId === product.id}
-                  title="Delete product"
-                >
-                  {deletingId === product.id ? (
-                    <span className="animate-spin">↻</span>
-                  ) : (
-                    <TrashIcon className="h-5 w-5" />
-                  )}
-                </button>
-              </div>
-            </div>
-            <p className="text-gray-600 mb-4">{product.description}</p>
-            <div className="flex justify-between items-center text-sm text-gray-500">
-              <span className="px-2 py-1 bg-gray-100 rounded-full">Category: {product.category}</span>
-              <span className="font-medium">${product.price.toFixed(2)}</span>
-              <span className="flex items-center gap-1">
-                <span className="text-yellow-400">★</span>
-                {product.rating}/5
-              </span>
-            </div>
-          </div>
-        ))}
-      </div>
-
-      {products.length === 0 && (
-        <div className="text-center py-8 text-gray-500">
-          No products found. Try adjusting your filters or add a new product.
-        </div>
-      )}
-
-      {/* Add/Edit Product Modal */}
-      {(showAddModal || editingProduct) && (
-        <ProductForm
-          product={editingProduct || undefined}
-          onClose={() => {
-            setShowAddModal(false);
-            setEditingProduct(null);
-          }}
-          onSuccess={() => {
-            refreshProductList(); 
-          }}
-        />
-      )}
-    </div>
-  );
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Product } from '../../lib/supabase';
+import {
+  productService,
+  matchesProductFilter,
+  ProductChange,
+  ProductFacets,
+  ProductFilter,
+  ProductSortField,
+  SortDirection,
+  resolveSort,
+} from '../../services/productService';
+import { parseSearchQuery } from '../../services/searchQuery';
+import { PlusIcon, PencilIcon, TrashIcon, ClockIcon, ArrowUpTrayIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { ProductForm } from './ProductForm';
+import { ProductHistory } from './ProductHistory';
+import { ProductImport } from './ProductImport';
+import { ProductExport } from './ProductExport';
+import { ImageGallery } from './ImageGallery';
+import { ProductDetailLocationState } from './ProductDetail';
+import { getPrimaryImage } from '../../services/imageService';
+import { flattenCategoryTree, getAttributeSchema, getCategoryNamesWithin } from '../../services/categoryService';
+import {
+  ProductSearch,
+  formatProductSearch,
+  parseProductSearch,
+  withPriceCurrency,
+} from '../../services/savedSearchService';
+import { SavedSearches } from './SavedSearches';
+import { HighlightedText } from './HighlightedText';
+import { FacetPanel } from './FacetPanel';
+import { AttributeFilterBar } from './AttributeFilterBar';
+import { StockBadge } from './StockBadge';
+import { useCategories } from '../../hooks/useCategories';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { useCurrency } from '../../hooks/useCurrency';
+import { useAuth } from '../../contexts/AuthContext';
+
+// Sort choices shown in the dropdown - value is "field:direction"
+const SORT_OPTIONS: { value: `${ProductSortField}:${SortDirection}`; label: string }[] = [
+  { value: 'relevance:desc', label: 'Best match' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'price:asc', label: 'Price: low to high' },
+  { value: 'price:desc', label: 'Price: high to low' },
+  { value: 'rating:desc', label: 'Rating: high to low' },
+  { value: 'rating:asc', label: 'Rating: low to high' },
+  { value: 'name:asc', label: 'Name: A to Z' },
+  { value: 'name:desc', label: 'Name: Z to A' },
+];
+
+// The number inputs hold text as typed ("0", "0.", "") and are only read as numbers when the filters
+// are applied - converting on every keystroke would wipe a leading zero. Empty means no filter
+type NumberFilterField = 'minPrice' | 'maxPrice' | 'minRating';
+
+const NUMBER_FILTER_FIELDS: NumberFilterField[] = ['minPrice', 'maxPrice', 'minRating'];
+
+function toNumberInputs(filters: ProductSearch['filters']) {
+  return Object.fromEntries(
+    NUMBER_FILTER_FIELDS.map(field => [field, filters[field] === undefined ? '' : String(filters[field])])
+  ) as Record<NumberFilterField, string>;
+}
+
+function parseNumberInput(text: string) {
+  const value = Number(text);
+  return text.trim() === '' || !Number.isFinite(value) ? undefined : value;
+}
+
+export function ProductList() {
+  const { user, can, canModify } = useAuth();
+  const { categories } = useCategories();
+  const { online, lastSyncedAt, unsyncedProductIds } = useSyncStatus();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const facetRequestIdRef = useRef(0);
+  // Applied filters and sort live in the URL - refresh, back/forward and shared links all keep them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryString = searchParams.toString();
+  const search = useMemo(() => parseProductSearch(queryString), [queryString]);
+  // Tidied-up form of the same search - what gets saved and compared against saved searches
+  const currentQuery = useMemo(() => formatProductSearch(search), [search]);
+  // Free-text terms from the search box, marked up in the cards
+  const highlightTerms = useMemo(() => parseSearchQuery(search.filters.searchQuery).terms, [search.filters.searchQuery]);
+  // Bumped on every fresh load so late responses for old filters get ignored
+  const requestIdRef = useRef(0);
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [galleryProduct, setGalleryProduct] = useState<Product | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  // Realtime: products changed by someone else flash briefly; new ones wait behind a banner
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const [pendingNewIds, setPendingNewIds] = useState<string[]>([]);
+  const productsRef = useRef<Product[]>([]);
+  const highlightTimersRef = useRef<number[]>([]);
+
+  // Picking a parent category also shows products in its subcategories
+  const categoryScope = useMemo(
+    () => (search.filters.category ? getCategoryNamesWithin(categories, search.filters.category) : undefined),
+    [search.filters.category, categories]
+  );
+
+  const { displayCurrency, rates, formatProductPrice } = useCurrency();
+  // Price bounds are in the currency the URL says - the display currency only for new ones
+  const priceCurrency = search.filters.priceCurrency ?? displayCurrency;
+
+  // What actually goes to the service: applied filters + sort + category scope + owner
+  const queryFilters = useMemo<ProductFilter>(
+    () => ({
+      ...search.filters,
+      sortBy: search.sortBy,
+      sortDirection: search.sortDirection,
+      categories: categoryScope,
+      createdBy: search.mineOnly ? user?.id : undefined,
+      priceCurrency,
+      exchangeRates: rates ?? undefined,
+    }),
+    [search, categoryScope, user?.id, priceCurrency, rates]
+  );
+
+  // Facet counts for the current query - they're a hint, so a failure just hides them
+  const loadFacets = useCallback(async () => {
+    const requestId = ++facetRequestIdRef.current;
+    try {
+      const nextFacets = await productService.getFacets(queryFilters);
+      if (requestId === facetRequestIdRef.current) setFacets(nextFacets);
+    } catch (err) {
+      if (requestId === facetRequestIdRef.current) setFacets(null);
+      console.error('Facet fetch error:', err);
+    }
+  }, [queryFilters]);
+
+  // Fetch the first page with current filters and sort, dropping anything loaded before
+  const refreshProductList = useCallback(async () => {
+    loadFacets();
+    const requestId = ++requestIdRef.current;
+    try {
+      setLoading(true);
+      setLoadMoreError(null);
+      setPendingNewIds([]);
+      const page = await productService.getProducts(queryFilters);
+      if (requestId !== requestIdRef.current) return;
+      setProducts(page.items);
+      setTotalCount(page.total);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      const errorMessage = err instanceof Error ? err.message : 'Unable to fetch products. Please try again.';
+      setError(errorMessage);
+      console.error('Product fetch error:', err);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [queryFilters, loadFacets]);
+
+  // Refresh product list whenever filters or sort change
+  useEffect(() => {
+    refreshProductList();
+  }, [refreshProductList]);
+
+  // Offline changes just reached the server - reload so temporary copies give way to the real ones
+  const lastSyncedRef = useRef(lastSyncedAt);
+  useEffect(() => {
+    if (lastSyncedAt === lastSyncedRef.current) return;
+    lastSyncedRef.current = lastSyncedAt;
+    refreshProductList();
+  }, [lastSyncedAt, refreshProductList]);
+
+  // Append the next page - triggered by scrolling to the bottom or the Load more button
+  const loadMoreProducts = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const requestId = requestIdRef.current;
+    try {
+      setLoadingMore(true);
+      setLoadMoreError(null);
+      const page = await productService.getProducts({ ...queryFilters, cursor: nextCursor });
+      if (requestId !== requestIdRef.current) return;
+      setProducts(currentProducts => [...currentProducts, ...page.items]);
+      setTotalCount(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setLoadMoreError(err instanceof Error ? err.message : 'Unable to load more products.');
+      console.error('Product page fetch error:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [queryFilters, nextCursor, loadingMore]);
+
+  useEffect(() => {
+    productsRef.current = products;
+  }, [products]);
+
+  // Flash a few cards for a moment so remote changes don't go unnoticed
+  const flashProducts = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setHighlightedIds(current => new Set([...current, ...ids]));
+    const timer = window.setTimeout(() => {
+      setHighlightedIds(current => new Set([...current].filter(id => !ids.includes(id))));
+    }, 3000);
+    highlightTimersRef.current.push(timer);
+  }, []);
+
+  useEffect(() => {
+    const timers = highlightTimersRef.current;
+    return () => timers.forEach(timer => window.clearTimeout(timer));
+  }, []);
+
+  // Merge a change made elsewhere into what's on screen without reshuffling the grid:
+  // visible cards update in place (or leave if they no longer match the filters),
+  // new matching products are only counted until the user asks to see them
+  const handleRemoteChange = useCallback((change: ProductChange) => {
+    const isVisible = (id: string) => productsRef.current.some(product => product.id === id);
+    const removeVisible = (id: string) => {
+      setProducts(current => current.filter(product => product.id !== id));
+      setTotalCount(count => Math.max(0, count - 1));
+    };
+
+    if (change.type === 'delete') {
+      if (isVisible(change.id)) removeVisible(change.id);
+      setPendingNewIds(ids => ids.filter(id => id !== change.id));
+      return;
+    }
+
+    const { product } = change;
+    const matches = matchesProductFilter(product, queryFilters);
+
+    if (isVisible(product.id)) {
+      if (!matches) {
+        removeVisible(product.id);
+        return;
+      }
+      setProducts(current => current.map(existing => (existing.id === product.id ? product : existing)));
+      if (product.updated_by !== user?.id) flashProducts([product.id]);
+      return;
+    }
+
+    // Updates to products we haven't loaded may just be further down the list - leave those alone
+    if (change.type === 'insert' && matches && product.created_by !== user?.id) {
+      setPendingNewIds(ids => (ids.includes(product.id) ? ids : [...ids, product.id]));
+    }
+  }, [queryFilters, user?.id, flashProducts]);
+
+  // Subscribe once; the ref always points at the handler for the current filters
+  const remoteChangeHandlerRef = useRef(handleRemoteChange);
+  useEffect(() => {
+    remoteChangeHandlerRef.current = handleRemoteChange;
+  }, [handleRemoteChange]);
+
+  useEffect(() => {
+    const unsubscribe = productService.subscribeToChanges(change => remoteChangeHandlerRef.current(change));
+    return unsubscribe;
+  }, []);
+
+  const showPendingProducts = async () => {
+    const ids = pendingNewIds;
+    await refreshProductList();
+    flashProducts(ids);
+  };
+
+  // Infinite scroll: load the next page once the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreError) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreProducts();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreError, loadMoreProducts]);
+
+  // Handle product deletion with user confirmation - it only goes to the trash
+  const handleProductRemoval = async (productId: string) => {
+    const userConfirmed = window.confirm('Move this product to the trash? You can restore it from the Trash page.');
+    if (!userConfirmed) return;
+    
+    try {
+      setDeletingId(productId);
+      await productService.deleteProduct(productId);
+      setProducts(currentProducts => 
+        currentProducts.filter(product => product.id !== productId)
+      );
+      setTotalCount(count => Math.max(0, count - 1));
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error 
+        ? err.message 
+        : 'Failed to remove product. Please try again.';
+      setError(errorMessage);
+      console.error('Product deletion error:', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // What's typed into the filter bar but not applied yet - reset whenever the URL changes
+  const [tempFilters, setTempFilters] = useState<ProductSearch['filters']>(search.filters);
+  const [numberInputs, setNumberInputs] = useState(() => toNumberInputs(search.filters));
+  useEffect(() => {
+    setTempFilters(search.filters);
+    setNumberInputs(toNumberInputs(search.filters));
+  }, [search.filters]);
+
+  const updateSearch = (changes: Partial<ProductSearch>) => {
+    setSearchParams(formatProductSearch(withPriceCurrency({ ...search, ...changes }, priceCurrency)));
+  };
+
+  const handleFilter = (newFilters: Partial<ProductSearch['filters']>) => {
+    setTempFilters(prev => ({ ...prev, ...newFilters }));
+  };
+
+  const handleNumberInput = (field: NumberFilterField, text: string) => {
+    setNumberInputs(prev => ({ ...prev, [field]: text }));
+  };
+
+  const applyFilters = () => {
+    const numbers = Object.fromEntries(
+      NUMBER_FILTER_FIELDS.map(field => [field, parseNumberInput(numberInputs[field])])
+    );
+    updateSearch({ filters: { ...tempFilters, ...numbers } });
+  };
+
+  // "My products" is more of a tab than a filter - it applies straight away
+  const handleOwnershipToggle = (mineOnly: boolean) => {
+    updateSearch({ mineOnly });
+  };
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortDirection] = value.split(':') as [ProductSortField, SortDirection];
+    updateSearch({ sortBy, sortDirection });
+  };
+
+  // What the list is really sorted by, defaults included
+  const activeSort = resolveSort(queryFilters);
+
+  if (loading) return <div className="text-center py-8">Loading products...</div>;
+  // Only take over the page when there's nothing to show - otherwise the error sits above the grid
+  if (error && products.length === 0) return <div className="text-red-600 text-center py-8">{error}</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Products</h1>
+        <div className="flex gap-2">
+          {can('product:import') && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center gap-2 hover:bg-gray-50"
+            >
+              <ArrowUpTrayIcon className="h-5 w-5" />
+              Import
+            </button>
+          )}
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-md flex items-center gap-2 hover:bg-gray-50"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Export
+          </button>
+          {can('product:create') && (
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-md flex items-center gap-2 hover:bg-indigo-700"
+            >
+              <PlusIcon className="h-5 w-5" />
+              Add Product
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!online && (
+        <div className="mb-4 p-3 rounded-md bg-gray-200 text-sm text-gray-700">
+          You're offline - showing the catalog as it was last loaded. Changes you make are saved on this device and sync when you're back online.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      {/* Filters */}
+      <div className="inline-flex rounded-md shadow-sm mb-3" role="group">
+        <button
+          onClick={() => handleOwnershipToggle(false)}
+          className={`px-4 py-2 text-sm font-medium border rounded-l-md ${
+            search.mineOnly ? 'bg-white text-gray-700 hover:bg-gray-50' : 'bg-indigo-600 text-white border-indigo-600'
+          }`}
+        >
+          All products
+        </button>
+        <button
+          onClick={() => handleOwnershipToggle(true)}
+          className={`px-4 py-2 text-sm font-medium border rounded-r-md ${
+            search.mineOnly ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          My products
+        </button>
+      </div>
+      <div className="bg-white p-4 rounded-lg shadow mb-3 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <input
+          type="text"
+          placeholder='Search, e.g. lamp price:<50 -"open box"'
+          title={'Words and "quoted phrases" must all match. Also: -word, category:Books, price:<20, price:10..20, rating:>=4'}
+          className="border rounded-md px-3 py-2"
+          value={tempFilters.searchQuery ?? ''}
+          onChange={(e) => handleFilter({ searchQuery: e.target.value || undefined })}
+        />
+        {/* Picking another category drops the attribute filters - they belong to the old one's schema */}
+        <select
+          className="border rounded-md px-3 py-2"
+          value={tempFilters.category ?? ''}
+          onChange={(e) => handleFilter({ category: e.target.value || undefined, attributes: undefined })}
+        >
+          <option value="">All Categories</option>
+          {flattenCategoryTree(categories, { includeArchived: true }).map(({ category, depth }) => (
+            <option key={category.id} value={category.name}>
+              {'\u00A0\u00A0'.repeat(depth)}{category.name}{category.archived_at ? ' (archived)' : ''}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            placeholder={`Min Price (${priceCurrency})`}
+            className="border rounded-md px-3 py-2 w-1/2"
+            value={numberInputs.minPrice}
+            onChange={(e) => handleNumberInput('minPrice', e.target.value)}
+          />
+          <input
+            type="number"
+            placeholder={`Max Price (${priceCurrency})`}
+            className="border rounded-md px-3 py-2 w-1/2"
+            value={numberInputs.maxPrice}
+            onChange={(e) => handleNumberInput('maxPrice', e.target.value)}
+          />
+        </div>
+        <input
+          type="number"
+          placeholder="Min Rating"
+          min="0"
+          max="5"
+          className="border rounded-md px-3 py-2"
+          value={numberInputs.minRating}
+          onChange={(e) => handleNumberInput('minRating', e.target.value)}
+        />
+        <button
+          onClick={applyFilters}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700"
+        >
+          Apply Filters
+        </button>
+      </div>
+
+      <AttributeFilterBar
+        definitions={tempFilters.category ? getAttributeSchema(categories, tempFilters.category) : []}
+        filters={tempFilters.attributes}
+        onChange={attributes => handleFilter({ attributes })}
+      />
+
+      <FacetPanel
+        facets={facets}
+        categories={categories}
+        filters={search.filters}
+        currency={priceCurrency}
+        onChange={changes => updateSearch({
+          filters: {
+            ...search.filters,
+            ...changes,
+            ...('category' in changes && changes.category !== search.filters.category ? { attributes: undefined } : {}),
+          },
+        })}
+      />
+
+      <SavedSearches currentQuery={currentQuery} onApply={query => setSearchParams(query)} />
+
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-4">
+        <div className="flex items-center gap-4">
+          <p className="text-sm text-gray-600">
+            Showing {products.length} of {totalCount} products
+          </p>
+          {/* Like "My products", this applies straight away */}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={Boolean(search.filters.lowStockOnly)}
+              onChange={(e) => updateSearch({ filters: { ...search.filters, lowStockOnly: e.target.checked || undefined } })}
+            />
+            Only low stock
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Sort by
+          <select
+            className="border rounded-md px-3 py-2"
+            value={`${activeSort.sortBy}:${activeSort.sortDirection}`}
+            onChange={(e) => handleSortChange(e.target.value)}
+          >
+            {SORT_OPTIONS.filter(option => option.value !== 'relevance:desc' || highlightTerms.length > 0).map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {pendingNewIds.length > 0 && (
+        <button
+          onClick={showPendingProducts}
+          className="w-full mb-4 py-2 px-4 bg-indigo-50 border border-indigo-200 text-indigo-700 rounded-md text-sm font-medium hover:bg-indigo-100"
+        >
+          {pendingNewIds.length} new product{pendingNewIds.length === 1 ? '' : 's'}, click to show
+        </button>
+      )}
+
+      {/* Product Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {products.map((product) => {
+          const primaryImage = getPrimaryImage(product);
+          return (
+            <div
+              key={product.id}
+              className={`bg-white rounded-lg shadow p-6 transition-shadow duration-700 ${
+                highlightedIds.has(product.id) ? 'ring-2 ring-yellow-400' : ''
+              }`}
+            >
+              {primaryImage && (
+                <button
+                  onClick={() => setGalleryProduct(product)}
+                  className="block w-full mb-4"
+                  title="View images"
+                >
+                  <img
+                    src={primaryImage.thumbnail_url}
+                    alt={product.name}
+                    className="h-40 w-full object-cover rounded-md"
+                  />
+                </button>
+              )}
+              <div className="flex justify-between items-start mb-4">
+                <h2 className="text-xl font-semibold">
+                  <Link
+                    to={`/products/${product.id}`}
+                    state={{ listSearch: queryString ? `?${queryString}` : '' } satisfies ProductDetailLocationState}
+                    className="hover:text-indigo-600"
+                  >
+                    <HighlightedText text={product.name} terms={highlightTerms} />
+                  </Link>
+                  {unsyncedProductIds.has(product.id) && (
+                    <span className="ml-2 align-middle px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium">
+                      Pending sync
+                    </span>
+                  )}
+                </h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setHistoryProduct(product)}
+                    className="text-gray-500 hover:text-gray-700"
+                    title="Product history"
+                  >
+                    <ClockIcon className="h-5 w-5" />
+                  </button>
+                  {can('product:update') && canModify(product) && (
+                    <button
+                      onClick={() => setEditingProduct(product)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Edit product"
+                    >
+                      <PencilIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                  {can('product:delete') && canModify(product) && (
+                    <button
+                      onClick={() => handleProductRemoval(product.id)}
+                      className="text-red-600 hover:text-red-800"
+                      disabled={deletingId === product.id}
+                      title="Delete product"
+                    >
+                      {deletingId === product.id ? (
+                        <span className="animate-spin">↻</span>
+                      ) : (
+                        <TrashIcon className="h-5 w-5" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-gray-600 mb-4">
+                <HighlightedText text={product.description} terms={highlightTerms} />
+              </p>
+              <div className="flex justify-between items-center gap-2 mb-2">
+                <p className="text-xs text-gray-400">
+                  {product.created_by && product.created_by === user?.id
+                    ? 'Added by you'
+                    : `Added by ${product.created_by_email ?? 'unknown'}`}
+                  {product.sku && ` · SKU ${product.sku}`}
+                </p>
+                <StockBadge product={product} />
+              </div>
+              <div className="flex justify-between items-center text-sm text-gray-500">
+                <span className="px-2 py-1 bg-gray-100 rounded-full">Category: {product.category}</span>
+                <span className="font-medium">{formatProductPrice(product)}</span>
+                <span className="flex items-center gap-1">
+                  <span className="text-yellow-400">★</span>
+                  {product.review_count
+                    ? `${product.rating.toFixed(1)} (${product.review_count})`
+                    : 'No reviews yet'}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Pagination - the sentinel drives infinite scroll, the button is the fallback */}
+      {nextCursor && (
+        <div ref={loadMoreSentinelRef} className="flex flex-col items-center gap-2 py-6">
+          {loadMoreError && (
+            <div className="text-red-600 text-sm">{loadMoreError}</div>
+          )}
+          <button
+            onClick={loadMoreProducts}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+
+      {products.length === 0 && (
+        <div className="text-center py-8 text-gray-500">
+          No products found. Try adjusting your filters or add a new product.
+        </div>
+      )}
+
+      {/* Add/Edit Product Modal */}
+      {(showAddModal || editingProduct) && (
+        <ProductForm
+          product={editingProduct || undefined}
+          onClose={() => {
+            setShowAddModal(false);
+            setEditingProduct(null);
+          }}
+          onSuccess={() => {
+            refreshProductList(); 
+          }}
+        />
+      )}
+
+      {showImportModal && (
+        <ProductImport
+          onClose={() => setShowImportModal(false)}
+          onImported={() => {
+            refreshProductList();
+          }}
+        />
+      )}
+
+      {showExportModal && (
+        <ProductExport
+          filters={queryFilters}
+          totalCount={totalCount}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {galleryProduct && (
+        <ImageGallery
+          images={galleryProduct.images ?? []}
+          startIndex={Math.max(0, (galleryProduct.images ?? []).findIndex(
+            image => image.id === getPrimaryImage(galleryProduct)?.id
+          ))}
+          title={galleryProduct.name}
+          onClose={() => setGalleryProduct(null)}
+        />
+      )}
+
+      {historyProduct && (
+        <ProductHistory
+          product={historyProduct}
+          onClose={() => setHistoryProduct(null)}
+          onReverted={() => {
+            refreshProductList();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product, Review } from '../../lib/supabase';
+import {
+  REVIEW_PAGE_SIZE,
+  ReviewContent,
+  ReviewPage,
+  ReviewSort,
+  ReviewStats,
+  checkReview,
+  reviewRules,
+  reviewService,
+} from '../../services/reviewService';
+import { useAuth } from '../../contexts/AuthContext';
+import { StarRating } from './StarRating';
+
+type ProductReviewsProps = {
+  product: Product;
+  // The rating is recomputed whenever a review changes - this hands the updated product back
+  onProductChange: (product: Product) => void;
+};
+
+const SORT_OPTIONS: { value: ReviewSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'helpful', label: 'Most helpful' },
+];
+
+const EMPTY_REVIEW: ReviewContent = { stars: 0, title: '', body: '' };
+
+// Rating breakdown, the user's own review and everyone's reviews for the detail page
+export function ProductReviews({ product, onProductChange }: ProductReviewsProps) {
+  const { user } = useAuth();
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [page, setPage] = useState<ReviewPage | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<ReviewContent | null>(null);   // Set while the form is open
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    const [nextStats, mine] = await Promise.all([
+      reviewService.getReviewStats(product.id),
+      reviewService.getMyReview(product.id),
+    ]);
+    setStats(nextStats);
+    setMyReview(mine);
+  }, [product.id]);
+
+  const loadPage = useCallback(async () => {
+    const nextPage = await reviewService.getReviews(product.id, sort, pageNumber);
+    setPage(nextPage);
+    setVotedIds(await reviewService.getMyHelpfulVotes(nextPage.items.map(review => review.id)));
+  }, [product.id, sort, pageNumber]);
+
+  useEffect(() => {
+    loadSummary().catch(err => {
+      setError(err instanceof Error ? err.message : "Couldn't load reviews");
+      console.error('Review stats error:', err);
+    });
+  }, [loadSummary]);
+
+  useEffect(() => {
+    loadPage().catch(err => {
+      setError(err instanceof Error ? err.message : "Couldn't load reviews");
+      console.error('Review fetch error:', err);
+    });
+  }, [loadPage]);
+
+  const reloadAll = async () => {
+    await Promise.all([loadSummary(), loadPage()]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const problem = checkReview(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { product: updated } = await reviewService.saveReview(product.id, draft);
+      onProductChange(updated);
+      setDraft(null);
+      await reloadAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your review');
+      console.error('Review save error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!myReview || !window.confirm('Delete your review?')) return;
+    try {
+      setError(null);
+      onProductChange(await reviewService.deleteReview(myReview.id));
+      setPageNumber(1);
+      await reloadAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete your review');
+      console.error('Review deletion error:', err);
+    }
+  };
+
+  const handleHelpful = async (review: Review) => {
+    try {
+      setError(null);
+      const updated = await reviewService.markHelpful(review.id);
+      setPage(prev => prev && {
+        ...prev,
+        items: prev.items.map(item => (item.id === updated.id ? updated : item)),
+      });
+      setVotedIds(prev => new Set(prev).add(review.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record your vote');
+      console.error('Helpful vote error:', err);
+    }
+  };
+
+  const pageCount = page ? Math.max(1, Math.ceil(page.total / REVIEW_PAGE_SIZE)) : 1;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-2xl font-bold mb-4">Reviews</h2>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-6">
+        <div>
+          {stats && stats.count > 0 ? (
+            <>
+              <div className="flex items-center gap-3">
+                <span className="text-4xl font-bold">{stats.average.toFixed(1)}</span>
+                <StarRating value={stats.average} className="text-xl" />
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {stats.count} {stats.count === 1 ? 'review' : 'reviews'}
+              </p>
+            </>
+          ) : (
+            <p className="text-gray-600">No reviews yet</p>
+          )}
+
+          {user && !draft && (
+            <button
+              onClick={() => setDraft(myReview
+                ? { stars: myReview.stars, title: myReview.title, body: myReview.body }
+                : EMPTY_REVIEW)}
+              className="mt-4 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              {myReview ? 'Edit your review' : 'Write a review'}
+            </button>
+          )}
+          {myReview && !draft && (
+            <button onClick={handleDelete} className="mt-4 ml-3 text-sm text-red-600 hover:text-red-800">
+              Delete your review
+            </button>
+          )}
+        </div>
+
+        <div className="md:col-span-2 space-y-1">
+          {stats?.distribution.map(({ stars, count }) => (
+            <div key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-12 text-gray-600">{stars} star</span>
+              <div className="flex-1 h-3 rounded bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-yellow-400"
+                  style={{ width: `${stats.count > 0 ? (count / stats.count) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="w-8 text-right text-gray-600">{count}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 rounded-md border border-gray-200 space-y-3">
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Your rating</span>
+            <div className="flex gap-1" role="radiogroup" aria-label="Your rating">
+              {[1, 2, 3, 4, 5].map(star => (
+                <button
+                  key={star}
+                  type="button"
+                  role="radio"
+                  aria-checked={draft.stars === star}
+                  aria-label={`${star} ${star === 1 ? 'star' : 'stars'}`}
+                  onClick={() => setDraft({ ...draft, stars: star })}
+                  className={`text-2xl ${star <= draft.stars ? 'text-yellow-400' : 'text-gray-300'} hover:text-yellow-500`}
+                >
+                  ★
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Title</label>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              maxLength={reviewRules.title.max}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Review</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              maxLength={reviewRules.body.max}
+              required
+              rows={4}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : myReview ? 'Update review' : 'Post review'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {page && page.total > 0 && (
+        <div className="flex justify-end mb-3">
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value as ReviewSort);
+              setPageNumber(1);
+            }}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            aria-label="Sort reviews"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {page?.items.map(review => {
+          const isMine = review.user_id === user?.id;
+          return (
+            <li key={review.id} className="py-4">
+              <div className="flex items-center gap-2">
+                <StarRating value={review.stars} />
+                <h3 className="font-semibold">{review.title}</h3>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {isMine ? 'You' : review.user_email ?? 'Anonymous'} · {new Date(review.created_at).toLocaleDateString()}
+                {review.updated_at && ' · edited'}
+              </p>
+              <p className="text-gray-700 mt-2 whitespace-pre-line">{review.body}</p>
+              <div className="mt-2 text-sm text-gray-500 flex items-center gap-3">
+                {review.helpful_count > 0 && (
+                  <span>
+                    {review.helpful_count} {review.helpful_count === 1 ? 'person' : 'people'} found this helpful
+                  </span>
+                )}
+                {user && !isMine && (
+                  <button
+                    onClick={() => handleHelpful(review)}
+                    disabled={votedIds.has(review.id)}
+                    className="px-2 py-0.5 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {votedIds.has(review.id) ? 'Marked helpful' : 'Helpful'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-4 text-sm">
+          <button
+            onClick={() => setPageNumber(number => number - 1)}
+            disabled={pageNumber <= 1}
+            className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">Page {pageNumber} of {pageCount}</span>
+          <button
+            onClick={() => setPageNumber(number => number + 1)}
+            disabled={pageNumber >= pageCount}
+            className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BookmarkIcon, LinkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
+import { SavedSearch } from '../../lib/supabase';
+import { savedSearchService, getSearchUrl } from '../../services/savedSearchService';
+
+type SavedSearchesProps = {
+  currentQuery: string;             // The search applied right now, as a query string
+  onApply: (query: string) => void;
+};
+
+// Pinned searches as one-click chips, plus saving, sharing and managing the rest
+export function SavedSearches({ currentQuery, onApply }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [showManager, setShowManager] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadSearches = useCallback(async () => {
+    try {
+      setSearches(await savedSearchService.getSavedSearches());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load saved searches.');
+      console.error('Saved search fetch error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSearches();
+  }, [loadSearches]);
+
+  // Wrap an action so failures show up next to the chips and the list stays current
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await loadSearches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong.');
+      console.error('Saved search error:', err);
+    }
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Name this search');
+    if (name === null) return;
+    run(() => savedSearchService.saveSearch(name, currentQuery));
+  };
+
+  const handleRename = (search: SavedSearch) => {
+    const name = window.prompt('Rename search', search.name);
+    if (name === null || name === search.name) return;
+    run(() => savedSearchService.renameSearch(search.id, name));
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    run(() => savedSearchService.deleteSearch(search.id));
+  };
+
+  // Clipboard needs a secure context - fall back to showing the link to copy by hand
+  const handleShare = async (query: string) => {
+    const url = getSearchUrl(query);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice('Link copied');
+      window.setTimeout(() => setNotice(null), 2000);
+    } catch {
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  const pinned = searches.filter(search => search.pinned);
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {pinned.map(search => (
+          <button
+            key={search.id}
+            onClick={() => onApply(search.query)}
+            className={`px-3 py-1 rounded-full text-sm border ${
+              search.query === currentQuery
+                ? 'bg-indigo-600 text-white border-indigo-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {search.name}
+          </button>
+        ))}
+        <button
+          onClick={handleSave}
+          disabled={!currentQuery}
+          className="px-3 py-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+          title={currentQuery ? 'Save the current filters and sort' : 'Apply some filters first'}
+        >
+          Save search
+        </button>
+        <button
+          onClick={() => handleShare(currentQuery)}
+          className="px-3 py-1 text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Copy link
+        </button>
+        {searches.length > 0 && (
+          <button
+            onClick={() => setShowManager(!showManager)}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+          >
+            {showManager ? 'Hide saved searches' : `Saved searches (${searches.length})`}
+          </button>
+        )}
+        {notice && <span className="text-sm text-green-600">{notice}</span>}
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+
+      {showManager && (
+        <ul className="mt-2 bg-white rounded-lg shadow divide-y">
+          {searches.map(search => (
+            <li key={search.id} className="flex items-center justify-between gap-4 px-4 py-2">
+              <button
+                onClick={() => onApply(search.query)}
+                className="text-left text-sm font-medium text-gray-800 hover:text-indigo-600 truncate"
+              >
+                {search.name}
+              </button>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={() => run(() => savedSearchService.setPinned(search.id, !search.pinned))}
+                  className="text-gray-500 hover:text-indigo-600"
+                  title={search.pinned ? 'Unpin from the filter bar' : 'Pin to the filter bar'}
+                >
+                  {search.pinned ? (
+                    <BookmarkSolidIcon className="h-5 w-5 text-indigo-600" />
+                  ) : (
+                    <BookmarkIcon className="h-5 w-5" />
+                  )}
+                </button>
+                <button
+                  onClick={() => handleShare(search.query)}
+                  className="text-gray-500 hover:text-indigo-600"
+                  title="Copy link"
+                >
+                  <LinkIcon className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => handleRename(search)}
+                  className="text-sm text-gray-500 hover:text-indigo-600"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(search)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Delete saved search"
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
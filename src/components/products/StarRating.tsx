@@ -0,0 +1,16 @@
+type StarRatingProps = {
+  value: number;          // 0-5, fractions round to the nearest star
+  className?: string;
+};
+
+// Five stars with `value` of them filled - read only
+export function StarRating({ value, className = '' }: StarRatingProps) {
+  const filled = Math.round(value);
+  return (
+    <span className={className} aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <span key={star} className={star <= filled ? 'text-yellow-400' : 'text-gray-300'}>★</span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Product, StockAdjustment, StockAdjustmentKind } from '../../lib/supabase';
+import { getStockOnHand } from '../../services/productService';
+import { checkStockAdjustment, stockService } from '../../services/stockService';
+
+type StockAdjusterProps = {
+  product: Product;
+  onClose: () => void;
+  onAdjusted: (product: Product) => void;
+};
+
+const KIND_OPTIONS: { value: StockAdjustmentKind; label: string; quantityLabel: string }[] = [
+  { value: 'receive', label: 'Receive', quantityLabel: 'Quantity received' },
+  { value: 'sell', label: 'Sell', quantityLabel: 'Quantity sold' },
+  { value: 'correct', label: 'Correct count', quantityLabel: 'Counted stock on hand' },
+];
+
+const KIND_LABELS: Record<StockAdjustmentKind, string> = {
+  receive: 'Received',
+  sell: 'Sold',
+  correct: 'Corrected',
+};
+
+// Modal to receive, sell or recount a product, with its adjustment history underneath
+export function StockAdjuster({ product, onClose, onAdjusted }: StockAdjusterProps) {
+  const [current, setCurrent] = useState(product);
+  const [kind, setKind] = useState<StockAdjustmentKind>('receive');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    stockService.getAdjustments(product.id)
+      .then(setAdjustments)
+      .catch(err => {
+        setError(err instanceof Error ? err.message : "Couldn't load the stock history");
+        console.error('Stock history error:', err);
+      });
+  }, [product.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = { kind, quantity: quantity.trim() === '' ? NaN : Number(quantity), reason };
+    const problem = checkStockAdjustment(request);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { product: updated, adjustment } = await stockService.adjustStock(product.id, request);
+      setCurrent(updated);
+      setAdjustments(prev => [adjustment, ...prev]);
+      setQuantity('');
+      setReason('');
+      onAdjusted(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust stock');
+      console.error('Stock adjustment error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const kindOption = KIND_OPTIONS.find(option => option.value === kind)!;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">Adjust stock</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {current.name}{current.sku && ` (${current.sku})`} - {getStockOnHand(current)} on hand
+          {current.reorder_threshold !== null && current.reorder_threshold !== undefined &&
+            `, reorder at ${current.reorder_threshold}`}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="inline-flex rounded-md shadow-sm" role="group">
+            {KIND_OPTIONS.map((option, index) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setKind(option.value)}
+                className={`px-4 py-2 text-sm font-medium border ${index === 0 ? 'rounded-l-md' : ''} ${
+                  index === KIND_OPTIONS.length - 1 ? 'rounded-r-md' : ''
+                } ${kind === option.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{kindOption.quantityLabel}</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={kind === 'receive' ? 'e.g. PO 1042' : kind === 'sell' ? 'e.g. Order 5531' : 'e.g. Monthly count'}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Record adjustment'}
+            </button>
+          </div>
+        </form>
+
+        <h3 className="text-sm font-medium text-gray-500 mt-6 mb-2">History</h3>
+        {adjustments.length === 0 ? (
+          <p className="text-sm text-gray-500">No stock movements yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 text-sm">
+            {adjustments.map(adjustment => (
+              <li key={adjustment.id} className="py-2 flex justify-between gap-4">
+                <div>
+                  <span className="font-medium">{KIND_LABELS[adjustment.kind]}</span>{' '}
+                  <span className={adjustment.quantity < 0 ? 'text-red-600' : 'text-green-700'}>
+                    {adjustment.quantity > 0 ? '+' : ''}{adjustment.quantity}
+                  </span>
+                  <span className="text-gray-500"> → {adjustment.stock_after}</span>
+                  <div className="text-gray-600">{adjustment.reason}</div>
+                </div>
+                <div className="text-right text-xs text-gray-500 shrink-0">
+                  <div>{adjustment.actor_email ?? 'unknown'}</div>
+                  <div>{new Date(adjustment.created_at).toLocaleString()}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
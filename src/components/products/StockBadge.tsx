@@ -0,0 +1,14 @@
+import { Product } from '../../lib/supabase';
+import { getStockOnHand, isLowStock } from '../../services/productService';
+
+// Stock on hand as a coloured pill - red when out, amber at or below the reorder threshold
+export function StockBadge({ product }: { product: Product }) {
+  const stock = getStockOnHand(product);
+  const [className, label] = stock === 0
+    ? ['bg-red-100 text-red-800', 'Out of stock']
+    : isLowStock(product)
+      ? ['bg-yellow-100 text-yellow-800', `Low stock: ${stock}`]
+      : ['bg-green-100 text-green-800', `${stock} in stock`];
+
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{label}</span>;
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Product } from '../../lib/supabase';
+import { trashRetentionDays } from '../../lib/config';
+import { productService } from '../../services/productService';
+import { useAuth } from '../../contexts/AuthContext';
+
+export function TrashList() {
+  const { can } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Anything past retention is purged elsewhere (see purgeExpiredProducts) - this only reads
+  const refreshTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const page = await productService.getDeletedProducts();
+      setProducts(page.items);
+      setTotalCount(page.total);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load the trash. Please try again.');
+      console.error('Trash fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTrash();
+  }, [refreshTrash]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const page = await productService.getDeletedProducts({ cursor: nextCursor });
+      setProducts(current => [...current, ...page.items]);
+      setTotalCount(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load more products.');
+      console.error('Trash page fetch error:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Either action takes the product out of the trash listing
+  const dropFromList = (productId: string) => {
+    setProducts(current => current.filter(product => product.id !== productId));
+    setTotalCount(count => Math.max(0, count - 1));
+  };
+
+  const handleRestore = async (productId: string) => {
+    try {
+      setBusyId(productId);
+      await productService.restoreProduct(productId);
+      dropFromList(productId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore product. Please try again.');
+      console.error('Product restore error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (productId: string) => {
+    const userConfirmed = window.confirm('This action cannot be undone. Permanently delete this product?');
+    if (!userConfirmed) return;
+
+    try {
+      setBusyId(productId);
+      await productService.permanentlyDeleteProduct(productId);
+      dropFromList(productId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete product. Please try again.');
+      console.error('Product purge error:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) return <div className="text-center py-8">Loading trash...</div>;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Trash</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Deleted products are permanently removed after {trashRetentionDays} days.
+        </p>
+      </div>
+
+      {error && <div className="text-red-600 text-center mb-4">{error}</div>}
+
+      {products.length > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          Showing {products.length} of {totalCount} deleted products
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg shadow divide-y">
+        {products.map(product => (
+          <div key={product.id} className="flex justify-between items-center p-4 gap-4">
+            <div>
+              <h2 className="font-semibold">{product.name}</h2>
+              <p className="text-sm text-gray-500">
+                {product.category} · deleted {product.deleted_at && new Date(product.deleted_at).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => handleRestore(product.id)}
+                disabled={busyId === product.id}
+                className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ArrowUturnLeftIcon className="h-4 w-4" />
+                Restore
+              </button>
+              {can('product:purge') && (
+                <button
+                  onClick={() => handlePermanentDelete(product.id)}
+                  disabled={busyId === product.id}
+                  className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                  Delete permanently
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {nextCursor && (
+        <div className="flex justify-center py-6">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+
+      {products.length === 0 && (
+        <div className="text-center py-8 text-gray-500">The trash is empty.</div>
+      )}
+    </div>
+  );
+}
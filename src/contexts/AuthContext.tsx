@@ -1,73 +1,250 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
-
-type AuthContextType = {
-  user: User | null;
-  loading: boolean;
-  signUp: (email: string, password: string) => Promise<void>;
-  signIn: (email: string, password: string) => Promise<void>;
-  signOut: () => Promise<void>;
-};
-
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
-
-export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    // Check active sessions and sets the user
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    // Listen for changes on auth state (sign in, sign out, etc.)
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  const signUp = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signUp({
-      email,
-      password,
-    });
-    if (error) throw error;
-  };
-
-  const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    if (error) throw error;
-  };
-
-  const signOut = async () => {
-    const { error } = await supabase.auth.signOut();
-    if (error) throw error;
-  };
-
-  const value = {
-    user,
-    loading,
-    signUp,
-    signIn,
-    signOut,
-  };
-
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-}
-
-export function useAuth() {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
-  }
-  return context;
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { User } from '@supabase/supabase-js';
+import { getSupabase } from '../lib/supabase';
+import { AUTH_CALLBACK_PATH, RESET_PASSWORD_PATH, isLocalBackend } from '../lib/config';
+import { localAuth } from '../lib/localAuth';
+import { SignOutReason, authSync } from '../lib/authSync';
+import { sessionService } from '../services/sessionService';
+import { syncService } from '../services/syncService';
+import { Action, Role, canModifyProduct, getUserRole, roleCan } from '../lib/permissions';
+import { Product } from '../lib/supabase';
+
+type AuthContextType = {
+  user: User | null;
+  role: Role | null;
+  can: (action: Action) => boolean;
+  canModify: (product: Pick<Product, 'created_by'>) => boolean;
+  loading: boolean;
+  emailVerified: boolean;
+  unverifiedEmail: string | null;   // Signed up (or tried to sign in) but hasn't confirmed their email yet
+  signOutReason: SignOutReason | null;   // Why the last sign-out wasn't the user's own doing
+  // `returnTo` is where the emailed link should bring them back to once confirmed
+  signUp: (email: string, password: string, returnTo?: string) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<void>;
+  sendSignInLink: (email: string, returnTo?: string) => Promise<void>;
+  verifySignInCode: (email: string, code: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  clearUnverified: () => void;
+  requestPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  signOut: (reason?: SignOutReason) => Promise<void>;
+};
+
+// How often a signed-in browser checks its session hasn't been revoked from elsewhere
+const SESSION_CHECK_MS = 5 * 60 * 1000;
+
+const redirectUrl = (path: string, returnTo?: string) =>
+  `${window.location.origin}${path}${returnTo ? `?next=${encodeURIComponent(returnTo)}` : ''}`;
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [signOutReason, setSignOutReason] = useState<SignOutReason | null>(null);
+
+  useEffect(() => {
+    // Local backend keeps a fake session in localStorage instead
+    if (isLocalBackend) {
+      setUser(localAuth.getUser());
+      setLoading(false);
+      return;
+    }
+
+    const supabase = getSupabase();
+
+    // Check active sessions and sets the user
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
+
+    // Listen for changes on auth state (sign in, sign out, etc.)
+    // A confirmation, sign-in or reset link lands here too - Supabase picks the session out of the URL
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+      if (session) {
+        setUnverifiedEmail(null);
+        setSignOutReason(null);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Another tab signed in or out - the session is shared, so just read it again
+  useEffect(() => authSync.subscribe(message => {
+    if (message.type === 'signed-out') setSignOutReason(message.reason);
+    if (isLocalBackend) {
+      setUser(localAuth.getUser());
+      return;
+    }
+    getSupabase().auth.getSession().then(({ data: { session } }) => setUser(session?.user ?? null));
+  }), []);
+
+  // Signing out here and telling the other tabs. Session tracking and clearing offline data are best
+  // effort - they never block signing out
+  const signOut = useCallback(async (reason?: SignOutReason) => {
+    await sessionService.end().catch(err => console.error('Session end error:', err));
+    await syncService.clearOfflineData({ keepQueued: reason !== undefined })
+      .catch(err => console.error('Offline data cleanup error:', err));
+    if (isLocalBackend) {
+      localAuth.signOut();
+      setUser(null);
+    } else {
+      // Only this browser - other devices are signed out from the account page
+      const { error } = await getSupabase().auth.signOut({ scope: 'local' });
+      if (error) throw error;
+    }
+    setSignOutReason(reason ?? null);
+    authSync.announce({ type: 'signed-out', reason: reason ?? null });
+  }, []);
+
+  // Keep this browser on the session list, and sign out if it's been revoked from another session
+  useEffect(() => {
+    if (!user) return;
+    const check = () => {
+      sessionService.check(user)
+        .then(active => (active ? undefined : signOut('revoked')))
+        .catch(err => console.error('Session check error:', err));
+    };
+    check();
+    const timer = window.setInterval(check, SESSION_CHECK_MS);
+    window.addEventListener('focus', check);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('focus', check);
+    };
+  }, [user, signOut]);
+
+  // Role travels with the session, so it updates whenever the user does
+  const role = getUserRole(user);
+  const can = useCallback((action: Action) => roleCan(role, action), [role]);
+  // Ownership rule on top of the role (only matters with VITE_OWNER_ONLY_EDITS on)
+  const canModify = useCallback(
+    (product: Pick<Product, 'created_by'>) => canModifyProduct(user, role, product),
+    [user, role]
+  );
+  const emailVerified = Boolean(user?.email_confirmed_at);
+
+  // For the local backend, which has no auth events of its own
+  const signedInLocally = (next: User) => {
+    setUser(next);
+    setSignOutReason(null);
+    authSync.announce({ type: 'signed-in' });
+  };
+
+  const signUp = async (email: string, password: string, returnTo?: string) => {
+    if (isLocalBackend) {
+      signedInLocally(localAuth.signIn(email));
+      return;
+    }
+    const { data, error } = await getSupabase().auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: redirectUrl(AUTH_CALLBACK_PATH, returnTo) },
+    });
+    if (error) throw error;
+    // No session means the project wants the email confirmed first
+    if (!data.session) setUnverifiedEmail(email);
+    else authSync.announce({ type: 'signed-in' });
+  };
+
+  const signIn = async (email: string, password: string) => {
+    if (isLocalBackend) {
+      signedInLocally(localAuth.signIn(email));
+      return;
+    }
+    const { error } = await getSupabase().auth.signInWithPassword({
+      email,
+      password,
+    });
+    // Not an error as far as the user is concerned - they just haven't clicked the link yet
+    if (error?.code === 'email_not_confirmed') {
+      setUnverifiedEmail(email);
+      return;
+    }
+    if (error) throw error;
+    authSync.announce({ type: 'signed-in' });
+  };
+
+  // Passwordless: the email has both a link (lands on AUTH_CALLBACK_PATH) and a code to type in here
+  const sendSignInLink = async (email: string, returnTo?: string) => {
+    if (isLocalBackend) return;
+    const { error } = await getSupabase().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectUrl(AUTH_CALLBACK_PATH, returnTo) },
+    });
+    if (error) throw error;
+  };
+
+  const verifySignInCode = async (email: string, code: string) => {
+    if (isLocalBackend) {
+      signedInLocally(localAuth.signIn(email));
+      return;
+    }
+    const { error } = await getSupabase().auth.verifyOtp({ email, token: code.trim(), type: 'email' });
+    if (error) throw error;
+    authSync.announce({ type: 'signed-in' });
+  };
+
+  const resendVerification = async () => {
+    if (!unverifiedEmail || isLocalBackend) return;
+    const { error } = await getSupabase().auth.resend({
+      type: 'signup',
+      email: unverifiedEmail,
+      options: { emailRedirectTo: redirectUrl(AUTH_CALLBACK_PATH) },
+    });
+    if (error) throw error;
+  };
+
+  const clearUnverified = useCallback(() => setUnverifiedEmail(null), []);
+
+  // The reset link signs the user in and lands on RESET_PASSWORD_PATH, where updatePassword finishes the job
+  const requestPasswordReset = async (email: string) => {
+    if (isLocalBackend) return;
+    const { error } = await getSupabase().auth.resetPasswordForEmail(email, {
+      redirectTo: redirectUrl(RESET_PASSWORD_PATH),
+    });
+    if (error) throw error;
+  };
+
+  const updatePassword = async (password: string) => {
+    if (!user) throw new Error('Your reset link has expired - please request a new one');
+    if (isLocalBackend) return;
+    const { error } = await getSupabase().auth.updateUser({ password });
+    if (error) throw error;
+  };
+
+  const value = {
+    user,
+    role,
+    can,
+    canModify,
+    loading,
+    emailVerified,
+    unverifiedEmail,
+    signOutReason,
+    signUp,
+    signIn,
+    sendSignInLink,
+    verifySignInCode,
+    resendVerification,
+    clearUnverified,
+    requestPasswordReset,
+    updatePassword,
+    signOut,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
 }
\ No newline at end of file
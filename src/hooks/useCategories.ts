@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Category } from '../lib/supabase';
+import { categoryService } from '../services/categoryService';
+
+// Category list for selects and the admin screen, with a manual reload after edits
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCategories(await categoryService.getCategories());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load categories.');
+      console.error('Category fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { categories, loading, error, reload };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CurrencyCode, convertPrice, formatPrice, getProductCurrency } from '../lib/currency';
+import { Product } from '../lib/supabase';
+import { currencyService } from '../services/currencyService';
+
+// Display currency and rates, kept current, plus formatters that convert into the display currency
+export function useCurrency() {
+  const [state, setState] = useState(currencyService.getState());
+
+  useEffect(() => currencyService.subscribe(setState), []);
+
+  const { displayCurrency, rates } = state;
+
+  // An amount in `currency`, shown in the display currency (as is when there are no rates)
+  const formatAmount = useCallback(
+    (amount: number, currency: CurrencyCode = displayCurrency) =>
+      rates
+        ? formatPrice(convertPrice(amount, currency, displayCurrency, rates), displayCurrency)
+        : formatPrice(amount, currency),
+    [displayCurrency, rates]
+  );
+
+  const formatProductPrice = useCallback(
+    (product: Pick<Product, 'price' | 'currency'>) => formatAmount(product.price, getProductCurrency(product)),
+    [formatAmount]
+  );
+
+  return {
+    ...state,
+    setDisplayCurrency: currencyService.setDisplayCurrency,
+    formatAmount,
+    formatProductPrice,
+  };
+}
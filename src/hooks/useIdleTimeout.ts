@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { idleTimeoutMs, idleWarningMs } from '../lib/config';
+
+// Last activity in any tab - so someone working in one tab isn't signed out by another that sat idle
+const ACTIVITY_KEY = 'catalog.lastActivity';
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+// Activity is noticed straight away but only written out this often - pointermove fires a lot
+const WRITE_EVERY_MS = 5000;
+
+function readSharedActivity() {
+  try {
+    return Number(window.localStorage.getItem(ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(at: number) {
+  try {
+    window.localStorage.setItem(ACTIVITY_KEY, String(at));
+  } catch {
+    // Then each tab goes by its own activity
+  }
+}
+
+// Counts down to `onTimeout` while `enabled` and nobody's doing anything (VITE_IDLE_TIMEOUT_MINUTES)
+// `secondsLeft` is set once the warning period starts; from then on only stayActive() resets the clock,
+// so a stray mouse movement doesn't quietly dismiss the warning on a shared terminal
+export function useIdleTimeout(enabled: boolean, onTimeout: () => void) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const lastWrite = useRef(0);
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const stayActive = useCallback(() => {
+    const now = Date.now();
+    lastActivity.current = now;
+    lastWrite.current = now;
+    writeSharedActivity(now);
+    warning.current = false;
+    setSecondsLeft(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || idleTimeoutMs <= 0) return;
+    // Signing in counts as activity
+    stayActive();
+
+    const handleActivity = () => {
+      if (warning.current) return;
+      const now = Date.now();
+      lastActivity.current = now;
+      if (now - lastWrite.current >= WRITE_EVERY_MS) {
+        lastWrite.current = now;
+        writeSharedActivity(now);
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      const idleFor = Date.now() - Math.max(lastActivity.current, readSharedActivity());
+      const left = idleTimeoutMs - idleFor;
+      if (left <= 0) {
+        window.clearInterval(timer);
+        warning.current = false;
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+        return;
+      }
+      warning.current = left <= idleWarningMs;
+      setSecondsLeft(warning.current ? Math.ceil(left / 1000) : null);
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      window.clearInterval(timer);
+      warning.current = false;
+      setSecondsLeft(null);
+    };
+  }, [enabled, stayActive]);
+
+  return { secondsLeft, stayActive };
+}
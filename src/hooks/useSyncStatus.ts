@@ -0,0 +1,16 @@
+import { useEffect, useMemo, useState } from 'react';
+import { syncService } from '../services/syncService';
+
+// Offline sync state, kept current - plus the ids of products with changes still on their way
+export function useSyncStatus() {
+  const [state, setState] = useState(syncService.getState());
+
+  useEffect(() => syncService.subscribe(setState), []);
+
+  const unsyncedProductIds = useMemo(
+    () => new Set([...state.pending, ...state.failed].map(mutation => mutation.productId)),
+    [state.pending, state.failed]
+  );
+
+  return { ...state, unsyncedProductIds };
+}
@@ -0,0 +1,147 @@
+// Category-specific product attributes - what a category asks for, and the values products carry
+// e.g. Electronics have a wattage and a warranty, Books an author and an ISBN
+
+export type AttributeType = 'text' | 'number' | 'boolean' | 'enum';
+
+export const ATTRIBUTE_TYPES: { value: AttributeType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'enum', label: 'One of a list' },
+];
+
+// One field in a category's schema
+export type AttributeDefinition = {
+  key: string;          // What the value is stored under on the product, e.g. 'warranty_months'
+  label: string;
+  type: AttributeType;
+  required?: boolean;   // Yes / no fields always have a value, so this only matters for the others
+  unit?: string;        // Shown after numbers, e.g. 'W'
+  options?: string[];   // The allowed values of an enum
+  min?: number;         // Bounds on a number, or on the length of text
+  max?: number;
+};
+
+export type AttributeValue = string | number | boolean;
+export type ProductAttributes = Record<string, AttributeValue>;
+
+// Form (and URL) values are all text, the same as ProductDetails - a checkbox is 'true' or ''
+export type AttributeInputs = Record<string, string>;
+
+// Filtering by attribute: an exact value (ignoring case), and/or a range for numbers
+export type AttributeCondition = {
+  equals?: string;
+  min?: number;
+  max?: number;
+};
+export type AttributeFilters = Record<string, AttributeCondition>;
+
+export const ATTRIBUTE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+
+const TEXT_MAX_LENGTH = 200;
+
+// Values as they come in (form text, a JSON import, a typed caller) to stored values of each
+// attribute's type. Only keys in the schema survive, and blanks are left out
+// Unusable numbers come through as NaN so checkAttributeValues can point at them
+export function normalizeAttributes(definitions: AttributeDefinition[], values: Record<string, unknown>) {
+  const attributes: ProductAttributes = {};
+  for (const definition of definitions) {
+    const raw = values[definition.key];
+    if (raw === undefined || raw === null) continue;
+    if (definition.type === 'boolean') {
+      // An unticked checkbox is ''
+      if (raw === true || raw === 'true') attributes[definition.key] = true;
+      else if (raw === false || raw === 'false' || raw === '') attributes[definition.key] = false;
+      continue;
+    }
+    if (definition.type === 'number' && typeof raw === 'number') {
+      attributes[definition.key] = raw;
+      continue;
+    }
+    const text = String(raw).trim();
+    if (text) attributes[definition.key] = definition.type === 'number' ? Number(text) : text;
+  }
+  return attributes;
+}
+
+// Problems with normalized values, by attribute key - empty when everything fits the schema
+export function checkAttributeValues(definitions: AttributeDefinition[], attributes: ProductAttributes) {
+  const errors: Record<string, string> = {};
+  for (const definition of definitions) {
+    const value = attributes[definition.key];
+    const { key, label, min, max } = definition;
+    if (value === undefined) {
+      if (definition.required && definition.type !== 'boolean') errors[key] = `${label} is required`;
+      continue;
+    }
+
+    if (definition.type === 'boolean') {
+      if (typeof value !== 'boolean') errors[key] = `${label} should be yes or no`;
+    } else if (definition.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors[key] = `${label} should be a number`;
+      else if (min !== undefined && value < min) errors[key] = `${label} can't be less than ${min}`;
+      else if (max !== undefined && value > max) errors[key] = `${label} can't be more than ${max}`;
+    } else if (definition.type === 'enum') {
+      if (!definition.options?.includes(String(value))) {
+        errors[key] = `${label} should be one of ${definition.options?.join(', ')}`;
+      }
+    } else {
+      const text = String(value);
+      if (min !== undefined && text.length < min) errors[key] = `${label} needs at least ${min} characters`;
+      else if (text.length > (max ?? TEXT_MAX_LENGTH)) {
+        errors[key] = `${label} is limited to ${max ?? TEXT_MAX_LENGTH} characters`;
+      }
+    }
+  }
+  return errors;
+}
+
+// Stored values back to form inputs
+export function toAttributeInputs(attributes: ProductAttributes | null | undefined): AttributeInputs {
+  return Object.fromEntries(Object.entries(attributes ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+// For display: "Yes", "1,200 W", "Cotton"
+export function formatAttributeValue(definition: AttributeDefinition | undefined, value: AttributeValue) {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    const formatted = value.toLocaleString();
+    return definition?.unit ? `${formatted} ${definition.unit}` : formatted;
+  }
+  return value;
+}
+
+// Whether an admin-edited schema makes sense - returns the first problem, or null
+export function checkAttributeSchema(definitions: AttributeDefinition[]) {
+  const keys = new Set<string>();
+  for (const definition of definitions) {
+    if (!definition.label.trim()) return 'Every attribute needs a label';
+    if (!ATTRIBUTE_KEY_PATTERN.test(definition.key)) {
+      return `"${definition.key}" isn't a usable key - use lower-case letters, digits and underscores`;
+    }
+    if (keys.has(definition.key)) return `There are two attributes called "${definition.key}"`;
+    keys.add(definition.key);
+    if (definition.type === 'enum' && !definition.options?.length) {
+      return `${definition.label} needs at least one option`;
+    }
+    if (definition.min !== undefined && definition.max !== undefined && definition.min > definition.max) {
+      return `${definition.label} has a minimum above its maximum`;
+    }
+  }
+  return null;
+}
+
+// In-memory version of the attribute filters - mirrors the Supabase query
+// Equality compares text so it works the same whatever the schema says the type is
+export function matchesAttributeFilters(attributes: ProductAttributes | null | undefined, filters: AttributeFilters) {
+  return Object.entries(filters).every(([key, condition]) => {
+    const value = attributes?.[key];
+    if (value === undefined) return false;
+    if (condition.equals !== undefined && String(value).toLowerCase() !== condition.equals.toLowerCase()) {
+      return false;
+    }
+    if (condition.min !== undefined && !(typeof value === 'number' && value >= condition.min)) return false;
+    if (condition.max !== undefined && !(typeof value === 'number' && value <= condition.max)) return false;
+    return true;
+  });
+}
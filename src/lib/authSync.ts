@@ -0,0 +1,54 @@
+// Keeps open tabs in agreement about who's signed in: a tab that signs in or out tells the others,
+// which then re-read the (shared) stored session. BroadcastChannel where there is one, storage events otherwise
+
+export type SignOutReason = 'idle' | 'revoked';
+
+export type AuthSyncMessage =
+  | { type: 'signed-in' }
+  | { type: 'signed-out'; reason: SignOutReason | null };
+
+const CHANNEL_NAME = 'catalog.auth';
+// Fallback only - written (never read back) just to fire a storage event in the other tabs
+const STORAGE_KEY = 'catalog.authEvent';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+const listeners = new Set<(message: AuthSyncMessage) => void>();
+
+channel?.addEventListener('message', (event: MessageEvent<AuthSyncMessage>) => {
+  listeners.forEach(listener => listener(event.data));
+});
+
+if (!channel && typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+  window.addEventListener('storage', event => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      const { message } = JSON.parse(event.newValue) as { message: AuthSyncMessage };
+      listeners.forEach(listener => listener(message));
+    } catch {
+      // Someone else's junk under our key - nothing to tell anyone
+    }
+  });
+}
+
+export const authSync = {
+  // Tell the other tabs - never this one, it already knows
+  announce(message: AuthSyncMessage) {
+    if (channel) {
+      channel.postMessage(message);
+      return;
+    }
+    try {
+      // The timestamp makes every write a change, so the same message twice still fires
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, at: Date.now() }));
+    } catch {
+      // No storage, no other tabs to tell
+    }
+  },
+
+  subscribe(listener: (message: AuthSyncMessage) => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
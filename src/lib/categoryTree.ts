@@ -0,0 +1,81 @@
+// Walking the category tree - plain functions over a loaded category list
+// Subcategories point at their parent by id; products point at categories by name
+
+import { AttributeDefinition } from './attributes';
+import { Category } from './supabase';
+
+// A category with its nesting level, for indented selects and the admin tree
+export type CategoryNode = {
+  category: Category;
+  depth: number;
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Direct children of a category (null for the top level), in display order
+export function childrenOf(categories: Category[], parentId: string | null) {
+  return categories
+    .filter(category => category.parent_id === parentId)
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
+
+// Depth-first walk in display order
+// Archived categories (and everything under them) are left out unless includeArchived is set
+export function flattenCategoryTree(categories: Category[], options: { includeArchived?: boolean } = {}) {
+  const nodes: CategoryNode[] = [];
+  const walk = (parentId: string | null, depth: number) => {
+    childrenOf(categories, parentId).forEach(category => {
+      if (category.archived_at && !options.includeArchived) return;
+      nodes.push({ category, depth });
+      walk(category.id, depth + 1);
+    });
+  };
+  walk(null, 0);
+  return nodes;
+}
+
+// A category's name plus the names of everything nested under it
+export function getCategoryNamesWithin(categories: Category[], name: string) {
+  const root = categories.find(category => category.name === name);
+  if (!root) return [name];
+
+  const names = [root.name];
+  const walk = (parentId: string) => {
+    childrenOf(categories, parentId).forEach(child => {
+      names.push(child.name);
+      walk(child.id);
+    });
+  };
+  walk(root.id);
+  return names;
+}
+
+// Find a category by name, ignoring case and stray whitespace
+export function findCategoryByName(categories: Category[], name: string) {
+  return categories.find(category => sameName(category.name, name));
+}
+
+// The chain of categories from the top level down to `name`, for breadcrumbs
+export function getCategoryPath(categories: Category[], name: string) {
+  const path: Category[] = [];
+  let current = categories.find(category => category.name === name);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId: string | null = current.parent_id;
+    current = categories.find(category => category.id === parentId);
+  }
+  return path;
+}
+
+// The attribute fields a product in `name` gets: its own plus every ancestor's, top level first
+// A subcategory can redefine an inherited key (e.g. narrow the sizes) - the deeper one wins
+export function getAttributeSchema(categories: Category[], name: string) {
+  const byKey = new Map<string, AttributeDefinition>();
+  getCategoryPath(categories, name).forEach(category => {
+    (category.attributes ?? []).forEach(definition => {
+      byKey.delete(definition.key);
+      byKey.set(definition.key, definition);
+    });
+  });
+  return [...byKey.values()];
+}
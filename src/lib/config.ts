@@ -0,0 +1,31 @@
+// Runtime configuration pulled from Vite env vars
+// 'supabase' talks to the real project, 'local' keeps everything in the browser (demos, tests, offline)
+export type Backend = 'supabase' | 'local';
+
+export const backend: Backend =
+  import.meta.env.VITE_BACKEND === 'local' ? 'local' : 'supabase';
+
+export const isLocalBackend = backend === 'local';
+
+// How long deleted products stay in the trash before they're purged for good
+const retentionDays = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS);
+export const trashRetentionDays = Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : 30;
+
+// When on, editors can only change products they created themselves (admins can still change anything)
+export const ownerOnlyEdits = import.meta.env.VITE_OWNER_ONLY_EDITS === 'true';
+
+// Signed-in users who do nothing for this long are warned, then signed out - for shared terminals
+// 0 turns it off. The warning counts down for the last VITE_IDLE_WARNING_SECONDS of it
+const idleMinutes = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES || 30);
+export const idleTimeoutMs = Number.isFinite(idleMinutes) && idleMinutes >= 0 ? idleMinutes * 60 * 1000 : 30 * 60 * 1000;
+const warningSeconds = Number(import.meta.env.VITE_IDLE_WARNING_SECONDS);
+export const idleWarningMs = Math.min(
+  Number.isFinite(warningSeconds) && warningSeconds > 0 ? warningSeconds * 1000 : 60 * 1000,
+  idleTimeoutMs
+);
+
+// Where links in auth emails (confirmation, sign-in, password reset) bring people back to -
+// both have to be in the Supabase project's allowed redirect URLs (the callback with a wildcard,
+// since it carries a ?next= path to continue to)
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+export const RESET_PASSWORD_PATH = '/reset-password';
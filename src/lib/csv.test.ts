@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvField, formatCsvRow, parseCsv, parseCsvRecords } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,price\nLamp,40\nBook,10')).toEqual([
+      ['name', 'price'],
+      ['Lamp', '40'],
+      ['Book', '10'],
+    ]);
+  });
+
+  it('handles quoted commas, escaped quotes and line breaks', () => {
+    expect(parseCsv('"a, b","say ""hi""","two\nlines"\r\n')).toEqual([['a, b', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('drops blank lines and a leading BOM', () => {
+    expect(parseCsv('\uFEFFname\r\n\r\nLamp\n\n')).toEqual([['name'], ['Lamp']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,')).toEqual([['a', '', 'c'], ['', '']]);
+  });
+
+  it('throws on an unterminated quote', () => {
+    expect(() => parseCsv('"open,1')).toThrow('unterminated');
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('numbers rows by the line they start on, counting blank lines and quoted line breaks', () => {
+    const records = parseCsvRecords('name\r\n\r\n"two\nlines"\nafter\rlast');
+    expect(records.map(record => [record.fields[0], record.line])).toEqual([
+      ['name', 1],
+      ['two\nlines', 3],
+      ['after', 5],
+      ['last', 6],
+    ]);
+  });
+});
+
+describe('formatCsvField', () => {
+  it('leaves plain text alone', () => {
+    expect(formatCsvField('Lamp')).toBe('Lamp');
+    expect(formatCsvField(40)).toBe('40');
+    expect(formatCsvField(null)).toBe('');
+  });
+
+  it('quotes commas, quotes, line breaks and padded text', () => {
+    expect(formatCsvField('a, b')).toBe('"a, b"');
+    expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(formatCsvField(' padded')).toBe('" padded"');
+  });
+
+  it('writes objects as JSON', () => {
+    expect(formatCsvField({ size: 'M' })).toBe('"{""size"":""M""}"');
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    expect(formatCsvField('=HYPERLINK("http://x")')).toBe(`"'=HYPERLINK(""http://x"")"`);
+    expect(formatCsvField('+1')).toBe("'+1");
+    expect(formatCsvField('-sale')).toBe("'-sale");
+    expect(formatCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    expect(formatCsvField(-5)).toBe('-5');
+  });
+
+  it('can quote everything and flatten line breaks', () => {
+    expect(formatCsvField('two\r\nlines', { quoteAll: true, newlines: 'space' })).toBe('"two lines"');
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('joins fields and ends with CRLF', () => {
+    expect(formatCsvRow(['Lamp', 40, null])).toBe('Lamp,40,\r\n');
+  });
+
+  it('reads back what it writes', () => {
+    const values = ['a, b', 'say "hi"', 'two\nlines', ''];
+    expect(parseCsv(formatCsvRow(values))).toEqual([values]);
+  });
+});
@@ -0,0 +1,98 @@
+// Minimal RFC 4180 CSV handling - quoted fields, escaped quotes ("") and newlines inside quotes
+
+// One row of fields and the line it starts on (1-based) - rows with quoted line breaks span several
+export type CsvRecord = {
+  fields: string[];
+  line: number;
+};
+
+// Split CSV text into rows, keeping where each one is in the file
+// Blank lines are dropped (but still counted); a UTF-8 BOM (Excel likes adding one) is ignored
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') records.push({ fields: row, line: rowLine });
+    row = [];
+    field = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    // \r\n, \n and a lone \r each end a line, inside quotes or not
+    if (char === '\r' || (char === '\n' && input[i - 1] !== '\r')) line++;
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new Error('CSV has an unterminated quoted field');
+  if (field !== '' || row.length > 0) endRow();
+  return records;
+}
+
+// Just the rows of fields, for when line numbers don't matter
+export function parseCsv(text: string): string[][] {
+  return parseCsvRecords(text).map(record => record.fields);
+}
+
+export type CsvWriteOptions = {
+  quoteAll?: boolean;                 // Quote every field, not just the ones that need it
+  newlines?: 'keep' | 'space';        // Keep line breaks (inside quotes) or flatten them to spaces
+};
+
+// Spreadsheets run a cell that starts with one of these as a formula, so a product named
+// =HYPERLINK(...) would be live when the export is opened in Excel
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// One CSV field, quoted and escaped when it has commas, quotes or line breaks
+// Text that would read as a formula gets a leading ' (spreadsheets show it as plain text and hide
+// the '). Only text - numbers like -5 stay numbers
+export function formatCsvField(value: unknown, options: CsvWriteOptions = {}) {
+  let text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (options.newlines === 'space') {
+    text = text.replace(/\r\n|\r|\n/g, ' ');
+  }
+
+  const needsQuotes = options.quoteAll || /[",\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One CSV line including the trailing CRLF (the RFC 4180 line ending)
+export function formatCsvRow(values: unknown[], options: CsvWriteOptions = {}) {
+  return values.map(value => formatCsvField(value, options)).join(',') + '\r\n';
+}
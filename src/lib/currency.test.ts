@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ExchangeRates, convertPrice, formatPrice, getProductCurrency, isCurrencyCode } from './currency';
+
+const rates: ExchangeRates = { USD: 1, EUR: 0.92, GBP: 0.79 };
+
+describe('convertPrice', () => {
+  it('goes through the base currency', () => {
+    expect(convertPrice(100, 'USD', 'EUR', rates)).toBeCloseTo(92);
+    expect(convertPrice(92, 'EUR', 'USD', rates)).toBeCloseTo(100);
+    expect(convertPrice(79, 'GBP', 'EUR', rates)).toBeCloseTo(92);
+  });
+
+  it('returns the same currency untouched', () => {
+    expect(convertPrice(0.1 + 0.2, 'EUR', 'EUR', { ...rates, EUR: 3 })).toBe(0.1 + 0.2);
+  });
+});
+
+describe('isCurrencyCode', () => {
+  it('only accepts the supported codes', () => {
+    expect(isCurrencyCode('GBP')).toBe(true);
+    expect(isCurrencyCode('gbp')).toBe(false);
+    expect(isCurrencyCode('JPY')).toBe(false);
+    expect(isCurrencyCode(undefined)).toBe(false);
+  });
+});
+
+describe('getProductCurrency', () => {
+  it('treats a missing currency as the base currency', () => {
+    expect(getProductCurrency({})).toBe('USD');
+    expect(getProductCurrency({ currency: null })).toBe('USD');
+    expect(getProductCurrency({ currency: 'EUR' })).toBe('EUR');
+  });
+});
+
+describe('formatPrice', () => {
+  it('formats for the given locale', () => {
+    expect(formatPrice(1234.5, 'USD', 'en-US')).toBe('$1,234.50');
+    expect(formatPrice(12, 'GBP', 'en-GB')).toBe('£12.00');
+  });
+});
@@ -0,0 +1,39 @@
+// Currencies, conversion and formatting - shared by the product services and the UI
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'EUR', 'GBP'];
+
+// Rates are stored against this one, and products from before currencies existed are priced in it
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+// Units of each currency per one BASE_CURRENCY, e.g. { USD: 1, EUR: 0.92, GBP: 0.79 }
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as string[]).includes(value);
+}
+
+export function getProductCurrency(product: { currency?: CurrencyCode | null }) {
+  return product.currency ?? BASE_CURRENCY;
+}
+
+// Same currency comes back untouched, so prices never pick up float noise for nothing
+export function convertPrice(amount: number, from: CurrencyCode, to: CurrencyCode, rates: ExchangeRates) {
+  if (from === to) return amount;
+  return (amount / rates[from]) * rates[to];
+}
+
+// Intl.NumberFormat is slow to build - keep one per currency/locale
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// e.g. $1,234.50, 1.234,50 €, £12.00 - laid out for the browser's locale unless one is given
+export function formatPrice(amount: number, currency: CurrencyCode, locale?: string) {
+  const key = `${locale ?? ''}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(amount);
+}
@@ -0,0 +1,12 @@
+// Hand a generated file to the browser as a download
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before freeing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
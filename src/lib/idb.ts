@@ -0,0 +1,95 @@
+// Tiny promise wrapper around IndexedDB - just enough for a few keyed object stores
+// Used for offline support, where localStorage's size limit and sync API don't cut it
+
+const DB_NAME = 'catalog-offline';
+const DB_VERSION = 2;
+// Every store is keyed by the records' `id`. Adding one means bumping DB_VERSION, so it gets created
+const STORE_NAMES = ['products', 'mutations', 'categories'] as const;
+
+export type IdbStoreName = typeof STORE_NAMES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A keyed collection of records in one object store
+// Without IndexedDB (private mode in some browsers, test runners) it quietly lives in memory only
+export function createIdbStore<T extends { id: string }>(storeName: IdbStoreName) {
+  const memory = new Map<string, T>();
+  const available = typeof indexedDB !== 'undefined';
+
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await openDatabase();
+    return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    async getAll(): Promise<T[]> {
+      if (!available) return [...memory.values()];
+      return withStore('readonly', store => store.getAll() as IDBRequest<T[]>);
+    },
+
+    async get(id: string): Promise<T | undefined> {
+      if (!available) return memory.get(id);
+      return withStore('readonly', store => store.get(id) as IDBRequest<T | undefined>);
+    },
+
+    async putMany(records: T[]) {
+      if (records.length === 0) return;
+      if (!available) {
+        records.forEach(record => memory.set(record.id, record));
+        return;
+      }
+      const db = await openDatabase();
+      const transaction = db.transaction(storeName, 'readwrite');
+      records.forEach(record => transaction.objectStore(storeName).put(record));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+
+    async put(record: T) {
+      return this.putMany([record]);
+    },
+
+    async delete(id: string) {
+      if (!available) {
+        memory.delete(id);
+        return;
+      }
+      await withStore('readwrite', store => store.delete(id));
+    },
+
+    async clear() {
+      if (!available) {
+        memory.clear();
+        return;
+      }
+      await withStore('readwrite', store => store.clear());
+    },
+  };
+}
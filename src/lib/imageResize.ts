@@ -0,0 +1,28 @@
+// Client-side image resizing so we never upload (or store) a 12 MB phone photo
+
+// Scale an image down to fit within maxSize x maxSize, keeping the aspect ratio
+// Images already smaller than that are re-encoded but not enlarged
+export async function resizeImage(file: Blob, maxSize: number, quality = 0.85): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image resizing is not supported in this browser');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // PNGs may rely on transparency, everything else becomes a (much smaller) JPEG
+  const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not process image'))),
+      type,
+      quality
+    );
+  });
+}
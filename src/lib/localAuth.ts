@@ -0,0 +1,36 @@
+import { User } from '@supabase/supabase-js';
+
+const STORAGE_KEY = 'catalog.localUser';
+
+// Stand-in for Supabase auth when running with VITE_BACKEND=local
+// Any email/password combination (or sign-in code) is accepted, and every email counts as verified -
+// this is for demos and tests only
+export const localAuth = {
+  getUser(): User | null {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as User) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  signIn(email: string): User {
+    const now = new Date().toISOString();
+    const user = {
+      id: `local-${email.toLowerCase()}`,
+      email,
+      aud: 'authenticated',
+      app_metadata: {},
+      user_metadata: {},
+      created_at: now,
+      email_confirmed_at: now,
+    } as User;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+    return user;
+  },
+
+  signOut() {
+    window.localStorage.removeItem(STORAGE_KEY);
+  },
+};
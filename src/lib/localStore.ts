@@ -0,0 +1,88 @@
+// Helpers for the local backend - small JSON collections persisted to localStorage
+
+// localStorage isn't there in every environment (SSR, some test runners) - fall back to memory only
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+// The browser refused a write - localStorage only holds a few MB per site, and photos fill it fast
+export class LocalStorageFullError extends Error {
+  constructor() {
+    super("There's no room left in this browser's storage - remove some products or images and try again");
+    this.name = 'LocalStorageFullError';
+  }
+}
+
+// Browsers disagree on the name (and old ones only set a code)
+function isQuotaError(err: unknown) {
+  return err instanceof DOMException &&
+    (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22);
+}
+
+function setStoredItem(storage: Storage, key: string, value: string) {
+  try {
+    storage.setItem(key, value);
+  } catch (err) {
+    throw isQuotaError(err) ? new LocalStorageFullError() : err;
+  }
+}
+
+// Throws LocalStorageFullError when `value` wouldn't fit next to what's already stored
+// For big things (images) that are better refused up front than when the record holding them is saved
+export function checkLocalStorageRoom(value: string) {
+  const storage = getStorage();
+  if (!storage) return;
+  const key = 'catalog.roomCheck';
+  setStoredItem(storage, key, value);
+  storage.removeItem(key);
+}
+
+export function generateId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// An array of records kept in memory and mirrored to localStorage under `key`
+// `seed` is used the first time (nothing stored yet) or if what's stored is unreadable
+export function createLocalCollection<T>(key: string, seed: T[] = []) {
+  let items: T[] | null = null;
+
+  // Another tab wrote to the same key - drop our copy so the next load() re-reads it
+  if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+    window.addEventListener('storage', event => {
+      if (event.key === key || event.key === null) items = null;
+    });
+  }
+
+  return {
+    load(): T[] {
+      if (items) return items;
+
+      const raw = getStorage()?.getItem(key);
+      try {
+        items = raw ? (JSON.parse(raw) as T[]) : [...seed];
+      } catch {
+        // Corrupted storage shouldn't brick the app
+        items = [...seed];
+      }
+      return items;
+    },
+
+    // Throws LocalStorageFullError if it doesn't fit - nothing changes then, in memory or stored
+    save(next: T[]) {
+      const storage = getStorage();
+      if (storage) setStoredItem(storage, key, JSON.stringify(next));
+      items = next;
+    },
+
+    // Forget the in-memory copy (e.g. when told another tab changed things)
+    invalidate() {
+      items = null;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyMerge, mergeFields } from './merge';
+
+type Draft = { name: string; price: number; tags: string[] };
+
+const base: Draft = { name: 'Lamp', price: 40, tags: ['home'] };
+
+describe('mergeFields', () => {
+  it('suggests whichever side changed a field', () => {
+    const mine = { ...base, name: 'Desk lamp' };
+    const theirs = { ...base, price: 45 };
+    const merged = mergeFields(base, mine, theirs, ['name', 'price', 'tags']);
+
+    expect(merged.map(({ field, suggested, conflict }) => [field, suggested, conflict])).toEqual([
+      ['name', 'mine', false],
+      ['price', 'theirs', false],
+      ['tags', 'mine', false],
+    ]);
+  });
+
+  it('flags a conflict when both sides changed a field differently', () => {
+    const [price] = mergeFields(base, { ...base, price: 42 }, { ...base, price: 45 }, ['price']);
+    expect(price).toMatchObject({ changedByMe: true, changedByThem: true, conflict: true, mine: 42, theirs: 45 });
+  });
+
+  it('makes no conflict of the same change on both sides', () => {
+    const [price] = mergeFields(base, { ...base, price: 45 }, { ...base, price: 45 }, ['price']);
+    expect(price.conflict).toBe(false);
+  });
+
+  it('compares arrays by value', () => {
+    const [tags] = mergeFields(base, { ...base, tags: ['home'] }, { ...base, tags: ['home', 'sale'] }, ['tags']);
+    expect(tags).toMatchObject({ changedByMe: false, changedByThem: true, suggested: 'theirs' });
+  });
+});
+
+describe('applyMerge', () => {
+  it('takes each field from the chosen side, mine by default', () => {
+    const mine = { ...base, name: 'Desk lamp', price: 42 };
+    const theirs = { ...base, price: 45, tags: ['sale'] };
+    expect(applyMerge(mine, theirs, { price: 'theirs', name: 'mine' })).toEqual({
+      name: 'Desk lamp',
+      price: 45,
+      tags: ['home'],
+    });
+  });
+});
@@ -0,0 +1,44 @@
+// Three-way merge for edits that raced someone else's save
+// base = what the editor loaded, mine = what they tried to save, theirs = what's stored now
+
+export type MergeSource = 'mine' | 'theirs';
+
+export type FieldMerge<T> = {
+  field: keyof T;
+  base: T[keyof T];
+  mine: T[keyof T];
+  theirs: T[keyof T];
+  changedByMe: boolean;
+  changedByThem: boolean;
+  conflict: boolean;          // Both sides changed it to different values - the user has to pick
+  suggested: MergeSource;     // Which side to take when there's no conflict
+};
+
+// Values here are plain data (strings, numbers, arrays of image records) so JSON is a fair comparison
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function mergeFields<T>(base: T, mine: T, theirs: T, fields: (keyof T)[]): FieldMerge<T>[] {
+  return fields.map(field => {
+    const changedByMe = !sameValue(base[field], mine[field]);
+    const changedByThem = !sameValue(base[field], theirs[field]);
+    return {
+      field,
+      base: base[field],
+      mine: mine[field],
+      theirs: theirs[field],
+      changedByMe,
+      changedByThem,
+      conflict: changedByMe && changedByThem && !sameValue(mine[field], theirs[field]),
+      suggested: changedByThem && !changedByMe ? 'theirs' : 'mine',
+    };
+  });
+}
+
+// Put the merged record together from a pick per field
+export function applyMerge<T>(mine: T, theirs: T, choices: Partial<Record<keyof T, MergeSource>>): T {
+  const merged = { ...mine };
+  for (const field of Object.keys(choices) as (keyof T)[]) {
+    if (choices[field] === 'theirs') merged[field] = theirs[field];
+  }
+  return merged;
+}
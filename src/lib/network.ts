@@ -0,0 +1,16 @@
+// Connectivity checks for offline mode
+
+// navigator.onLine only knows about the network adapter - a flaky Wi-Fi can still say true,
+// so failed requests are checked with isNetworkError as well
+export function isOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+// Did this fail because the server was unreachable (rather than saying no)?
+// fetch rejects with a TypeError whose wording differs per browser; services re-wrap it in
+// their own message, so look at the text
+export function isNetworkError(err: unknown) {
+  if (!isOnline()) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(message);
+}
@@ -0,0 +1,113 @@
+import { User } from '@supabase/supabase-js';
+import { isLocalBackend, ownerOnlyEdits } from './config';
+import { getSessionUser } from './session';
+import { Product } from './supabase';
+
+export type Role = 'admin' | 'editor' | 'viewer';
+
+export const ROLES: Role[] = ['admin', 'editor', 'viewer'];
+
+// Everything a role can be allowed to do - reading the catalog is open to every signed-in user
+export type Action =
+  | 'product:create'
+  | 'product:update'
+  | 'product:delete'
+  | 'product:restore'
+  | 'product:purge'
+  | 'product:import'
+  | 'trash:view'
+  | 'stock:adjust'
+  | 'category:manage'
+  | 'rates:manage';
+
+const ROLE_PERMISSIONS: Record<Role, Action[]> = {
+  admin: [
+    'product:create',
+    'product:update',
+    'product:delete',
+    'product:restore',
+    'product:purge',
+    'product:import',
+    'trash:view',
+    'stock:adjust',
+    'category:manage',
+    'rates:manage',
+  ],
+  editor: [
+    'product:create',
+    'product:update',
+    'product:delete',
+    'product:restore',
+    'product:import',
+    'trash:view',
+    'stock:adjust',
+  ],
+  viewer: [],
+};
+
+// Thrown by services when the signed-in user's role doesn't allow an action
+export class PermissionError extends Error {
+  readonly action: Action;
+  readonly role: Role | null;
+
+  constructor(action: Action, role: Role | null, message?: string) {
+    super(
+      message ?? (role
+        ? `Your role (${role}) doesn't allow ${action.replace(':', ' ')}`
+        : 'You need to be signed in to do that')
+    );
+    this.name = 'PermissionError';
+    this.action = action;
+    this.role = role;
+  }
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+// Role comes with the session: Supabase keeps it in app_metadata.role (only settable server-side)
+// Users without one are viewers until an admin promotes them
+// Local demo users get the role their email starts with (editor@..., viewer@...), admin otherwise
+export function getUserRole(user: User | null): Role | null {
+  if (!user) return null;
+
+  const assigned = user.app_metadata?.role;
+  if (isRole(assigned)) return assigned;
+
+  if (isLocalBackend) {
+    const prefix = user.email?.split('@')[0].toLowerCase();
+    return isRole(prefix) ? prefix : 'admin';
+  }
+  return 'viewer';
+}
+
+export function roleCan(role: Role | null, action: Action) {
+  return role !== null && ROLE_PERMISSIONS[role].includes(action);
+}
+
+// Service-side check so the UI isn't the only thing standing in the way
+export async function requirePermission(action: Action) {
+  const role = getUserRole(await getSessionUser());
+  if (!roleCan(role, action)) {
+    throw new PermissionError(action, role);
+  }
+}
+
+// Owner-only mode (VITE_OWNER_ONLY_EDITS): non-admins may only touch products they created
+export function canModifyProduct(user: User | null, role: Role | null, product: Pick<Product, 'created_by'>) {
+  if (!ownerOnlyEdits || role === 'admin') return true;
+  return user !== null && product.created_by === user.id;
+}
+
+// Role check plus the ownership rule for a specific product
+export async function requireProductAccess(action: Action, product: Pick<Product, 'created_by'>) {
+  const user = await getSessionUser();
+  const role = getUserRole(user);
+  if (!roleCan(role, action)) {
+    throw new PermissionError(action, role);
+  }
+  if (!canModifyProduct(user, role, product)) {
+    throw new PermissionError(action, role, 'Only the owner of this product can change it');
+  }
+}
@@ -0,0 +1,211 @@
+// The product schema: what a valid product looks like, and how its values get tidied up on the way in
+// ProductForm, the bulk import and productService all go through here, so the rules can't drift apart
+
+import {
+  AttributeDefinition,
+  AttributeInputs,
+  checkAttributeValues,
+  normalizeAttributes,
+} from './attributes';
+import { SUPPORTED_CURRENCIES, isCurrencyCode } from './currency';
+import { Product } from './supabase';
+
+export const productRules = {
+  name: { max: 200, required: 'Hey, we need a name for this product!' },
+  description: { max: 5000, required: 'Mind adding a quick description?' },
+  category: {
+    required: 'Please pick a category for this item',
+    unknown: "That category doesn't exist (any more?) - please pick another",
+    archived: 'That category is archived - please pick another',
+  },
+  price: { min: 0, message: "C'mon, price can't be negative!" },
+  currency: { message: `Prices can be in ${SUPPORTED_CURRENCIES.join(', ')}` },
+  sku: {
+    pattern: /^[A-Z0-9][A-Z0-9._-]{0,31}$/,
+    message: 'SKUs are up to 32 letters, digits, dots, dashes or underscores',
+  },
+  reorderThreshold: { min: 0, message: 'The reorder threshold should be a whole number, zero or more' },
+};
+
+// The fields people edit - the same shape productService accepts as a NewProduct
+export type ProductValues = Pick<
+  Product,
+  'name' | 'description' | 'category' | 'price' | 'currency' | 'sku' | 'reorder_threshold' |
+  'attributes' | 'images' | 'primary_image_id'
+>;
+
+export const PRODUCT_VALUE_FIELDS: (keyof ProductValues)[] = [
+  'name',
+  'description',
+  'category',
+  'price',
+  'currency',
+  'sku',
+  'reorder_threshold',
+  'attributes',
+  'images',
+  'primary_image_id',
+];
+
+// Just the editable fields of a product or a change - ids, versions, ownership and anything
+// storage computes (is_low_stock, ratings) are left behind, so they can never be written back
+export function pickProductValues(values: object): Partial<ProductValues> {
+  const picked: Record<string, unknown> = {};
+  PRODUCT_VALUE_FIELDS.forEach(field => {
+    if (field in values) picked[field] = (values as Record<string, unknown>)[field];
+  });
+  return picked as Partial<ProductValues>;
+}
+
+// Problems by field. Attribute problems are by attribute key, so each can sit under its own input
+export type ProductFieldErrors = Partial<Record<Exclude<keyof ProductValues, 'attributes'>, string>> & {
+  attributes?: Record<string, string>;
+};
+
+export type ProductValidation<T> = {
+  value: T;                   // Normalized - what should actually be saved
+  errors: ProductFieldErrors; // Empty when it's good to save
+};
+
+// Thrown by productService when a caller hands it a product that breaks the rules
+export class ProductValidationError extends Error {
+  readonly errors: ProductFieldErrors;
+
+  constructor(errors: ProductFieldErrors) {
+    super(describeProductErrors(errors));
+    this.name = 'ProductValidationError';
+    this.errors = errors;
+  }
+}
+
+export function hasProductErrors(errors: ProductFieldErrors) {
+  return Object.keys(errors).length > 0;
+}
+
+// Every problem in one line - for places without a field to put them under (import rows, thrown errors)
+export function describeProductErrors(errors: ProductFieldErrors) {
+  const { attributes, ...fields } = errors;
+  return [...Object.values(fields), ...Object.values(attributes ?? {})].join('. ');
+}
+
+// SKUs are compared and stored upper-case, so " ab-1" and "AB-1" are the same SKU
+export function normalizeSku(sku: string) {
+  return sku.trim().toUpperCase();
+}
+
+// Cents are as fine as prices go - 19.999 is stored as 20
+const roundToCents = (price: number) => Math.round(price * 100) / 100;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+// Check and tidy whichever fields `values` has - missing ones are left alone, so partial updates work too
+// Attributes are checked against `attributeSchema` (see getAttributeSchema); null skips those checks,
+// for when the categories can't be loaded
+export function validateProductFields<T extends Partial<ProductValues>>(
+  values: T,
+  attributeSchema: AttributeDefinition[] | null
+): ProductValidation<T> {
+  const value: Partial<ProductValues> = { ...values };
+  const errors: ProductFieldErrors = {};
+
+  if ('name' in values) {
+    value.name = String(values.name ?? '').trim();
+    if (!value.name) errors.name = productRules.name.required;
+    else if (value.name.length > productRules.name.max) {
+      errors.name = `Keep the name under ${productRules.name.max} characters`;
+    }
+  }
+
+  if ('description' in values) {
+    value.description = String(values.description ?? '').trim();
+    if (!value.description) errors.description = productRules.description.required;
+    else if (value.description.length > productRules.description.max) {
+      errors.description = `Descriptions are limited to ${productRules.description.max} characters`;
+    }
+  }
+
+  if ('category' in values) {
+    value.category = String(values.category ?? '').trim();
+    if (!value.category) errors.category = productRules.category.required;
+  }
+
+  if ('price' in values) {
+    if (typeof values.price !== 'number' || !Number.isFinite(values.price) || values.price < productRules.price.min) {
+      errors.price = productRules.price.message;
+    } else {
+      value.price = roundToCents(values.price);
+    }
+  }
+
+  // No currency means the base currency
+  if ('currency' in values) {
+    const currency = isBlank(values.currency) ? null : String(values.currency).trim().toUpperCase();
+    if (currency === null || isCurrencyCode(currency)) value.currency = currency;
+    else errors.currency = productRules.currency.message;
+  }
+
+  if ('sku' in values) {
+    value.sku = isBlank(values.sku) ? null : normalizeSku(String(values.sku));
+    if (value.sku && !productRules.sku.pattern.test(value.sku)) errors.sku = productRules.sku.message;
+  }
+
+  if ('reorder_threshold' in values) {
+    const threshold = values.reorder_threshold;
+    if (threshold === null || threshold === undefined) {
+      value.reorder_threshold = null;
+    } else if (!Number.isInteger(threshold) || threshold < productRules.reorderThreshold.min) {
+      errors.reorder_threshold = productRules.reorderThreshold.message;
+    }
+  }
+
+  if ('attributes' in values && attributeSchema) {
+    const attributes = normalizeAttributes(attributeSchema, values.attributes ?? {});
+    const attributeErrors = checkAttributeValues(attributeSchema, attributes);
+    if (Object.keys(attributeErrors).length > 0) errors.attributes = attributeErrors;
+    value.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+  }
+
+  // The primary image has to be one of the product's images
+  if ('primary_image_id' in values && 'images' in values && values.primary_image_id &&
+      !(values.images ?? []).some(image => image.id === values.primary_image_id)) {
+    value.primary_image_id = null;
+  }
+
+  return { value: value as T, errors };
+}
+
+// Product fields the way a form or a spreadsheet hands them to us - everything is text
+export type ProductDetails = {
+  name: string;
+  description: string;
+  category: string;
+  price: string;
+  currency: string;           // Optional - '' for the base currency
+  sku: string;                // Optional - '' for none
+  reorder_threshold: string;  // Optional - '' for no low-stock alert
+};
+
+// Text to typed values. Nothing is checked here - unusable numbers become NaN for the rules to catch,
+// and blank optional fields become null
+export function parseProductDetails(details: ProductDetails): Omit<ProductValues, 'attributes' | 'images' | 'primary_image_id'> {
+  return {
+    name: details.name,
+    description: details.description,
+    category: details.category,
+    price: details.price.trim() === '' ? NaN : Number(details.price),
+    currency: (details.currency.trim() || null) as ProductValues['currency'],
+    sku: details.sku.trim() || null,
+    reorder_threshold: details.reorder_threshold.trim() === '' ? null : Number(details.reorder_threshold),
+  };
+}
+
+// Text details (plus attribute inputs, when the category schema is known) through the rules
+export function validateProductDetails(
+  details: ProductDetails,
+  attributes?: { schema: AttributeDefinition[]; inputs: AttributeInputs }
+) {
+  const values = parseProductDetails(details);
+  return attributes
+    ? validateProductFields({ ...values, attributes: attributes.inputs }, attributes.schema)
+    : validateProductFields(values, null);
+}
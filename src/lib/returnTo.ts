@@ -0,0 +1,30 @@
+// Remembering where someone was headed when a route guard sent them off to sign in
+// Travels in router state between the auth pages, and as ?next= in links that come back by email
+
+type PathLike = { pathname: string; search?: string; hash?: string };
+
+export type ReturnToState = { from?: PathLike };
+
+export const DEFAULT_RETURN_TO = '/products';
+
+const AUTH_PAGES = ['/login', '/signup'];
+
+// Only paths inside the app - never another site ("//evil.com") or straight back to an auth page
+export function safeReturnTo(path: string | null | undefined) {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) return DEFAULT_RETURN_TO;
+  const pathname = path.split(/[?#]/)[0];
+  if (AUTH_PAGES.some(page => pathname === page || pathname.startsWith(`${page}/`))) return DEFAULT_RETURN_TO;
+  return path;
+}
+
+// Router state for a redirect to the sign-in page
+export function returnToState(location: PathLike): ReturnToState {
+  return { from: { pathname: location.pathname, search: location.search, hash: location.hash } };
+}
+
+// The path to go back to, from router state set by returnToState (anything else means the default)
+export function readReturnTo(state: unknown) {
+  const from = (state as ReturnToState | null)?.from;
+  if (!from || typeof from.pathname !== 'string') return DEFAULT_RETURN_TO;
+  return safeReturnTo(`${from.pathname}${from.search ?? ''}${from.hash ?? ''}`);
+}
@@ -0,0 +1,13 @@
+import { User } from '@supabase/supabase-js';
+import { isLocalBackend } from './config';
+import { getSupabase } from './supabase';
+import { localAuth } from './localAuth';
+
+// The signed-in user as services see it - the same session AuthContext exposes through useAuth()
+// Reads the locally cached session, no network round trip
+export async function getSessionUser(): Promise<User | null> {
+  if (isLocalBackend) return localAuth.getUser();
+
+  const { data: { session } } = await getSupabase().auth.getSession();
+  return session?.user ?? null;
+}
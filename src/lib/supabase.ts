@@ -1,25 +1,126 @@
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-export type Product = {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  price: number;
-  rating: number;
-  created_at: string;
-};
-
-export type User = {
-  id: string;
-  email: string;
-};
\ No newline at end of file
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CurrencyCode } from './currency';
+import { AttributeDefinition, ProductAttributes } from './attributes';
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+let client: SupabaseClient | null = null;
+
+// Create the client on first use so the app can boot without Supabase env vars
+// (e.g. when running against the local backend)
+export function getSupabase() {
+  if (!client) {
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+}
+
+// One picture of a product - the full-size image plus a small thumbnail for cards
+export type ProductImage = {
+  id: string;
+  url: string;
+  thumbnail_url: string;
+  path: string;            // Storage keys, needed to delete the files again
+  thumbnail_path: string;
+};
+
+export type Product = {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  currency?: CurrencyCode | null; // What `price` is in (missing on old rows = BASE_CURRENCY)
+  rating: number;              // Average stars across its reviews, 0 until someone reviews it
+  review_count?: number;       // How many reviews the rating averages (missing on old rows = 0)
+  sku?: string | null;         // Stock keeping unit - unique across the catalog, stored upper-case
+  stock_on_hand?: number;      // Only ever changed through a StockAdjustment (missing on old rows = 0)
+  reorder_threshold?: number | null; // Low stock once stock_on_hand drops to this; null = not tracked
+  attributes?: ProductAttributes | null; // Values for its category's attribute schema, by key
+  images?: ProductImage[];     // In display order
+  primary_image_id?: string | null; // Shown on cards; falls back to the first image
+  created_at: string;
+  version?: number;           // Bumped on every update - the concurrency token (missing on old rows = 0)
+  deleted_at?: string | null; // Set when the product is in the trash
+  created_by?: string | null;       // User id of whoever added it
+  created_by_email?: string | null; // Kept alongside so cards can show the owner without a user lookup
+  updated_by?: string | null;       // User id of the last editor
+};
+
+// Products point at categories by name, so names are unique (case-insensitive)
+export type Category = {
+  id: string;
+  name: string;
+  parent_id: string | null;    // null for top-level categories
+  sort_order: number;          // Position among its siblings
+  archived_at: string | null;  // Archived categories can't be picked for new products
+  attributes?: AttributeDefinition[]; // Extra product fields - subcategories get their parents' too
+  created_at: string;
+};
+
+// A named product search - filters and sort kept as the list page's query string
+// Private to the user who saved it; sharing is done by sending the link
+export type SavedSearch = {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;               // e.g. "category=Books&max_price=20&min_rating=4"
+  pinned: boolean;             // Pinned ones get a shortcut in the filter bar
+  created_at: string;
+};
+
+// One user's review of a product - a user gets at most one per product
+export type Review = {
+  id: string;
+  product_id: string;
+  user_id: string;
+  user_email: string | null;   // Shown as the author, so the list needs no user lookup
+  stars: number;               // 1 to 5
+  title: string;
+  body: string;
+  helpful_count: number;       // How many other users found it helpful
+  created_at: string;
+  updated_at: string | null;   // Set once the author edits it
+};
+
+export type StockAdjustmentKind = 'receive' | 'sell' | 'correct';
+
+// One recorded change to a product's stock - the audit trail behind stock_on_hand
+export type StockAdjustment = {
+  id: string;
+  product_id: string;
+  kind: StockAdjustmentKind;
+  quantity: number;            // Signed change: + for receive, - for sell, either for a correction
+  stock_after: number;         // stock_on_hand right after this adjustment
+  reason: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+};
+
+// How many units of `currency` one BASE_CURRENCY buys - maintained by admins, not fetched
+export type ExchangeRate = {
+  currency: CurrencyCode;
+  rate: number;
+  updated_at: string;
+  updated_by_email: string | null;
+};
+
+// A signed-in browser, as listed on the account page - one per browser, shared by its tabs
+export type UserSession = {
+  id: string;
+  user_id: string;
+  user_agent: string;
+  created_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;   // Set when signed out (or revoked from another session)
+};
+
+export type User = {
+  id: string;
+  email: string;
+};
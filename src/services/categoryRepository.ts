@@ -0,0 +1,14 @@
+import { Category } from '../lib/supabase';
+
+export type NewCategory = Pick<Category, 'name' | 'parent_id' | 'sort_order'>;
+export type CategoryUpdate = Partial<Pick<Category, 'name' | 'parent_id' | 'sort_order' | 'archived_at' | 'attributes'>>;
+
+// Storage for the category list - small enough to always load in full
+export type CategoryRepository = {
+  list(): Promise<Category[]>;
+  create(category: NewCategory): Promise<Category>;
+  update(id: string, updates: CategoryUpdate): Promise<Category>;
+  // New name, with every product in the category moved over to it - all or nothing
+  // The moved products get a version bump, so edits made against the old name conflict
+  rename(id: string, name: string): Promise<Category>;
+};
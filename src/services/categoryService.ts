@@ -0,0 +1,165 @@
+import { isLocalBackend } from '../lib/config';
+import { createIdbStore } from '../lib/idb';
+import { isNetworkError, isOnline } from '../lib/network';
+import { requirePermission } from '../lib/permissions';
+import { Category } from '../lib/supabase';
+import { AttributeDefinition, checkAttributeSchema } from '../lib/attributes';
+import { childrenOf, findCategoryByName } from '../lib/categoryTree';
+import { CategoryRepository } from './categoryRepository';
+import { supabaseCategoryRepository } from './supabaseCategoryRepository';
+import { localCategoryRepository } from './localCategoryRepository';
+
+export type { CategoryNode } from '../lib/categoryTree';
+export {
+  findCategoryByName,
+  flattenCategoryTree,
+  getAttributeSchema,
+  getCategoryNamesWithin,
+  getCategoryPath,
+} from '../lib/categoryTree';
+
+const repository: CategoryRepository = isLocalBackend
+  ? localCategoryRepository
+  : supabaseCategoryRepository;
+
+// The whole list as last read, so the product form still has categories (and their attribute
+// schemas) offline - the same idea as productService's cached catalog
+const offlineCache = createIdbStore<Category>('categories');
+
+// Replaces the cached list, so categories deleted since don't linger. Best effort, like the products
+async function cacheCategories(categories: Category[]) {
+  try {
+    await offlineCache.clear();
+    await offlineCache.putMany(categories);
+  } catch (err) {
+    console.error('Offline cache error:', err);
+  }
+}
+
+async function getCachedCategories() {
+  const categories = await offlineCache.getAll();
+  if (categories.length === 0) throw new Error("Categories aren't available offline yet");
+  return categories.sort((a, b) => a.sort_order - b.sort_order);
+}
+
+// Product categories as data - managed on the Categories admin screen
+export const categoryService = {
+  // From storage when it's reachable, otherwise the cached copy
+  async getCategories() {
+    if (!isOnline()) return getCachedCategories();
+    try {
+      const categories = await repository.list();
+      await cacheCategories(categories);
+      return categories;
+    } catch (err) {
+      // Nothing cached to fall back on - the network error says more than "not available offline"
+      if (isNetworkError(err)) return getCachedCategories().catch(() => { throw err; });
+      throw err;
+    }
+  },
+
+  // Sign-out (and another user's data being claimed) - see syncService
+  async clearOfflineCache() {
+    await offlineCache.clear();
+  },
+
+  async createCategory(name: string, parentId: string | null) {
+    await requirePermission('category:manage');
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Category name is required');
+
+    const categories = await repository.list();
+    if (findCategoryByName(categories, trimmed)) {
+      throw new Error(`A category called "${trimmed}" already exists`);
+    }
+
+    // New categories go to the end of their level
+    const siblings = childrenOf(categories, parentId);
+    const sortOrder = siblings.length > 0 ? siblings[siblings.length - 1].sort_order + 1 : 0;
+    return repository.create({ name: trimmed, parent_id: parentId, sort_order: sortOrder });
+  },
+
+  // Products refer to categories by name, so they're moved over to the new name too
+  async renameCategory(id: string, name: string) {
+    await requirePermission('category:manage');
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Category name is required');
+
+    const categories = await repository.list();
+    const category = categories.find(c => c.id === id);
+    if (!category) throw new Error(`Category ${id} not found`);
+    if (category.name === trimmed) return category;
+
+    const clash = findCategoryByName(categories, trimmed);
+    if (clash && clash.id !== id) {
+      throw new Error(`A category called "${trimmed}" already exists`);
+    }
+
+    return repository.rename(id, trimmed);
+  },
+
+  // Swap places with the previous (-1) or next (+1) sibling
+  async moveCategory(id: string, offset: -1 | 1) {
+    await requirePermission('category:manage');
+    const categories = await repository.list();
+    const category = categories.find(c => c.id === id);
+    if (!category) throw new Error(`Category ${id} not found`);
+
+    const siblings = childrenOf(categories, category.parent_id);
+    const index = siblings.findIndex(c => c.id === id);
+    const neighbour = siblings[index + offset];
+    if (!neighbour) return;
+
+    // Renumber the whole level so duplicate sort_orders can't make swaps a no-op
+    const reordered = [...siblings];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    await Promise.all(
+      reordered
+        .map((sibling, position) => ({ sibling, position }))
+        .filter(({ sibling, position }) => sibling.sort_order !== position)
+        .map(({ sibling, position }) => repository.update(sibling.id, { sort_order: position }))
+    );
+  },
+
+  // Move under another category (or to the top level with null)
+  async setParent(id: string, parentId: string | null) {
+    await requirePermission('category:manage');
+    const categories = await repository.list();
+
+    // No cycles: the new parent can't be the category itself or anything inside it
+    let ancestorId = parentId;
+    while (ancestorId) {
+      if (ancestorId === id) throw new Error('A category cannot be moved inside itself');
+      ancestorId = categories.find(c => c.id === ancestorId)?.parent_id ?? null;
+    }
+
+    const siblings = childrenOf(categories, parentId);
+    const sortOrder = siblings.length > 0 ? siblings[siblings.length - 1].sort_order + 1 : 0;
+    return repository.update(id, { parent_id: parentId, sort_order: sortOrder });
+  },
+
+  // Replace the category's attribute schema. Values already on products are kept, so taking a field
+  // away and adding it back doesn't lose anything
+  async setAttributes(id: string, attributes: AttributeDefinition[]) {
+    await requirePermission('category:manage');
+    const cleaned = attributes.map(({ key, label, type, required, unit, options, min, max }) => ({
+      key: key.trim(),
+      label: label.trim(),
+      type,
+      ...(type !== 'boolean' && required ? { required: true } : {}),
+      ...(type === 'number' && unit?.trim() ? { unit: unit.trim() } : {}),
+      ...(type === 'enum' ? { options: [...new Set((options ?? []).map(option => option.trim()).filter(Boolean))] } : {}),
+      ...((type === 'number' || type === 'text') && min !== undefined ? { min } : {}),
+      ...((type === 'number' || type === 'text') && max !== undefined ? { max } : {}),
+    }));
+    const problem = checkAttributeSchema(cleaned);
+    if (problem) throw new Error(problem);
+    return repository.update(id, { attributes: cleaned });
+  },
+
+  // Archived categories stay on existing products but can't be picked for new ones
+  async setArchived(id: string, archived: boolean) {
+    await requirePermission('category:manage');
+    return repository.update(id, { archived_at: archived ? new Date().toISOString() : null });
+  },
+};
@@ -0,0 +1,102 @@
+import { isLocalBackend } from '../lib/config';
+import {
+  BASE_CURRENCY,
+  CurrencyCode,
+  ExchangeRates,
+  SUPPORTED_CURRENCIES,
+  isCurrencyCode,
+} from '../lib/currency';
+import { requirePermission } from '../lib/permissions';
+import { getSessionUser } from '../lib/session';
+import { ExchangeRate } from '../lib/supabase';
+import { ExchangeRateRepository } from './exchangeRateRepository';
+import { supabaseExchangeRateRepository } from './supabaseExchangeRateRepository';
+import { localExchangeRateRepository } from './localExchangeRateRepository';
+
+const repository: ExchangeRateRepository = isLocalBackend
+  ? localExchangeRateRepository
+  : supabaseExchangeRateRepository;
+
+// A display preference, so it stays with the browser rather than the account
+const DISPLAY_CURRENCY_KEY = 'catalog.displayCurrency';
+
+export type CurrencyState = {
+  displayCurrency: CurrencyCode;
+  rates: ExchangeRates | null;    // null until loaded, or when a currency has no rate - prices then show as stored
+  rateRows: ExchangeRate[];       // The table as stored, for the admin screen
+};
+
+function readDisplayCurrency(): CurrencyCode {
+  try {
+    const stored = localStorage.getItem(DISPLAY_CURRENCY_KEY);
+    return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+  } catch {
+    return BASE_CURRENCY;
+  }
+}
+
+// Rows to a lookup - only usable once every supported currency has a rate
+function toRates(rows: ExchangeRate[]): ExchangeRates | null {
+  const rates = { [BASE_CURRENCY]: 1 } as ExchangeRates;
+  for (const row of rows) {
+    if (isCurrencyCode(row.currency) && row.currency !== BASE_CURRENCY && row.rate > 0) rates[row.currency] = row.rate;
+  }
+  return SUPPORTED_CURRENCIES.every(currency => rates[currency] > 0) ? rates : null;
+}
+
+let state: CurrencyState = { displayCurrency: readDisplayCurrency(), rates: null, rateRows: [] };
+let loadingRates: Promise<void> | null = null;
+const listeners = new Set<(state: CurrencyState) => void>();
+
+function setState(changes: Partial<CurrencyState>) {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+}
+
+// Display currency and exchange rates - every price on screen goes through these
+export const currencyService = {
+  getState() {
+    return state;
+  },
+
+  // The first subscriber triggers loading the rates
+  subscribe(listener: (state: CurrencyState) => void) {
+    listeners.add(listener);
+    if (!loadingRates) {
+      loadingRates = currencyService.reloadRates().catch(err => {
+        loadingRates = null; // Try again with the next subscriber
+        console.error('Exchange rate fetch error:', err);
+      });
+    }
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  async reloadRates() {
+    const rows = await repository.list();
+    setState({ rateRows: rows, rates: toRates(rows) });
+  },
+
+  setDisplayCurrency(currency: CurrencyCode) {
+    try {
+      localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+    } catch {
+      // Private mode etc. - it still applies for this visit
+    }
+    setState({ displayCurrency: currency });
+  },
+
+  // Admins keep the table current. The base currency is always 1
+  async setRate(currency: CurrencyCode, rate: number) {
+    await requirePermission('rates:manage');
+    if (currency === BASE_CURRENCY) throw new Error(`${BASE_CURRENCY} is the base currency - its rate is always 1`);
+    if (!Number.isFinite(rate) || rate <= 0) throw new Error('Rates have to be more than zero');
+
+    const user = await getSessionUser();
+    const saved = await repository.set(currency, rate, user?.email ?? null);
+    const rows = [...state.rateRows.filter(row => row.currency !== currency), saved];
+    setState({ rateRows: rows, rates: toRates(rows) });
+    return saved;
+  },
+};
@@ -0,0 +1,8 @@
+import { CurrencyCode } from '../lib/currency';
+import { ExchangeRate } from '../lib/supabase';
+
+// Storage for the exchange-rate table - one row per currency
+export type ExchangeRateRepository = {
+  list(): Promise<ExchangeRate[]>;
+  set(currency: CurrencyCode, rate: number, updatedByEmail: string | null): Promise<ExchangeRate>;
+};
@@ -0,0 +1,98 @@
+import { CsvWriteOptions, formatCsvRow } from '../lib/csv';
+import { Product } from '../lib/supabase';
+import { ProductFilter } from './productRepository';
+import { productService } from './productService';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export type ExportColumn = keyof Product;
+
+export const EXPORT_COLUMNS: { column: ExportColumn; label: string }[] = [
+  { column: 'id', label: 'ID' },
+  { column: 'name', label: 'Name' },
+  { column: 'description', label: 'Description' },
+  { column: 'category', label: 'Category' },
+  { column: 'price', label: 'Price' },
+  { column: 'currency', label: 'Currency' },
+  { column: 'rating', label: 'Rating' },
+  { column: 'review_count', label: 'Reviews' },
+  { column: 'sku', label: 'SKU' },
+  { column: 'stock_on_hand', label: 'Stock on hand' },
+  { column: 'reorder_threshold', label: 'Reorder threshold' },
+  { column: 'attributes', label: 'Attributes' },
+  { column: 'created_at', label: 'Created at' },
+  { column: 'created_by_email', label: 'Owner' },
+];
+
+export type ExportOptions = {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  csv?: CsvWriteOptions;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+// Bigger pages than the UI uses - fewer round trips for a full export
+const EXPORT_PAGE_SIZE = 200;
+
+function pickColumns(product: Product, columns: ExportColumn[]) {
+  const row: Partial<Record<ExportColumn, unknown>> = {};
+  columns.forEach(column => {
+    row[column] = product[column] ?? null;
+  });
+  return row;
+}
+
+// Turns the filtered catalog into a downloadable file
+export const exportService = {
+  // Pulls every matching product page by page (not just what's loaded on screen)
+  // and builds the file in chunks; onProgress gets the running count
+  async exportProducts(
+    filters: ProductFilter,
+    options: ExportOptions,
+    onProgress?: (exported: number) => void
+  ) {
+    const { format, columns } = options;
+    const chunks: string[] = [];
+    let exported = 0;
+
+    if (format === 'csv') {
+      const labels = columns.map(column => EXPORT_COLUMNS.find(c => c.column === column)?.label ?? column);
+      chunks.push(formatCsvRow(labels, options.csv));
+    } else if (format === 'json') {
+      chunks.push('[\n');
+    }
+
+    for await (const product of productService.iterateProducts({ ...filters, limit: EXPORT_PAGE_SIZE })) {
+      const row = pickColumns(product, columns);
+
+      if (format === 'csv') {
+        chunks.push(formatCsvRow(columns.map(column => row[column]), options.csv));
+      } else if (format === 'json') {
+        // Pretty-printed, indented one level inside the array
+        const json = JSON.stringify(row, null, 2).replace(/\n/g, '\n  ');
+        chunks.push(`${exported > 0 ? ',\n' : ''}  ${json}`);
+      } else {
+        chunks.push(JSON.stringify(row) + '\n');
+      }
+
+      exported++;
+      if (exported % EXPORT_PAGE_SIZE === 0) onProgress?.(exported);
+    }
+
+    if (format === 'json') {
+      chunks.push(exported > 0 ? '\n]\n' : ']\n');
+    }
+    onProgress?.(exported);
+
+    return {
+      blob: new Blob(chunks, { type: MIME_TYPES[format] }),
+      count: exported,
+      fileName: `products-${new Date().toISOString().slice(0, 10)}.${format}`,
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { isLocalBackend } from '../lib/config';
+import { resizeImage } from '../lib/imageResize';
+import { generateId } from '../lib/localStore';
+import { Product, ProductImage } from '../lib/supabase';
+import { ImageStorage } from './imageStorage';
+import { supabaseImageStorage } from './supabaseImageStorage';
+import { localImageStorage } from './localImageStorage';
+
+const storage: ImageStorage = isLocalBackend ? localImageStorage : supabaseImageStorage;
+
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 320;
+const MAX_FILE_BYTES = 15 * 1024 * 1024;
+
+// The image shown on cards: the chosen primary one, else the first
+export function getPrimaryImage(product: Pick<Product, 'images' | 'primary_image_id'>) {
+  const images = product.images ?? [];
+  return images.find(image => image.id === product.primary_image_id) ?? images[0] ?? null;
+}
+
+// Product photos - resized in the browser, then handed to storage
+export const imageService = {
+  // Resize into a full-size image and a thumbnail and upload both
+  async uploadProductImage(file: File): Promise<ProductImage> {
+    if (!file.type.startsWith('image/')) {
+      throw new Error(`${file.name} is not an image`);
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      throw new Error(`${file.name} is too large (15 MB max)`);
+    }
+
+    const [full, thumbnail] = await Promise.all([
+      resizeImage(file, FULL_SIZE),
+      resizeImage(file, THUMBNAIL_SIZE, 0.8),
+    ]);
+
+    const id = generateId();
+    const extension = full.type === 'image/png' ? 'png' : 'jpg';
+    const path = `products/${id}.${extension}`;
+    const thumbnailPath = `products/${id}-thumb.${extension}`;
+
+    const [url, thumbnailUrl] = await Promise.all([
+      storage.upload(path, full),
+      storage.upload(thumbnailPath, thumbnail),
+    ]);
+
+    return { id, url, thumbnail_url: thumbnailUrl, path, thumbnail_path: thumbnailPath };
+  },
+
+  // Delete uploaded files that never made it onto a saved product
+  // Images of saved products are kept even when removed - older revisions still point at them
+  async discardImages(images: ProductImage[]) {
+    await storage.remove(images.flatMap(image => [image.path, image.thumbnail_path]));
+  },
+};
@@ -0,0 +1,5 @@
+// Where product images live - Supabase Storage or a local stand-in
+export type ImageStorage = {
+  upload(path: string, file: Blob): Promise<string>; // Returns a URL the browser can load
+  remove(paths: string[]): Promise<void>;
+};
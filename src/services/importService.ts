@@ -0,0 +1,334 @@
+import { AttributeDefinition, AttributeInputs, toAttributeInputs } from '../lib/attributes';
+import { parseCsvRecords } from '../lib/csv';
+import {
+  ProductDetails,
+  describeProductErrors,
+  hasProductErrors,
+  normalizeSku,
+  validateProductDetails,
+} from '../lib/productSchema';
+import { Category, Product } from '../lib/supabase';
+import { categoryService, findCategoryByName, getAttributeSchema } from './categoryService';
+import { NewProduct } from './productRepository';
+import { productService, getProductVersion } from './productService';
+
+export type ImportFormat = 'csv' | 'json';
+
+// 'create' skips rows whose product already exists, 'upsert' updates them instead
+export type ImportMode = 'create' | 'upsert';
+
+export type ImportField = keyof ProductDetails;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Category' },
+  { field: 'price', label: 'Price' },
+  { field: 'currency', label: 'Currency' },
+  { field: 'sku', label: 'SKU' },
+  { field: 'reorder_threshold', label: 'Reorder threshold' },
+];
+
+// Which source column feeds each product field ('' = not mapped)
+export type ColumnMapping = Record<ImportField, string>;
+
+export type ParsedImport = {
+  columns: string[];
+  rows: Record<string, string>[];
+  rowNumbers: number[];       // Where each row is in the file - see ImportPreviewRow.rowNumber
+};
+
+export type ImportRowStatus = 'create' | 'update' | 'skip' | 'invalid';
+
+export type ImportPreviewRow = {
+  rowNumber: number;          // Where the row is in the file: its line for CSV (the header is line 1, as in a
+                              // spreadsheet - blank lines count), its position in the array for JSON
+  details: ProductDetails;
+  attributes: AttributeInputs;  // From columns named after the category's attributes (see readAttributes),
+                                // on top of the existing product's for an 'update'
+  status: ImportRowStatus;
+  errors: string[];
+  reason?: string;            // Why a row is skipped
+  existingId?: string;        // Product that an 'update' row will overwrite
+  existingVersion?: number;   // Its version at preview time - changed since means a conflict
+};
+
+export type ImportSummary = {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: { rowNumber: number; message: string }[];
+};
+
+// Header names we recognise without the user having to map them by hand
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'product', 'product name', 'title'],
+  description: ['description', 'desc', 'details'],
+  category: ['category', 'type', 'department'],
+  price: ['price', 'cost', 'amount', 'unit price'],
+  currency: ['currency', 'currency code', 'ccy'],
+  sku: ['sku', 'item number', 'item code', 'product code'],
+  reorder_threshold: ['reorder threshold', 'reorder point', 'reorder level', 'min stock'],
+};
+
+// Supabase rejects huge payloads, and a failing chunk should only take its own rows down
+const INSERT_BATCH_SIZE = 50;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+function toCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function parseJsonRows(text: string): ParsedImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('That file is not valid JSON');
+  }
+
+  // Accept a bare array or { "products": [...] }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { products?: unknown })?.products;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a JSON array of products');
+  }
+
+  const columns: string[] = [];
+  const rows = list.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Entry ${index + 1} is not an object`);
+    }
+    const row: Record<string, string> = {};
+    Object.entries(item).forEach(([key, value]) => {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] = toCell(value);
+    });
+    return row;
+  });
+
+  return { columns, rows, rowNumbers: rows.map((_, index) => index + 1) };
+}
+
+function parseCsvRows(text: string): ParsedImport {
+  const [header, ...body] = parseCsvRecords(text);
+  if (!header) throw new Error('The CSV file is empty');
+
+  const columns = header.fields.map(column => column.trim());
+  const rows = body.map(({ fields }) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = fields[index] ?? '';
+    });
+    return row;
+  });
+
+  return { columns, rows, rowNumbers: body.map(record => record.line) };
+}
+
+// Match free-typed categories ("books", " Books ") to the real, non-archived ones
+function resolveCategory(categories: Category[], category: string) {
+  const match = findCategoryByName(categories, category);
+  return match && !match.archived_at ? match.name : undefined;
+}
+
+// Attribute values come from columns named after the attribute's key or label ("warranty_months",
+// "Warranty") - there's no mapping step for them since they differ per category
+function readAttributes(row: Record<string, string>, schema: AttributeDefinition[]) {
+  const byColumn = new Map(Object.keys(row).map(column => [column.trim().toLowerCase(), column]));
+  const inputs: AttributeInputs = {};
+  schema.forEach(definition => {
+    const column = byColumn.get(definition.key) ?? byColumn.get(definition.label.trim().toLowerCase());
+    if (column && row[column].trim()) inputs[definition.key] = row[column];
+  });
+  return inputs;
+}
+
+// Rows go through the same schema as ProductForm, then productService checks them again on the way in
+// A blank currency, SKU or threshold leaves the product's current one alone rather than clearing it
+// (new products without a currency are priced in the base currency), and so does a blank attribute
+function toNewProduct(row: ImportPreviewRow): NewProduct {
+  const { value } = validateProductDetails(row.details);
+  return {
+    name: value.name,
+    description: value.description,
+    category: value.category,
+    price: value.price,
+    ...(value.currency ? { currency: value.currency } : {}),
+    ...(value.sku ? { sku: value.sku } : {}),
+    ...(value.reorder_threshold !== null ? { reorder_threshold: value.reorder_threshold } : {}),
+    ...(Object.keys(row.attributes).length > 0 ? { attributes: row.attributes } : {}),
+  };
+}
+
+// Bulk product import: parse, map columns, validate (dry run), then write
+export const importService = {
+  detectFormat(fileName: string, text: string): ImportFormat {
+    if (/\.json$/i.test(fileName)) return 'json';
+    if (/\.csv$/i.test(fileName)) return 'csv';
+    // No useful extension (e.g. pasted text) - sniff the content
+    return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+  },
+
+  parse(text: string, format: ImportFormat): ParsedImport {
+    return format === 'json' ? parseJsonRows(text) : parseCsvRows(text);
+  },
+
+  // Best guess at which column is which, based on header names
+  guessMapping(columns: string[]): ColumnMapping {
+    const mapping = {} as ColumnMapping;
+    IMPORT_FIELDS.forEach(({ field }) => {
+      mapping[field] = columns.find(
+        column => COLUMN_ALIASES[field].includes(column.trim().toLowerCase())
+      ) ?? '';
+    });
+    return mapping;
+  },
+
+  // Dry run: validate every row with the same rules as ProductForm and work out what would happen
+  // Nothing is written here
+  async preview(parsed: ParsedImport, mapping: ColumnMapping, mode: ImportMode): Promise<ImportPreviewRow[]> {
+    const existingByName = new Map<string, Product>();
+    const existingBySku = new Map<string, Product>();
+    for await (const product of productService.iterateProducts({ limit: 200 })) {
+      existingByName.set(normalizeName(product.name), product);
+      if (product.sku) existingBySku.set(normalizeSku(product.sku), product);
+    }
+
+    const categories = await categoryService.getCategories();
+    const namesInFile = new Set<string>();
+    const skusInFile = new Set<string>();
+
+    return parsed.rows.map((row, index) => {
+      const rawCategory = mapping.category ? row[mapping.category] ?? '' : '';
+      const category = resolveCategory(categories, rawCategory);
+      const details: ProductDetails = {
+        name: mapping.name ? row[mapping.name] ?? '' : '',
+        description: mapping.description ? row[mapping.description] ?? '' : '',
+        category: category ?? rawCategory,
+        price: mapping.price ? row[mapping.price] ?? '' : '',
+        currency: mapping.currency ? row[mapping.currency] ?? '' : '',
+        sku: mapping.sku ? row[mapping.sku] ?? '' : '',
+        reorder_threshold: mapping.reorder_threshold ? row[mapping.reorder_threshold] ?? '' : '',
+      };
+      const rowNumber = parsed.rowNumbers[index];
+      const schema = category ? getAttributeSchema(categories, category) : [];
+      const attributes = readAttributes(row, schema);
+
+      const errors: string[] = [];
+      const fieldErrors = validateProductDetails(details).errors;
+      if (hasProductErrors(fieldErrors)) errors.push(describeProductErrors(fieldErrors));
+      if (rawCategory.trim() && !category) {
+        errors.push(`Unknown category "${rawCategory.trim()}"`);
+      }
+      if (errors.length > 0) {
+        return { rowNumber, details, attributes, status: 'invalid', errors };
+      }
+
+      const name = normalizeName(details.name);
+      const sku = normalizeSku(details.sku);
+      if (sku && skusInFile.has(sku)) {
+        return { rowNumber, details, attributes, status: 'skip', errors, reason: 'Duplicate SKU earlier in the file' };
+      }
+      if (namesInFile.has(name)) {
+        return { rowNumber, details, attributes, status: 'skip', errors, reason: 'Duplicate name earlier in the file' };
+      }
+      namesInFile.add(name);
+      if (sku) skusInFile.add(sku);
+
+      // The SKU is the better match when the row has one - a same-named product
+      // only counts if it has no SKU yet (or the same one)
+      const byName = existingByName.get(name);
+      const existing = (sku ? existingBySku.get(sku) : undefined) ??
+        (byName && (!sku || !byName.sku || normalizeSku(byName.sku) === sku) ? byName : undefined);
+      // Attributes are checked as the product will end up, the way productService will check them -
+      // an update keeps the ones the row leaves blank, and only has them checked if it touches them
+      // or moves the product to another category
+      let rowAttributes = attributes;
+      let checked: AttributeInputs | null = existing ? null : attributes;   // null - nothing to check
+      if (existing && mode === 'upsert') {
+        const current = toAttributeInputs(existing.attributes);
+        if (Object.keys(attributes).length > 0) checked = rowAttributes = { ...current, ...attributes };
+        else if (existing.category !== details.category) checked = current;
+      }
+      const attributeErrors = checked && validateProductDetails(details, { schema, inputs: checked }).errors.attributes;
+      if (attributeErrors) {
+        return { rowNumber, details, attributes, status: 'invalid', errors: Object.values(attributeErrors) };
+      }
+
+      if (existing) {
+        return mode === 'upsert'
+          ? {
+              rowNumber,
+              details,
+              attributes: rowAttributes,
+              status: 'update',
+              errors,
+              existingId: existing.id,
+              existingVersion: getProductVersion(existing),
+            }
+          : {
+              rowNumber,
+              details,
+              attributes,
+              status: 'skip',
+              errors,
+              reason: sku && existingBySku.has(sku)
+                ? 'A product with this SKU already exists'
+                : 'A product with this name already exists',
+            };
+      }
+
+      return { rowNumber, details, attributes, status: 'create', errors };
+    });
+  },
+
+  // Write what the preview said would happen
+  // New products go in batches; a failing batch is tried again a row at a time, so only the rows
+  // that are really rejected fail (each with its own reason)
+  async run(preview: ImportPreviewRow[]): Promise<ImportSummary> {
+    const summary: ImportSummary = { created: 0, updated: 0, skipped: 0, failed: [] };
+
+    const toCreate = preview.filter(row => row.status === 'create');
+    for (let start = 0; start < toCreate.length; start += INSERT_BATCH_SIZE) {
+      const batch = toCreate.slice(start, start + INSERT_BATCH_SIZE);
+      try {
+        const created = await productService.createProducts(batch.map(toNewProduct));
+        summary.created += created.length;
+      } catch {
+        // Batches are all or nothing - one bad row (say, a SKU a product in the trash still holds)
+        // would otherwise take the other 49 down with it
+        for (const row of batch) {
+          try {
+            await productService.createProducts([toNewProduct(row)]);
+            summary.created++;
+          } catch (err) {
+            summary.failed.push({
+              rowNumber: row.rowNumber,
+              message: err instanceof Error ? err.message : 'Failed to create product',
+            });
+          }
+        }
+      }
+    }
+
+    for (const row of preview.filter(row => row.status === 'update')) {
+      try {
+        await productService.updateProduct(row.existingId!, toNewProduct(row), row.existingVersion ?? 0);
+        summary.updated++;
+      } catch (err) {
+        summary.failed.push({
+          rowNumber: row.rowNumber,
+          message: err instanceof Error ? err.message : 'Failed to update product',
+        });
+      }
+    }
+
+    summary.skipped = preview.filter(row => row.status === 'skip' || row.status === 'invalid').length;
+    summary.failed.sort((a, b) => a.rowNumber - b.rowNumber);
+    return summary;
+  },
+};
@@ -0,0 +1,77 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { AttributeDefinition } from '../lib/attributes';
+import { Category } from '../lib/supabase';
+import { CategoryRepository } from './categoryRepository';
+import { reassignLocalCategory } from './localProductRepository';
+
+// What each seed category asks for on top of the usual fields
+const SEED_ATTRIBUTES: Record<string, AttributeDefinition[]> = {
+  Electronics: [
+    { key: 'wattage', label: 'Wattage', type: 'number', unit: 'W', min: 0 },
+    { key: 'warranty_months', label: 'Warranty', type: 'number', unit: 'months', required: true, min: 0, max: 120 },
+    { key: 'wireless', label: 'Wireless', type: 'boolean' },
+  ],
+  Clothing: [
+    { key: 'size', label: 'Size', type: 'enum', required: true, options: ['XS', 'S', 'M', 'L', 'XL', 'XXL'] },
+    { key: 'material', label: 'Material', type: 'text', required: true, max: 80 },
+  ],
+  Books: [
+    { key: 'author', label: 'Author', type: 'text', required: true, max: 120 },
+    { key: 'isbn', label: 'ISBN', type: 'text', required: true, min: 10, max: 17 },
+    { key: 'pages', label: 'Pages', type: 'number', min: 1 },
+  ],
+};
+
+// The categories the app used to hard-code, as a starting point
+const SEED_CATEGORIES: Category[] = ['Electronics', 'Clothing', 'Books', 'Home'].map((name, index) => ({
+  id: `seed-category-${index + 1}`,
+  name,
+  parent_id: null,
+  sort_order: index,
+  archived_at: null,
+  attributes: SEED_ATTRIBUTES[name] ?? [],
+  created_at: '2024-01-01T00:00:00.000Z',
+}));
+
+const store = createLocalCollection<Category>('catalog.categories', SEED_CATEGORIES);
+
+export const localCategoryRepository: CategoryRepository = {
+  async list() {
+    return [...store.load()].sort((a, b) => a.sort_order - b.sort_order);
+  },
+
+  async create(category) {
+    const created: Category = {
+      ...category,
+      id: generateId(),
+      archived_at: null,
+      created_at: new Date().toISOString(),
+    };
+    store.save([...store.load(), created]);
+    return created;
+  },
+
+  async update(id, updates) {
+    const current = store.load();
+    const existing = current.find(category => category.id === id);
+    if (!existing) throw new Error(`Couldn't update category ${id}: not found`);
+
+    const updated: Category = { ...existing, ...updates };
+    store.save(current.map(category => (category.id === id ? updated : category)));
+    return updated;
+  },
+
+  // Products first - if the category then can't be saved, they're moved back
+  async rename(id, name) {
+    const existing = store.load().find(category => category.id === id);
+    if (!existing) throw new Error(`Couldn't rename category ${id}: not found`);
+
+    reassignLocalCategory(existing.name, name);
+    try {
+      return await localCategoryRepository.update(id, { name });
+    } catch (err) {
+      reassignLocalCategory(name, existing.name);
+      throw err;
+    }
+  },
+};
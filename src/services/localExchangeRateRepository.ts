@@ -0,0 +1,29 @@
+import { createLocalCollection } from '../lib/localStore';
+import { ExchangeRate } from '../lib/supabase';
+import { ExchangeRateRepository } from './exchangeRateRepository';
+
+// Ballpark rates so prices convert out of the box - admins keep them current
+const SEED_RATES: ExchangeRate[] = [
+  { currency: 'USD', rate: 1, updated_at: '2024-01-01T00:00:00.000Z', updated_by_email: null },
+  { currency: 'EUR', rate: 0.92, updated_at: '2024-01-01T00:00:00.000Z', updated_by_email: null },
+  { currency: 'GBP', rate: 0.79, updated_at: '2024-01-01T00:00:00.000Z', updated_by_email: null },
+];
+
+const store = createLocalCollection<ExchangeRate>('catalog.exchangeRates', SEED_RATES);
+
+export const localExchangeRateRepository: ExchangeRateRepository = {
+  async list() {
+    return store.load();
+  },
+
+  async set(currency, rate, updatedByEmail) {
+    const updated: ExchangeRate = {
+      currency,
+      rate,
+      updated_at: new Date().toISOString(),
+      updated_by_email: updatedByEmail,
+    };
+    store.save([...store.load().filter(row => row.currency !== currency), updated]);
+    return updated;
+  },
+};
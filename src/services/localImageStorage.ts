@@ -0,0 +1,25 @@
+import { checkLocalStorageRoom } from '../lib/localStore';
+import { ImageStorage } from './imageStorage';
+
+function toDataUrl(file: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read image'));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Local stand-in: the image is inlined as a data URL and saved with the product
+// Fine for demos, but localStorage fills up after a few dozen photos - once it's full the upload
+// fails with a LocalStorageFullError rather than the product save failing later on
+export const localImageStorage: ImageStorage = {
+  async upload(_path, file) {
+    const dataUrl = await toDataUrl(file);
+    checkLocalStorageRoom(dataUrl);
+    return dataUrl;
+  },
+
+  // Nothing to clean up - the data lives inside the product record
+  async remove() {},
+};
@@ -0,0 +1,263 @@
+import { Product } from '../lib/supabase';
+import { createLocalCollection, generateId } from '../lib/localStore';
+import {
+  DuplicateSkuError,
+  ProductChange,
+  ProductConflictError,
+  ProductNotFoundError,
+  ProductRepository,
+  RatingSummary,
+  getProductVersion,
+  getStockOnHand,
+  listProductsInMemory,
+} from './productRepository';
+import { computeProductFacets } from './productFacets';
+
+const STORAGE_KEY = 'catalog.products';
+
+// A few products so a fresh local setup isn't an empty screen
+// Ratings match the seed reviews in localReviewRepository, stock the seed adjustments in localStockRepository
+const SEED_PRODUCTS: Product[] = [
+  {
+    id: 'seed-1',
+    name: 'Noise Cancelling Headphones',
+    description: 'Over-ear wireless headphones with 30 hours of battery life.',
+    category: 'Electronics',
+    price: 199.99,
+    rating: 4.5,
+    review_count: 2,
+    sku: 'HP-NC-100',
+    stock_on_hand: 12,
+    reorder_threshold: 5,
+    attributes: { wattage: 0.5, warranty_months: 24, wireless: true },
+    created_at: '2024-01-05T10:00:00.000Z',
+  },
+  {
+    id: 'seed-2',
+    name: 'Merino Wool Sweater',
+    description: 'Lightweight crew neck sweater, machine washable.',
+    category: 'Clothing',
+    price: 79,
+    rating: 4,
+    review_count: 1,
+    sku: 'SW-MER-M',
+    stock_on_hand: 3,
+    reorder_threshold: 5,
+    attributes: { size: 'M', material: 'Merino wool' },
+    created_at: '2024-01-04T10:00:00.000Z',
+  },
+  {
+    id: 'seed-3',
+    name: 'The Pragmatic Programmer',
+    description: 'Classic book on the craft of software development.',
+    category: 'Books',
+    price: 18.5,
+    rating: 5,
+    review_count: 2,
+    sku: 'BK-PRAG-01',
+    stock_on_hand: 0,
+    reorder_threshold: 2,
+    attributes: { author: 'David Thomas, Andrew Hunt', isbn: '978-0135957059', pages: 352 },
+    created_at: '2024-01-03T10:00:00.000Z',
+  },
+  {
+    id: 'seed-4',
+    name: 'Cast Iron Skillet',
+    description: 'Pre-seasoned 12 inch skillet for stovetop and oven.',
+    category: 'Home',
+    price: 34.95,
+    rating: 4.33,
+    review_count: 3,
+    sku: 'KT-SKL-12',
+    stock_on_hand: 20,
+    reorder_threshold: null,
+    created_at: '2024-01-02T10:00:00.000Z',
+  },
+];
+
+const store = createLocalCollection<Product>(STORAGE_KEY, SEED_PRODUCTS);
+const load = store.load;
+
+// Other tabs hear about our changes (and we about theirs) over a BroadcastChannel
+// - the local stand-in for Supabase realtime
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(STORAGE_KEY) : null;
+const listeners = new Set<(change: ProductChange) => void>();
+
+channel?.addEventListener('message', (event: MessageEvent<ProductChange>) => {
+  store.invalidate();
+  listeners.forEach(listener => listener(event.data));
+});
+
+// Persist and announce whatever changed compared to what was stored before
+// Every mutation replaces the objects it touches, so a reference check finds the updates
+function save(next: Product[]) {
+  const previous = new Map(load().map(product => [product.id, product]));
+  store.save(next);
+  if (!channel) return;
+
+  next.forEach(product => {
+    const before = previous.get(product.id);
+    if (!before) {
+      channel.postMessage({ type: 'insert', product } satisfies ProductChange);
+    } else if (before !== product) {
+      channel.postMessage({ type: 'update', product } satisfies ProductChange);
+    }
+    previous.delete(product.id);
+  });
+  previous.forEach((_product, id) => channel.postMessage({ type: 'delete', id } satisfies ProductChange));
+}
+
+// SKUs are unique, ignoring case - `exceptId` is the product being updated, which keeps its own
+function assertSkuFree(products: Product[], sku: string | null | undefined, exceptId?: string) {
+  if (!sku) return;
+  if (products.some(product => product.id !== exceptId && product.sku?.toUpperCase() === sku.toUpperCase())) {
+    throw new DuplicateSkuError(sku);
+  }
+}
+
+// Category renames (localCategoryRepository) - points every product in `from` at `to`
+// Versions are bumped like any other change, so an open edit form can't put the old name back
+export function reassignLocalCategory(from: string, to: string) {
+  const current = load();
+  const moved = current.filter(product => product.category === from).length;
+  save(current.map(product => (
+    product.category === from ? { ...product, category: to, version: getProductVersion(product) + 1 } : product
+  )));
+  return moved;
+}
+
+// Stock adjustments (localStockRepository) - `change` gets the current stock and returns the new one.
+// Single-threaded here, so read-modify-write can't lose a concurrent adjustment. No version bump either
+export function adjustLocalStock(id: string, change: (current: number) => number) {
+  const current = load();
+  const before = current.find(product => product.id === id);
+  if (!before) throw new ProductNotFoundError(id);
+
+  const after: Product = { ...before, stock_on_hand: change(getStockOnHand(before)) };
+  save(current.map(product => (product.id === id ? after : product)));
+  return { before, after };
+}
+
+// Review changes (localReviewRepository) - the local stand-in for the database keeping the rating
+// in step with the reviews. Not an edit: no version bump, so it never conflicts with an open form
+export function setLocalRatingSummary(id: string, summary: RatingSummary) {
+  const current = load();
+  if (!current.some(product => product.id === id)) throw new ProductNotFoundError(id);
+  save(current.map(product => (product.id === id ? { ...product, ...summary } : product)));
+}
+
+// Products kept in memory and persisted to localStorage - no network needed
+export const localProductRepository: ProductRepository = {
+  async create(product) {
+    assertSkuFree(load(), product.sku);
+    const created: Product = {
+      ...product,
+      id: generateId(),
+      rating: 0,
+      review_count: 0,
+      stock_on_hand: 0,
+      version: 1,
+      created_at: new Date().toISOString(),
+    };
+    save([created, ...load()]);
+    return created;
+  },
+
+  async createMany(newProducts) {
+    // Checked one by one against what's stored plus the batch so far - the whole batch fails on a clash
+    const taken = [...load()];
+    newProducts.forEach(product => {
+      assertSkuFree(taken, product.sku);
+      taken.push(product as Product);
+    });
+    const createdAt = new Date().toISOString();
+    const created = newProducts.map(product => ({
+      ...product,
+      id: generateId(),
+      rating: 0,
+      review_count: 0,
+      stock_on_hand: 0,
+      version: 1,
+      created_at: createdAt,
+    }));
+    save([...created, ...load()]);
+    return created;
+  },
+
+  async list(filters) {
+    return listProductsInMemory(load(), filters);
+  },
+
+  async getFacets(filters) {
+    return computeProductFacets(load(), filters);
+  },
+
+  async update(id, updates, expectedVersion) {
+    const current = load();
+    const existing = current.find(product => product.id === id);
+    if (!existing) throw new Error(`Couldn't update product ${id}: not found`);
+    if (getProductVersion(existing) !== expectedVersion) throw new ProductConflictError(existing);
+    if (updates.sku !== undefined) assertSkuFree(current, updates.sku, id);
+
+    const updated: Product = {
+      ...existing,
+      ...updates,
+      id,
+      created_at: existing.created_at,
+      version: expectedVersion + 1,
+    };
+    save(current.map(product => (product.id === id ? updated : product)));
+    return updated;
+  },
+
+  async softDelete(id) {
+    const current = load();
+    const existing = current.find(product => product.id === id);
+    if (!existing) throw new Error(`Failed to delete product ${id}: not found`);
+
+    const deleted: Product = { ...existing, deleted_at: new Date().toISOString() };
+    save(current.map(product => (product.id === id ? deleted : product)));
+    return deleted;
+  },
+
+  async restore(id) {
+    const current = load();
+    const existing = current.find(product => product.id === id);
+    if (!existing) throw new Error(`Couldn't restore product ${id}: not found`);
+
+    const restored: Product = { ...existing, deleted_at: null };
+    save(current.map(product => (product.id === id ? restored : product)));
+    return restored;
+  },
+
+  async purge(id) {
+    const current = load();
+    const existing = current.find(product => product.id === id);
+    if (!existing) throw new Error(`Failed to permanently delete product ${id}: not found`);
+    if (!existing.deleted_at) throw new Error(`Failed to permanently delete product ${id}: it isn't in the trash`);
+    save(current.filter(product => product.id !== id));
+  },
+
+  async purgeDeletedBefore(cutoff) {
+    const current = load();
+    const isExpired = (product: Product) => !!product.deleted_at && product.deleted_at < cutoff;
+    save(current.filter(product => !isExpired(product)));
+    return current.filter(isExpired);
+  },
+
+  async getById(id, options) {
+    const product = load().find(product => product.id === id);
+    if (!product || (product.deleted_at && !options?.includeDeleted)) {
+      throw new ProductNotFoundError(id);
+    }
+    return product;
+  },
+
+  // Changes made in other tabs - our own tab already knows about its changes
+  subscribe(listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,203 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { Review } from '../lib/supabase';
+import { ReviewRepository, ReviewSort, StarCount, summarizeStarCounts } from './reviewRepository';
+import { setLocalRatingSummary } from './localProductRepository';
+
+type HelpfulVote = { review_id: string; user_id: string };
+
+// Enough reviews that the seed products' ratings have something behind them
+const SEED_REVIEWS: Review[] = [
+  {
+    id: 'seed-review-1',
+    product_id: 'seed-1',
+    user_id: 'seed-user-1',
+    user_email: 'sam@example.com',
+    stars: 5,
+    title: 'Quiet flights at last',
+    body: 'The noise cancelling is excellent and the battery really does last all week.',
+    helpful_count: 0,
+    created_at: '2024-02-01T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-2',
+    product_id: 'seed-1',
+    user_id: 'seed-user-2',
+    user_email: 'alex@example.com',
+    stars: 4,
+    title: 'Great sound, a bit heavy',
+    body: 'Sounds great. They get uncomfortable after a few hours though.',
+    helpful_count: 0,
+    created_at: '2024-02-03T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-3',
+    product_id: 'seed-2',
+    user_id: 'seed-user-1',
+    user_email: 'sam@example.com',
+    stars: 4,
+    title: 'Warm and soft',
+    body: 'Not itchy at all. Runs slightly small.',
+    helpful_count: 0,
+    created_at: '2024-02-02T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-4',
+    product_id: 'seed-3',
+    user_id: 'seed-user-1',
+    user_email: 'sam@example.com',
+    stars: 5,
+    title: 'Still relevant',
+    body: 'Read it years ago and it still holds up.',
+    helpful_count: 0,
+    created_at: '2024-02-04T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-5',
+    product_id: 'seed-3',
+    user_id: 'seed-user-2',
+    user_email: 'alex@example.com',
+    stars: 5,
+    title: 'Every developer should read this',
+    body: 'Practical advice you can use the next day.',
+    helpful_count: 0,
+    created_at: '2024-02-05T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-6',
+    product_id: 'seed-4',
+    user_id: 'seed-user-1',
+    user_email: 'sam@example.com',
+    stars: 4,
+    title: 'Heavy but worth it',
+    body: 'Heats evenly. Needs a little care to keep the seasoning.',
+    helpful_count: 0,
+    created_at: '2024-02-06T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-7',
+    product_id: 'seed-4',
+    user_id: 'seed-user-2',
+    user_email: 'alex@example.com',
+    stars: 5,
+    title: 'Perfect steaks',
+    body: 'Goes from stovetop to oven without any fuss.',
+    helpful_count: 0,
+    created_at: '2024-02-07T10:00:00.000Z',
+    updated_at: null,
+  },
+  {
+    id: 'seed-review-8',
+    product_id: 'seed-4',
+    user_id: 'seed-user-3',
+    user_email: 'kim@example.com',
+    stars: 4,
+    title: 'Solid pan',
+    body: 'Does what it says. The handle gets hot, so keep a cloth nearby.',
+    helpful_count: 0,
+    created_at: '2024-02-08T10:00:00.000Z',
+    updated_at: null,
+  },
+];
+
+const store = createLocalCollection<Review>('catalog.productReviews', SEED_REVIEWS);
+const votes = createLocalCollection<HelpfulVote>('catalog.reviewVotes');
+
+// Newest first, or most helpful first with newest breaking ties
+const compareReviews = (sort: ReviewSort) => (a: Review, b: Review) =>
+  (sort === 'helpful' ? b.helpful_count - a.helpful_count : 0) || b.created_at.localeCompare(a.created_at);
+
+function forProduct(productId: string) {
+  return store.load().filter(review => review.product_id === productId);
+}
+
+function countStarsOf(reviews: Review[]): StarCount[] {
+  return [5, 4, 3, 2, 1].map(stars => ({ stars, count: reviews.filter(review => review.stars === stars).length }));
+}
+
+// What the database's trigger does for Supabase: worked out from all the stars rather than adjusted,
+// so it can't drift from the reviews
+function refreshRating(productId: string) {
+  const { average, count } = summarizeStarCounts(countStarsOf(forProduct(productId)));
+  setLocalRatingSummary(productId, { rating: average, review_count: count });
+}
+
+// Reviews kept alongside the local product store
+export const localReviewRepository: ReviewRepository = {
+  async listForProduct(productId, { sort, page, pageSize }) {
+    const reviews = forProduct(productId).sort(compareReviews(sort));
+    return {
+      items: reviews.slice((page - 1) * pageSize, page * pageSize),
+      total: reviews.length,
+    };
+  },
+
+  async countStars(productId) {
+    return countStarsOf(forProduct(productId));
+  },
+
+  async findByUser(productId, userId) {
+    return forProduct(productId).find(review => review.user_id === userId) ?? null;
+  },
+
+  async getById(id) {
+    const review = store.load().find(review => review.id === id);
+    if (!review) throw new Error(`Review ${id} not found`);
+    return review;
+  },
+
+  async create(review) {
+    if (await this.findByUser(review.product_id, review.user_id)) {
+      throw new Error('You have already reviewed this product');
+    }
+    const created: Review = {
+      ...review,
+      id: generateId(),
+      helpful_count: 0,
+      created_at: new Date().toISOString(),
+      updated_at: null,
+    };
+    store.save([created, ...store.load()]);
+    refreshRating(created.product_id);
+    return created;
+  },
+
+  async update(id, content) {
+    const current = store.load();
+    const existing = current.find(review => review.id === id);
+    if (!existing) throw new Error(`Couldn't update review ${id}: not found`);
+
+    const updated: Review = { ...existing, ...content, updated_at: new Date().toISOString() };
+    store.save(current.map(review => (review.id === id ? updated : review)));
+    refreshRating(updated.product_id);
+    return updated;
+  },
+
+  async delete(id) {
+    const existing = store.load().find(review => review.id === id);
+    store.save(store.load().filter(review => review.id !== id));
+    votes.save(votes.load().filter(vote => vote.review_id !== id));
+    if (existing) refreshRating(existing.product_id);
+  },
+
+  async addHelpfulVote(reviewId, userId) {
+    const existing = await this.getById(reviewId);
+    if (votes.load().some(vote => vote.review_id === reviewId && vote.user_id === userId)) return existing;
+
+    votes.save([...votes.load(), { review_id: reviewId, user_id: userId }]);
+    const updated: Review = { ...existing, helpful_count: existing.helpful_count + 1 };
+    store.save(store.load().map(review => (review.id === reviewId ? updated : review)));
+    return updated;
+  },
+
+  async listVotedReviewIds(userId, reviewIds) {
+    return votes.load()
+      .filter(vote => vote.user_id === userId && reviewIds.includes(vote.review_id))
+      .map(vote => vote.review_id);
+  },
+};
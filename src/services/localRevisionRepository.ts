@@ -0,0 +1,23 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { ProductRevision, RevisionRepository } from './revisionRepository';
+
+const store = createLocalCollection<ProductRevision>('catalog.productRevisions');
+
+// Revisions kept alongside the local product store
+export const localRevisionRepository: RevisionRepository = {
+  async add(revision) {
+    const created: ProductRevision = {
+      ...revision,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    };
+    store.save([created, ...store.load()]);
+    return created;
+  },
+
+  async listForProduct(productId) {
+    return store.load()
+      .filter(revision => revision.product_id === productId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+};
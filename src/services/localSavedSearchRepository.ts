@@ -0,0 +1,37 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { SavedSearch } from '../lib/supabase';
+import { SavedSearchRepository } from './savedSearchRepository';
+
+const store = createLocalCollection<SavedSearch>('catalog.savedSearches');
+
+export const localSavedSearchRepository: SavedSearchRepository = {
+  async list(userId) {
+    return store.load()
+      .filter(search => search.user_id === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async create(search) {
+    const created: SavedSearch = {
+      ...search,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    };
+    store.save([...store.load(), created]);
+    return created;
+  },
+
+  async update(id, updates) {
+    const current = store.load();
+    const existing = current.find(search => search.id === id);
+    if (!existing) throw new Error(`Couldn't update saved search ${id}: not found`);
+
+    const updated: SavedSearch = { ...existing, ...updates };
+    store.save(current.map(search => (search.id === id ? updated : search)));
+    return updated;
+  },
+
+  async delete(id) {
+    store.save(store.load().filter(search => search.id !== id));
+  },
+};
@@ -0,0 +1,42 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { UserSession } from '../lib/supabase';
+import { SessionRepository } from './sessionRepository';
+
+const store = createLocalCollection<UserSession>('catalog.sessions');
+
+export const localSessionRepository: SessionRepository = {
+  async list(userId) {
+    return store.load()
+      .filter(session => session.user_id === userId && !session.revoked_at)
+      .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+  },
+
+  async get(id) {
+    return store.load().find(session => session.id === id) ?? null;
+  },
+
+  async create(session) {
+    const now = new Date().toISOString();
+    const created: UserSession = {
+      ...session,
+      id: generateId(),
+      created_at: now,
+      last_seen_at: now,
+      revoked_at: null,
+    };
+    store.save([...store.load(), created]);
+    return created;
+  },
+
+  async touch(id) {
+    const now = new Date().toISOString();
+    store.save(store.load().map(session => (session.id === id ? { ...session, last_seen_at: now } : session)));
+  },
+
+  async revoke(ids) {
+    const now = new Date().toISOString();
+    store.save(store.load().map(session => (
+      ids.includes(session.id) && !session.revoked_at ? { ...session, revoked_at: now } : session
+    )));
+  },
+};
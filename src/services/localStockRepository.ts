@@ -0,0 +1,56 @@
+import { createLocalCollection, generateId } from '../lib/localStore';
+import { StockAdjustment } from '../lib/supabase';
+import { adjustLocalStock } from './localProductRepository';
+import { getStockOnHand } from './productRepository';
+import { StockRepository, applyStockAdjustment } from './stockRepository';
+
+// Opening stock for the seed products in localProductRepository
+const SEED_ADJUSTMENTS: StockAdjustment[] = [
+  { product_id: 'seed-1', quantity: 12, id: 'seed-stock-1' },
+  { product_id: 'seed-2', quantity: 3, id: 'seed-stock-2' },
+  { product_id: 'seed-4', quantity: 20, id: 'seed-stock-3' },
+].map(({ id, product_id, quantity }) => ({
+  id,
+  product_id,
+  kind: 'receive',
+  quantity,
+  stock_after: quantity,
+  reason: 'Opening stock',
+  actor_id: null,
+  actor_email: null,
+  created_at: '2024-01-06T10:00:00.000Z',
+}));
+
+const store = createLocalCollection<StockAdjustment>('catalog.stockAdjustments', SEED_ADJUSTMENTS);
+
+// Adjustments kept alongside the local product store
+export const localStockRepository: StockRepository = {
+  // Stock moves first; if the record can't be saved (e.g. storage is full) it's put back
+  async adjust({ product_id, kind, quantity, reason, actor_id, actor_email }) {
+    const { before, after } = adjustLocalStock(product_id, current => applyStockAdjustment(current, kind, quantity));
+    const created: StockAdjustment = {
+      id: generateId(),
+      product_id,
+      kind,
+      quantity: getStockOnHand(after) - getStockOnHand(before),
+      stock_after: getStockOnHand(after),
+      reason,
+      actor_id,
+      actor_email,
+      created_at: new Date().toISOString(),
+    };
+    try {
+      store.save([created, ...store.load()]);
+    } catch (err) {
+      adjustLocalStock(product_id, () => getStockOnHand(before));
+      throw err;
+    }
+    return created;
+  },
+
+  async listForProduct(productId) {
+    return store.load()
+      .filter(adjustment => adjustment.product_id === productId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+};
@@ -0,0 +1,93 @@
+import { createIdbStore } from '../lib/idb';
+import { generateId } from '../lib/localStore';
+import { NewProduct, ProductUpdate } from './productRepository';
+
+// What a queued change does - the arguments the online call would have had
+export type MutationPayload =
+  | { kind: 'create'; product: NewProduct }
+  | { kind: 'update'; updates: ProductUpdate; expectedVersion: number }
+  | { kind: 'delete' };
+
+// A product change made while offline, waiting in IndexedDB to be replayed
+export type QueuedMutation = MutationPayload & {
+  id: string;
+  seq: number;                // Replay order
+  userId: string | null;      // Who made the change - it's only ever replayed as them
+  productId: string;          // For creates: the temporary id the offline copy got
+  productName: string;        // So the sync panel can say which product without a lookup
+  queuedAt: string;
+  attempts: number;
+  status: 'pending' | 'failed';
+  error?: string;
+  conflictVersion?: number;   // The server's version when an update hit a conflict
+};
+
+// Queues from before changes were tagged with their user belong to nobody, so they never replay
+export function isQueuedBy(mutation: QueuedMutation, userId: string) {
+  return mutation.userId === userId;
+}
+
+// Products created offline get an id like this until the server hands out the real one
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+export function isOfflineId(id: string) {
+  return id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+const store = createIdbStore<QueuedMutation>('mutations');
+const enqueueListeners = new Set<() => void>();
+let lastSeq = 0;
+
+export const mutationQueue = {
+  // Everything queued, oldest first
+  async list() {
+    const mutations = await store.getAll();
+    return mutations.sort((a, b) => a.seq - b.seq);
+  },
+
+  async enqueue(userId: string | null, productId: string, productName: string, payload: MutationPayload) {
+    // Date-based so the order holds across reloads, bumped so two in the same millisecond don't tie
+    lastSeq = Math.max(Date.now(), lastSeq + 1);
+    const mutation: QueuedMutation = {
+      ...payload,
+      id: generateId(),
+      seq: lastSeq,
+      userId,
+      productId,
+      productName,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    };
+    await store.put(mutation);
+    enqueueListeners.forEach(listener => listener());
+    return mutation;
+  },
+
+  async save(mutation: QueuedMutation) {
+    await store.put(mutation);
+  },
+
+  async remove(id: string) {
+    await store.delete(id);
+  },
+
+  // Everyone's changes, synced or not - for signing out
+  async clear() {
+    await store.clear();
+  },
+
+  // An offline-created product reached the server - point its later changes at the real id
+  async remapProduct(fromId: string, toId: string) {
+    const affected = (await store.getAll()).filter(mutation => mutation.productId === fromId);
+    await store.putMany(affected.map(mutation => ({ ...mutation, productId: toId })));
+  },
+
+  // Only new entries are announced - the sync loop's own bookkeeping would otherwise wake itself up
+  onEnqueue(listener: () => void) {
+    enqueueListeners.add(listener);
+    return () => {
+      enqueueListeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,87 @@
+import { Product } from '../lib/supabase';
+import { ProductFilter, getFilterPrice, matchesProductFilter } from './productRepository';
+
+// Just the columns facets are counted from
+export type FacetRow = Pick<Product, 'category' | 'price' | 'currency' | 'rating'>;
+
+export type CategoryFacet = { category: string; count: number };
+export type RatingFacet = { minRating: number; count: number };   // Products rated minRating or better
+export type PriceBucket = { from: number; to: number; count: number };
+
+export type ProductFacets = {
+  categories: CategoryFacet[];    // Most products first
+  ratings: RatingFacet[];         // 4+, 3+, 2+, 1+
+  price: {
+    min: number;
+    max: number;
+    buckets: PriceBucket[];       // Equal-width slices of min..max
+  };                              // All in filters.priceCurrency when it's set
+};
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+const PRICE_BUCKETS = 12;
+
+// The filters each facet ignores - a facet counts what you'd get by changing *that* choice,
+// so e.g. picking a category doesn't collapse the category list to a single entry
+export const FACETED_FILTERS = ['category', 'categories', 'minPrice', 'maxPrice', 'minRating'] as const;
+
+export function withoutFacetedFilters(filters?: ProductFilter): ProductFilter {
+  const rest = { ...filters };
+  FACETED_FILTERS.forEach(key => delete rest[key]);
+  delete rest.cursor;
+  return rest;
+}
+
+const inCategory = (row: FacetRow, filters: ProductFilter) =>
+  filters.categories
+    ? filters.categories.includes(row.category)
+    : !filters.category || row.category === filters.category;
+const inPriceRange = (row: FacetRow, filters: ProductFilter) =>
+  (filters.minPrice === undefined || getFilterPrice(row, filters) >= filters.minPrice) &&
+  (filters.maxPrice === undefined || getFilterPrice(row, filters) <= filters.maxPrice);
+const inRating = (row: FacetRow, filters: ProductFilter) =>
+  filters.minRating === undefined || row.rating >= filters.minRating;
+
+// Counts for every facet, from rows that already match everything except the faceted filters
+// The product_facets database function does the same sums for the Supabase backend
+export function computeFacets(rows: FacetRow[], filters: ProductFilter = {}): ProductFacets {
+  const categoryCounts = new Map<string, number>();
+  rows
+    .filter(row => inPriceRange(row, filters) && inRating(row, filters))
+    .forEach(row => categoryCounts.set(row.category, (categoryCounts.get(row.category) ?? 0) + 1));
+
+  const forRatings = rows.filter(row => inCategory(row, filters) && inPriceRange(row, filters));
+  const forPrice = rows.filter(row => inCategory(row, filters) && inRating(row, filters));
+
+  // Whole-number bounds read better on a slider than 3.49..218.7
+  // (reduce, not Math.min(...prices) - spreading a big catalog overflows the call stack)
+  const prices = forPrice.map(row => getFilterPrice(row, filters));
+  const min = prices.length > 0 ? Math.floor(prices.reduce((a, b) => Math.min(a, b))) : 0;
+  const max = prices.length > 0 ? Math.ceil(prices.reduce((a, b) => Math.max(a, b))) : 0;
+  const width = (max - min) / PRICE_BUCKETS || 1;
+  const buckets: PriceBucket[] = Array.from({ length: max > min ? PRICE_BUCKETS : 1 }, (_, index) => ({
+    from: min + index * width,
+    to: max > min ? min + (index + 1) * width : max,
+    count: 0,
+  }));
+  prices.forEach(price => {
+    buckets[Math.min(Math.floor((price - min) / width), buckets.length - 1)].count++;
+  });
+
+  return {
+    categories: [...categoryCounts]
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category)),
+    ratings: RATING_THRESHOLDS.map(minRating => ({
+      minRating,
+      count: forRatings.filter(row => row.rating >= minRating).length,
+    })),
+    price: { min, max, buckets },
+  };
+}
+
+// Facets for products held in memory - the local backend and the offline cache
+export function computeProductFacets(products: Product[], filters: ProductFilter = {}) {
+  const base = withoutFacetedFilters(filters);
+  return computeFacets(products.filter(product => matchesProductFilter(product, base)), filters);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../lib/supabase';
+import {
+  ProductFilter,
+  decodeCursor,
+  encodeCursor,
+  listProductsInMemory,
+  matchesProductFilter,
+  resolveSort,
+} from './productRepository';
+
+const product = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: `Product ${id}`,
+  description: '',
+  category: 'Home',
+  price: 10,
+  rating: 0,
+  created_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const catalog = [
+  product('a', { name: 'Desk lamp', description: 'A small lamp', price: 40, rating: 5, created_at: '2024-01-03T00:00:00.000Z' }),
+  product('b', { name: 'Floor lamp', category: 'Lighting', price: 90, currency: 'EUR', rating: 4, created_at: '2024-01-02T00:00:00.000Z' }),
+  product('c', { name: 'Notebook', category: 'Books', price: 5, rating: 3, stock_on_hand: 1, reorder_threshold: 2 }),
+  product('d', { name: 'Old lamp', price: 15, deleted_at: '2024-02-01T00:00:00.000Z' }),
+  product('e', { name: 'Novel', category: 'Books', price: 12, rating: 4, attributes: { pages: 320, author: 'Ann Lee' } }),
+];
+
+const ids = (products: Product[]) => products.map(p => p.id);
+const matching = (filters: ProductFilter) => ids(catalog.filter(p => matchesProductFilter(p, filters)));
+
+describe('matchesProductFilter', () => {
+  it('shows the live catalog, or only the trash', () => {
+    expect(matching({})).toEqual(['a', 'b', 'c', 'e']);
+    expect(matching({ onlyDeleted: true })).toEqual(['d']);
+  });
+
+  it('filters by category, with categories taking precedence', () => {
+    expect(matching({ category: 'Books' })).toEqual(['c', 'e']);
+    expect(matching({ category: 'Books', categories: ['Home', 'Lighting'] })).toEqual(['a', 'b']);
+  });
+
+  it('filters by price, converted when there is a currency and rates', () => {
+    expect(matching({ minPrice: 10, maxPrice: 50 })).toEqual(['a', 'e']);
+    // 90 EUR at 0.9 per USD is 100 USD
+    const rates = { USD: 1, EUR: 0.9, GBP: 0.8 };
+    expect(matching({ minPrice: 95, priceCurrency: 'USD', exchangeRates: rates })).toEqual(['b']);
+  });
+
+  it('filters by rating, low stock and attributes', () => {
+    expect(matching({ minRating: 4 })).toEqual(['a', 'b', 'e']);
+    expect(matching({ lowStockOnly: true })).toEqual(['c']);
+    expect(matching({ attributes: { pages: { min: 300 }, author: { equals: 'ann lee' } } })).toEqual(['e']);
+  });
+
+  it('applies the search box', () => {
+    expect(matching({ searchQuery: 'lamp -floor' })).toEqual(['a']);
+    expect(matching({ searchQuery: 'cat:books rating:>=4' })).toEqual(['e']);
+  });
+});
+
+describe('resolveSort', () => {
+  it('defaults to newest first, or relevance when searching', () => {
+    expect(resolveSort()).toEqual({ sortBy: 'created_at', sortDirection: 'desc' });
+    expect(resolveSort({ searchQuery: 'lamp' })).toEqual({ sortBy: 'relevance', sortDirection: 'desc' });
+  });
+
+  it('ignores relevance without search text', () => {
+    expect(resolveSort({ sortBy: 'relevance' })).toEqual({ sortBy: 'created_at', sortDirection: 'desc' });
+    expect(resolveSort({ sortBy: 'price', sortDirection: 'asc' })).toEqual({ sortBy: 'price', sortDirection: 'asc' });
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip, non-latin1 text included', () => {
+    const cursor = { value: 'Café ☕', id: 'a' };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('reject anything malformed', () => {
+    expect(() => decodeCursor('nonsense')).toThrow('Invalid page cursor');
+    expect(() => decodeCursor(btoa(encodeURIComponent('{"value":1}')))).toThrow('Invalid page cursor');
+  });
+});
+
+describe('listProductsInMemory', () => {
+  it('sorts newest first by default, id breaking ties', () => {
+    expect(ids(listProductsInMemory(catalog).items)).toEqual(['a', 'b', 'e', 'c']);
+  });
+
+  it('sorts by any column either way', () => {
+    expect(ids(listProductsInMemory(catalog, { sortBy: 'price', sortDirection: 'asc' }).items)).toEqual(['c', 'e', 'a', 'b']);
+    expect(ids(listProductsInMemory(catalog, { sortBy: 'name', sortDirection: 'asc' }).items)).toEqual(['a', 'b', 'c', 'e']);
+  });
+
+  it('sorts converted prices in the filter currency', () => {
+    // 90 EUR at 3 per USD is 30 USD - cheaper than the 40 USD lamp
+    const page = listProductsInMemory(catalog, {
+      sortBy: 'price',
+      sortDirection: 'asc',
+      priceCurrency: 'USD',
+      exchangeRates: { USD: 1, EUR: 3, GBP: 1 },
+    });
+    expect(ids(page.items)).toEqual(['c', 'e', 'b', 'a']);
+  });
+
+  it('ranks search results by relevance', () => {
+    // Both names mention it, only a's description does too - on a tie b would come first
+    const page = listProductsInMemory(catalog, { searchQuery: 'lamp' });
+    expect(ids(page.items)).toEqual(['a', 'b']);
+  });
+
+  it('pages with a cursor, without skipping or repeating anything', () => {
+    const filters: ProductFilter = { sortBy: 'rating', sortDirection: 'desc', limit: 2 };
+    const first = listProductsInMemory(catalog, filters);
+    expect(ids(first.items)).toEqual(['a', 'e']);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = listProductsInMemory(catalog, { ...filters, cursor: first.nextCursor! });
+    expect(ids(second.items)).toEqual(['b', 'c']);
+    expect(second.total).toBe(4);
+    expect(second.nextCursor).toBeNull();
+  });
+});
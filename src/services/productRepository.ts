@@ -0,0 +1,249 @@
+import { AttributeFilters, matchesAttributeFilters } from '../lib/attributes';
+import { CurrencyCode, ExchangeRates, convertPrice, getProductCurrency } from '../lib/currency';
+import { Product } from '../lib/supabase';
+import { ProductFacets } from './productFacets';
+import { SearchQuery, hasFreeText, matchesSearchQuery, parseSearchQuery, scoreProduct } from './searchQuery';
+
+// Sorts the database can do on a column
+export type ProductColumnSortField = 'price' | 'rating' | 'name' | 'created_at';
+// ...plus relevance to the search text, which is worked out per product
+export type ProductSortField = ProductColumnSortField | 'relevance';
+export type SortDirection = 'asc' | 'desc';
+
+// Types for filtering products in the catalog
+export type ProductFilter = {
+  category?: string;      // Filter by product category
+  categories?: string[];  // Any of these (a category plus its subcategories) - takes precedence over `category`
+  minPrice?: number;      // Price range lower bound
+  maxPrice?: number;      // Price range upper bound
+  // The currency minPrice/maxPrice (and price: in the search box) are in, plus the rates to get
+  // every product's price into it. Without both, prices are compared as stored
+  priceCurrency?: CurrencyCode;
+  exchangeRates?: ExchangeRates;
+  minRating?: number;     // Show only well-rated items
+  lowStockOnly?: boolean; // At or below their reorder threshold (products without one never are)
+  attributes?: AttributeFilters; // Category attribute values, by key - products without the attribute never match
+  searchQuery?: string;   // Search box text - the query language in searchQuery.ts
+  onlyDeleted?: boolean;  // List the trash instead of the live catalog
+  createdBy?: string;     // Only products this user id created ("My products")
+  sortBy?: ProductSortField;      // Defaults to relevance when searching for text, else created_at
+  sortDirection?: SortDirection;  // Defaults to desc (newest first)
+  cursor?: string;        // Opaque token from a previous page's nextCursor
+  limit?: number;         // Page size, defaults to DEFAULT_PAGE_SIZE
+};
+
+// One page of results plus what's needed to fetch the next one
+export type ProductPage = {
+  items: Product[];
+  total: number;              // Everything matching the filters, across all pages
+  nextCursor: string | null;  // null when this is the last page
+};
+
+// What storage accepts: everything except the fields it manages itself
+// (rating and review_count follow the product's reviews - see ReviewRepository - and
+// stock_on_hand only moves through stock adjustments - see StockRepository)
+export type ProductInput = Omit<
+  Product,
+  'id' | 'created_at' | 'deleted_at' | 'version' | 'rating' | 'review_count' | 'stock_on_hand'
+>;
+
+// The computed part of a product: average stars and how many reviews they came from
+export type RatingSummary = Pick<Product, 'rating' | 'review_count'>;
+
+// What callers of productService may set - ownership is stamped by the service from the session
+export type NewProduct = Omit<ProductInput, 'created_by' | 'created_by_email' | 'updated_by'>;
+export type ProductUpdate = Partial<NewProduct>;
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+// Storage contract behind productService
+// Every backend has to honour the same filtering semantics so the UI behaves identically
+// Deleted products (deleted_at set) are left out of list/getById unless asked for explicitly
+export type ProductRepository = {
+  create(product: ProductInput): Promise<Product>;
+  createMany(products: ProductInput[]): Promise<Product[]>; // All or nothing
+  list(filters?: ProductFilter): Promise<ProductPage>;
+  // Counts next to the filter choices - each facet ignores its own filter (see computeFacets)
+  getFacets(filters?: ProductFilter): Promise<ProductFacets>;
+  // Only applies if the stored version still equals expectedVersion, otherwise ProductConflictError
+  update(id: string, updates: Partial<ProductInput>, expectedVersion: number): Promise<Product>;
+  softDelete(id: string): Promise<Product>;
+  restore(id: string): Promise<Product>;
+  purge(id: string): Promise<void>; // Only products in the trash - anything else throws
+  purgeDeletedBefore(cutoff: string): Promise<Product[]>; // Returns the purged products
+  getById(id: string, options?: { includeDeleted?: boolean }): Promise<Product>;
+  subscribe(listener: (change: ProductChange) => void): () => void; // Returns unsubscribe
+};
+
+// A change made somewhere else (another user, another tab)
+// Soft deletes arrive as updates with deleted_at set
+export type ProductChange =
+  | { type: 'insert'; product: Product }
+  | { type: 'update'; product: Product }
+  | { type: 'delete'; id: string };
+
+// Someone else saved the product after the caller loaded it
+// `current` is what's stored now, so the caller can merge instead of starting over
+export class ProductConflictError extends Error {
+  readonly current: Product;
+
+  constructor(current: Product) {
+    super(`${current.name} was changed by someone else while you were editing it`);
+    this.name = 'ProductConflictError';
+    this.current = current;
+  }
+}
+
+// No such product (or it's in the trash and the caller didn't ask for those)
+export class ProductNotFoundError extends Error {
+  readonly productId: string;
+
+  constructor(productId: string) {
+    super(`Product ${productId} not found`);
+    this.name = 'ProductNotFoundError';
+    this.productId = productId;
+  }
+}
+
+// Another product already has this SKU (SKUs are unique regardless of case)
+export class DuplicateSkuError extends Error {
+  readonly sku: string;
+
+  constructor(sku: string) {
+    super(`SKU ${sku} is already used by another product`);
+    this.name = 'DuplicateSkuError';
+    this.sku = sku;
+  }
+}
+
+// Rows from before versioning have no version yet
+export function getProductVersion(product: Pick<Product, 'version'>) {
+  return product.version ?? 0;
+}
+
+// Whether prices get converted before comparing (and sorting) - see ProductFilter.priceCurrency
+export function convertsPrices(filters?: ProductFilter) {
+  return Boolean(filters?.priceCurrency && filters.exchangeRates);
+}
+
+// A product's price in the filter's currency - what the price filters and price sort go by
+export function getFilterPrice(product: Pick<Product, 'price' | 'currency'>, filters?: ProductFilter) {
+  return filters?.priceCurrency && filters.exchangeRates
+    ? convertPrice(product.price, getProductCurrency(product), filters.priceCurrency, filters.exchangeRates)
+    : product.price;
+}
+
+// Products without stock data count as having none on hand
+export function getStockOnHand(product: Pick<Product, 'stock_on_hand'>) {
+  return product.stock_on_hand ?? 0;
+}
+
+// Low stock means at or below the reorder threshold - no threshold, no alert
+export function isLowStock(product: Pick<Product, 'stock_on_hand' | 'reorder_threshold'>) {
+  return product.reorder_threshold !== null && product.reorder_threshold !== undefined &&
+    getStockOnHand(product) <= product.reorder_threshold;
+}
+
+// Keyset cursor: the sort value and id of the last row on the page
+// id is the tie-breaker so products sharing a price/rating/name never get skipped or repeated
+export type ProductCursor = {
+  value: string | number;
+  id: string;
+};
+
+// Relevance only means something with search text - without it the usual default applies
+export function resolveSort(filters?: ProductFilter): { sortBy: ProductSortField; sortDirection: SortDirection } {
+  const searching = hasFreeText(parseSearchQuery(filters?.searchQuery));
+  if (filters?.sortBy === 'relevance' ? !searching : !filters?.sortBy) {
+    return searching
+      ? { sortBy: 'relevance', sortDirection: 'desc' }
+      : { sortBy: 'created_at', sortDirection: 'desc' };
+  }
+  return {
+    sortBy: filters!.sortBy!,
+    sortDirection: filters?.sortDirection ?? 'desc',
+  };
+}
+
+// In-memory version of the filters - mirrors the Supabase query in supabaseProductRepository
+// Used by the local backend and to check whether a realtime change belongs in the current view
+export function matchesProductFilter(product: Product, filters: ProductFilter) {
+  if (Boolean(product.deleted_at) !== Boolean(filters.onlyDeleted)) return false;
+  if (filters.createdBy && product.created_by !== filters.createdBy) return false;
+  if (filters.categories) {
+    if (!filters.categories.includes(product.category)) return false;
+  } else if (filters.category && product.category !== filters.category) {
+    return false;
+  }
+  const price = getFilterPrice(product, filters);
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+  if (filters.minRating !== undefined && product.rating < filters.minRating) return false;
+  if (filters.lowStockOnly && !isLowStock(product)) return false;
+  if (filters.attributes && !matchesAttributeFilters(product.attributes, filters.attributes)) return false;
+  if (filters.searchQuery) return matchesSearchQuery(product, parseSearchQuery(filters.searchQuery), price);
+  return true;
+}
+
+export function encodeCursor(cursor: ProductCursor) {
+  // encodeURIComponent first - btoa chokes on non-latin1 product names
+  return btoa(encodeURIComponent(JSON.stringify(cursor)));
+}
+
+export function decodeCursor(cursor: string): ProductCursor {
+  try {
+    const parsed = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (typeof parsed?.id !== 'string' || !['string', 'number'].includes(typeof parsed?.value)) {
+      throw new Error('malformed');
+    }
+    return parsed as ProductCursor;
+  } catch {
+    throw new Error('Invalid page cursor');
+  }
+}
+
+// Sort key of a product - the same shape a cursor carries
+function sortKey(product: Product, sortBy: ProductSortField, query: SearchQuery, filters?: ProductFilter): ProductCursor {
+  const value = sortBy === 'relevance'
+    ? scoreProduct(product, query)
+    : sortBy === 'price' ? getFilterPrice(product, filters) : product[sortBy];
+  return { value, id: product.id };
+}
+
+// Compare on the sort value, then id - same ordering as the Supabase query
+function compareKeys(a: ProductCursor, b: ProductCursor) {
+  const primary = typeof a.value === 'number' && typeof b.value === 'number'
+    ? a.value - b.value
+    : String(a.value).localeCompare(String(b.value));
+  if (primary !== 0) return primary;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Filter, sort and page an array of products exactly like list() does against the database
+// The local backend's whole listing, and how the offline cache answers queries
+export function listProductsInMemory(products: Product[], filters?: ProductFilter): ProductPage {
+  const { sortBy, sortDirection } = resolveSort(filters);
+  const limit = filters?.limit ?? DEFAULT_PAGE_SIZE;
+  const direction = sortDirection === 'asc' ? 1 : -1;
+
+  const query = parseSearchQuery(filters?.searchQuery);
+  const keys = new Map(products.map(product => [product.id, sortKey(product, sortBy, query, filters)]));
+  const keyOf = (product: Product) => keys.get(product.id)!;
+
+  const matching = products
+    .filter(product => matchesProductFilter(product, filters ?? {}))
+    .sort((a, b) => direction * compareKeys(keyOf(a), keyOf(b)));
+
+  let remaining = matching;
+  if (filters?.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    remaining = matching.filter(product => direction * compareKeys(keyOf(product), cursor) > 0);
+  }
+
+  const items = remaining.slice(0, limit);
+  return {
+    items,
+    total: matching.length,
+    nextCursor: remaining.length > limit ? encodeCursor(keyOf(items[items.length - 1])) : null,
+  };
+}
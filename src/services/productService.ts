@@ -1,105 +1,441 @@
-import { supabase, Product } from '../lib/supabase';
-
-// Types for filtering products in the catalog
-// TODO: Maybe add sorting options later?
-type ProductFilter = {
-  category?: string;      // Filter by product category
-  minPrice?: number;      // Price range lower bound
-  maxPrice?: number;      // Price range upper bound
-  minRating?: number;     // Show only well-rated items
-  searchQuery?: string;   // Search in name/description
-};
-
-// All the product-related database operations live here
-// Note: We might want to split this into smaller services if it grows too big
-export const productService = {
-  // Add a new product to the catalog
-  async createProduct(product: Omit<Product, 'id' | 'created_at'>) {
-    const { data, error } = await supabase
-      .from('products')
-      .insert([{ 
-        ...product, 
-        created_at: new Date().toISOString() // Keep track of when products are added
-      }])
-      .select()
-      .single();
-
-    if (error) throw new Error(`Failed to create product: ${error.message}`);
-    return data;
-  },
-
-  // Fetch products with optional filtering
-  // Returns newest products first - users usually want to see fresh stuff
-  async getProducts(filters?: ProductFilter) {
-    let query = supabase
-      .from('products')
-      .select('*');
-
-    // Apply any filters the user has set
-    if (filters) {
-      // Filter by category if specified
-      if (filters.category) {
-        query = query.eq('category', filters.category);
-      }
-      // Handle price range filtering
-      if (filters.minPrice !== undefined) {
-        query = query.gte('price', filters.minPrice);
-      }
-      if (filters.maxPrice !== undefined) {
-        query = query.lte('price', filters.maxPrice);
-      }
-      // Only show products with good ratings if requested
-      if (filters.minRating !== undefined) {
-        query = query.gte('rating', filters.minRating);
-      }
-      // Search in both name and description - more chances to find what user wants
-      if (filters.searchQuery) {
-        query = query.or(
-          `name.ilike.%${filters.searchQuery}%,description.ilike.%${filters.searchQuery}%`
-        );
-      }
-    }
-
-    const { data, error } = await query.order('created_at', { ascending: false });
-
-    if (error) throw new Error(`Couldn't fetch products: ${error.message}`);
-    return data;
-  },
-
-  // Update product details - keeping created_at and id untouchable
-  async updateProduct(id: string, updates: Partial<Omit<Product, 'id' | 'created_at'>>) {
-    const { data, error } = await supabase
-      .from('products')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw new Error(`Couldn't update product ${id}: ${error.message}`);
-    return data;
-  },
-
-  // Remove a product from the catalog
-  // Warning: This is permanent! Maybe add a 'soft delete' later?
-  async deleteProduct(id: string) {
-    const { error } = await supabase
-      .from('products')
-      .delete()
-      .eq('id', id);
-
-    if (error) throw new Error(`Failed to delete product ${id}: ${error.message}`);
-  },
-
-  // Get a single product by its ID
-  // Useful for product details page or quick lookups
-  async getProductById(id: string) {
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (error) throw new Error(`Product ${id} not found: ${error.message}`);
-    return data;
-  },
-};
\ No newline at end of file
+import { User } from '@supabase/supabase-js';
+import { isLocalBackend, trashRetentionDays } from '../lib/config';
+import { createIdbStore } from '../lib/idb';
+import { generateId } from '../lib/localStore';
+import { isNetworkError, isOnline } from '../lib/network';
+import { requirePermission, requireProductAccess } from '../lib/permissions';
+import { getSessionUser } from '../lib/session';
+import { Category, Product, ProductImage } from '../lib/supabase';
+import { findCategoryByName, getAttributeSchema } from '../lib/categoryTree';
+import {
+  ProductFieldErrors,
+  ProductValidationError,
+  hasProductErrors,
+  pickProductValues,
+  productRules,
+  validateProductFields,
+} from '../lib/productSchema';
+import {
+  NewProduct,
+  ProductChange,
+  ProductConflictError,
+  ProductFilter,
+  ProductNotFoundError,
+  ProductRepository,
+  ProductUpdate,
+  getProductVersion,
+  listProductsInMemory,
+} from './productRepository';
+import { supabaseProductRepository } from './supabaseProductRepository';
+import { localProductRepository } from './localProductRepository';
+import { categoryService } from './categoryService';
+import { revisionService } from './revisionService';
+import { imageService } from './imageService';
+import { computeProductFacets } from './productFacets';
+import { OFFLINE_ID_PREFIX, QueuedMutation, isQueuedBy, mutationQueue } from './mutationQueue';
+
+export type { CategoryFacet, PriceBucket, ProductFacets, RatingFacet } from './productFacets';
+export type {
+  ProductChange,
+  ProductFilter,
+  ProductPage,
+  ProductSortField,
+  SortDirection,
+} from './productRepository';
+export {
+  DEFAULT_PAGE_SIZE,
+  DuplicateSkuError,
+  ProductConflictError,
+  ProductNotFoundError,
+  getProductVersion,
+  getStockOnHand,
+  isLowStock,
+  matchesProductFilter,
+  resolveSort,
+} from './productRepository';
+export { ProductValidationError } from '../lib/productSchema';
+export type { ProductFieldErrors } from '../lib/productSchema';
+
+// Storage is picked once from config (VITE_BACKEND) - the rest of the app never cares which one it is
+const repository: ProductRepository = isLocalBackend
+  ? localProductRepository
+  : supabaseProductRepository;
+
+// Last-fetched copy of every product we've seen, so the catalog still reads offline
+// Offline edits are applied here straight away and queued (mutationQueue) for syncService to replay
+const offlineCache = createIdbStore<Product>('products');
+
+// Ownership fields for a brand new product
+function ownerStamp(user: User | null) {
+  return {
+    created_by: user?.id ?? null,
+    created_by_email: user?.email ?? null,
+    updated_by: user?.id ?? null,
+  };
+}
+
+// Remember what was fetched - except products with queued changes, whose cached copy
+// is the offline edit and must survive until it's synced. Best effort, like revisions
+async function cacheProducts(products: Product[]) {
+  try {
+    const queued = new Set((await mutationQueue.list()).map(mutation => mutation.productId));
+    await offlineCache.putMany(products.filter(product => !queued.has(product.id)));
+  } catch (err) {
+    console.error('Offline cache error:', err);
+  }
+}
+
+async function getCachedProduct(id: string) {
+  const product = await offlineCache.get(id);
+  if (!product) throw new Error(`Product ${id} isn't available offline`);
+  return product;
+}
+
+// Reads go to storage when it's reachable and fall back to the cache when it isn't
+async function readOrCached<T>(read: () => Promise<T>, cached: () => Promise<T>) {
+  if (!isOnline()) return cached();
+  try {
+    return await read();
+  } catch (err) {
+    if (isNetworkError(err)) return cached();
+    throw err;
+  }
+}
+
+// For attribute schemas - offline that's categoryService's cached copy. null when there isn't one
+// either: attribute checks then wait until the queued change is replayed
+async function loadCategories(): Promise<Category[] | null> {
+  try {
+    return await categoryService.getCategories();
+  } catch (err) {
+    if (!isOnline() || isNetworkError(err)) return null;
+    throw err;
+  }
+}
+
+// Required fields a caller left out count as blank, so it gets told rather than storing half a product
+const BLANK_PRODUCT: Pick<NewProduct, 'name' | 'description' | 'category' | 'price'> = {
+  name: '',
+  description: '',
+  category: '',
+  price: NaN,
+};
+
+// Products point at categories by name, so it has to be one that exists and isn't archived - stored
+// spelled the way the category is. Offline (no categories) this waits for the replay, like attributes
+function checkCategory(value: { category?: string }, errors: ProductFieldErrors, categories: Category[] | null) {
+  if (!categories || value.category === undefined || errors.category) return;
+  const category = findCategoryByName(categories, value.category);
+  if (!category) errors.category = productRules.category.unknown;
+  else if (category.archived_at) errors.category = productRules.category.archived;
+  else value.category = category.name;
+}
+
+// Everything written goes through the product schema first: tidied up, or refused with per-field errors
+function checkNewProduct(product: NewProduct, categories: Category[] | null) {
+  const { value, errors } = validateProductFields(
+    { ...BLANK_PRODUCT, ...product, attributes: product.attributes ?? {} },
+    categories && getAttributeSchema(categories, String(product.category ?? '').trim())
+  );
+  checkCategory(value, errors, categories);
+  if (hasProductErrors(errors)) throw new ProductValidationError(errors);
+  return value;
+}
+
+// Only the fields being changed are checked. Attributes are checked when they or the category change,
+// against the schema of the category the product ends up in. Anything that isn't an editable field is dropped
+function checkUpdate(before: Product, updates: ProductUpdate, categories: Category[] | null) {
+  const editable = pickProductValues(updates);
+  const movesCategory = editable.category !== undefined && editable.category !== before.category;
+  const values = movesCategory && !('attributes' in editable)
+    ? { ...editable, attributes: before.attributes ?? {} }
+    : editable;
+  const category = String(values.category ?? before.category).trim();
+  const { value, errors } = validateProductFields(values, categories && getAttributeSchema(categories, category));
+  // A product may stay in a category that's been archived since
+  if (movesCategory) checkCategory(value, errors, categories);
+  if (hasProductErrors(errors)) throw new ProductValidationError(errors);
+  return value;
+}
+
+// Changes to a product that already has queued ones must queue behind them to keep their order
+async function hasQueuedChanges(id: string) {
+  return (await mutationQueue.list()).some(mutation => mutation.productId === id);
+}
+
+// Writes go straight through when storage is reachable, otherwise they're queued
+async function writeOrQueue<T>(write: () => Promise<T>, queue: () => Promise<T>, mustQueue = false) {
+  if (mustQueue || !isOnline()) return queue();
+  try {
+    return await write();
+  } catch (err) {
+    if (isNetworkError(err)) return queue();
+    throw err;
+  }
+}
+
+// A product that's gone for good takes its stored images along - including ones only its older
+// revisions still show (the history outlives the product, but there's nothing left to revert)
+// Best effort: the product is already gone, so a failed cleanup is only logged
+async function discardStoredImages(product: Product) {
+  try {
+    const history = await revisionService.getHistory(product.id);
+    const images = new Map<string, ProductImage>();
+    [product, ...history.map(revision => revision.snapshot)].forEach(version => {
+      (version.images ?? []).forEach(image => images.set(image.id, image));
+    });
+    await imageService.discardImages([...images.values()]);
+  } catch (err) {
+    console.error('Image cleanup error:', err);
+  }
+}
+
+// The actual writes - shared by the normal calls and by replaying queued offline changes
+async function createOnline(product: NewProduct) {
+  const checked = checkNewProduct(product, await loadCategories());
+  const user = await getSessionUser();
+  const created = await repository.create({ ...checked, ...ownerStamp(user) });
+  await revisionService.record('create', null, created);
+  return created;
+}
+
+async function updateOnline(id: string, updates: ProductUpdate, expectedVersion: number) {
+  const before = await repository.getById(id, { includeDeleted: true });
+  await requireProductAccess('product:update', before);
+  const checked = checkUpdate(before, updates, await loadCategories());
+  const user = await getSessionUser();
+  const updated = await repository.update(id, { ...checked, updated_by: user?.id ?? null }, expectedVersion);
+  await revisionService.record('update', before, updated);
+  return updated;
+}
+
+async function deleteOnline(id: string) {
+  const before = await repository.getById(id, { includeDeleted: true });
+  await requireProductAccess('product:delete', before);
+  const deleted = await repository.softDelete(id);
+  await revisionService.record('delete', before, deleted);
+  return deleted;
+}
+
+// All the product-related database operations live here
+// Mutations check the caller's role first and throw a PermissionError if it isn't allowed
+// Note: We might want to split this into smaller services if it grows too big
+export const productService = {
+  // Add a new product to the catalog
+  // Stamped with the current user as owner
+  // Offline it gets a temporary id and shows up from the cache until the queued create syncs
+  async createProduct(product: NewProduct) {
+    await requirePermission('product:create');
+    return writeOrQueue(
+      () => createOnline(product),
+      async () => {
+        const checked = checkNewProduct(product, await loadCategories());
+        const user = await getSessionUser();
+        const created: Product = {
+          ...checked,
+          ...ownerStamp(user),
+          id: `${OFFLINE_ID_PREFIX}${generateId()}`,
+          rating: 0,
+          review_count: 0,
+          version: 1,
+          created_at: new Date().toISOString(),
+        };
+        await offlineCache.put(created);
+        await mutationQueue.enqueue(user?.id ?? null, created.id, created.name, { kind: 'create', product: checked });
+        return created;
+      }
+    );
+  },
+
+  // Add several products in one write (bulk import) - either all of them land or none do
+  async createProducts(products: NewProduct[]) {
+    await requirePermission('product:import');
+    if (products.length === 0) return [];
+    const categories = await loadCategories();
+    const checked = products.map(product => checkNewProduct(product, categories));
+    const user = await getSessionUser();
+    const created = await repository.createMany(checked.map(product => ({ ...product, ...ownerStamp(user) })));
+    for (const product of created) {
+      await revisionService.record('create', null, product);
+    }
+    return created;
+  },
+
+  // Walk every product matching the filters, one page at a time
+  // For bulk work (import matching, export) where a single page isn't enough
+  async *iterateProducts(filters?: Omit<ProductFilter, 'cursor'>) {
+    let cursor: string | undefined;
+    do {
+      const page = await repository.list({ ...filters, cursor });
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  },
+
+  // Fetch one page of products with optional filtering and sorting
+  // Defaults to newest first - users usually want to see fresh stuff
+  // Pass the returned nextCursor back in filters.cursor to get the following page
+  // Offline (or with the server unreachable) the page comes from the cache instead
+  async getProducts(filters?: ProductFilter) {
+    return readOrCached(
+      async () => {
+        const page = await repository.list(filters);
+        await cacheProducts(page.items);
+        return page;
+      },
+      async () => listProductsInMemory(await offlineCache.getAll(), filters)
+    );
+  },
+
+  // Counts to put next to the filter choices: per category, per minimum rating, and a price histogram
+  // Each facet counts as if its own filter weren't set, so it shows what changing it would give
+  async getFacets(filters?: ProductFilter) {
+    return readOrCached(
+      () => repository.getFacets(filters),
+      async () => computeProductFacets(await offlineCache.getAll(), filters)
+    );
+  },
+
+  // Update product details - keeping created_at and id untouchable
+  // Every change lands in the product's history along with who made it
+  // expectedVersion is the version the caller loaded; if someone saved in between
+  // this throws ProductConflictError (with the current product) instead of overwriting them
+  // Offline the version is checked against the cached copy and checked again when it replays
+  async updateProduct(id: string, updates: ProductUpdate, expectedVersion: number) {
+    await requirePermission('product:update');
+    return writeOrQueue(
+      () => updateOnline(id, updates, expectedVersion),
+      async () => {
+        const before = await getCachedProduct(id);
+        await requireProductAccess('product:update', before);
+        if (getProductVersion(before) !== expectedVersion) throw new ProductConflictError(before);
+        const checked = checkUpdate(before, updates, await loadCategories());
+        const user = await getSessionUser();
+        const updated: Product = {
+          ...before,
+          ...checked,
+          updated_by: user?.id ?? null,
+          version: expectedVersion + 1,
+        };
+        await offlineCache.put(updated);
+        await mutationQueue.enqueue(user?.id ?? null, id, updated.name, { kind: 'update', updates: checked, expectedVersion });
+        return updated;
+      },
+      await hasQueuedChanges(id)
+    );
+  },
+
+  // Move a product to the trash - it disappears from the catalog but can be restored
+  async deleteProduct(id: string) {
+    await requirePermission('product:delete');
+    await writeOrQueue(
+      () => deleteOnline(id),
+      async () => {
+        const before = await getCachedProduct(id);
+        await requireProductAccess('product:delete', before);
+        const user = await getSessionUser();
+        const deleted: Product = { ...before, deleted_at: new Date().toISOString() };
+        await offlineCache.put(deleted);
+        await mutationQueue.enqueue(user?.id ?? null, id, before.name, { kind: 'delete' });
+        return deleted;
+      },
+      await hasQueuedChanges(id)
+    );
+  },
+
+  // Send one queued offline change to storage for real - syncService calls this in queue order
+  // Only as the user who made it, and permissions are checked again since the role may have changed
+  // Throws just like the online call would, so a network error means "not yet"
+  async replayMutation(mutation: QueuedMutation) {
+    const user = await getSessionUser();
+    if (!user || !isQueuedBy(mutation, user.id)) {
+      throw new Error(`The change to ${mutation.productName} was made by someone else on this device`);
+    }
+    let result: Product;
+    if (mutation.kind === 'create') {
+      await requirePermission('product:create');
+      result = await createOnline(mutation.product);
+      await offlineCache.delete(mutation.productId);
+    } else if (mutation.kind === 'update') {
+      await requirePermission('product:update');
+      result = await updateOnline(mutation.productId, mutation.updates, mutation.expectedVersion);
+    } else {
+      await requirePermission('product:delete');
+      result = await deleteOnline(mutation.productId);
+    }
+    await offlineCache.put(result);
+    return result;
+  },
+
+  // Drop the cached copy (e.g. after discarding its queued change) - the next read refetches it
+  async forgetCachedProduct(id: string) {
+    await offlineCache.delete(id);
+  },
+
+  // Forget the whole offline catalog - it's whatever the last signed-in user was allowed to see
+  async clearOfflineCache() {
+    await offlineCache.clear();
+  },
+
+  // Trash listing, same paging and sorting as getProducts
+  async getDeletedProducts(filters?: ProductFilter) {
+    await requirePermission('trash:view');
+    return repository.list({ ...filters, onlyDeleted: true });
+  },
+
+  // Bring a product back from the trash
+  async restoreProduct(id: string) {
+    await requirePermission('product:restore');
+    const before = await repository.getById(id, { includeDeleted: true });
+    await requireProductAccess('product:restore', before);
+    const restored = await repository.restore(id);
+    await revisionService.record('restore', before, restored);
+    return restored;
+  },
+
+  // The real, no-way-back delete - only for products already in the trash
+  async permanentlyDeleteProduct(id: string) {
+    await requirePermission('product:purge');
+    const product = await repository.getById(id, { includeDeleted: true });
+    if (!product.deleted_at) throw new Error(`${product.name} isn't in the trash - move it there first`);
+    await repository.purge(id);
+    await discardStoredImages(product);
+  },
+
+  // Drop everything that has sat in the trash longer than the retention period
+  // Just as final as purging by hand, so it takes the same permission. Supabase does this on the server
+  // (a daily job, see the soft-delete migration) - this is for the local backend, which has no server
+  // Returns how many products were purged
+  async purgeExpiredProducts() {
+    await requirePermission('product:purge');
+    const cutoff = new Date(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000);
+    const purged = await repository.purgeDeletedBefore(cutoff.toISOString());
+    for (const product of purged) {
+      await discardStoredImages(product);
+    }
+    return purged.length;
+  },
+
+  // Live feed of product inserts, updates and deletes made elsewhere
+  // Supabase realtime, or other browser tabs for the local backend. Returns an unsubscribe function
+  subscribeToChanges(listener: (change: ProductChange) => void) {
+    return repository.subscribe(listener);
+  },
+
+  // Get a single product by its ID (trashed ones only when includeDeleted is set)
+  // Useful for product details page or quick lookups
+  async getProductById(id: string, options?: { includeDeleted?: boolean }) {
+    return readOrCached(
+      async () => {
+        const product = await repository.getById(id, options);
+        await cacheProducts([product]);
+        return product;
+      },
+      async () => {
+        const product = await getCachedProduct(id);
+        if (product.deleted_at && !options?.includeDeleted) throw new ProductNotFoundError(id);
+        return product;
+      }
+    );
+  },
+};
@@ -0,0 +1,53 @@
+import { Review } from '../lib/supabase';
+
+export type ReviewSort = 'newest' | 'helpful';
+
+export type ReviewContent = Pick<Review, 'stars' | 'title' | 'body'>;
+export type NewReview = Omit<Review, 'id' | 'helpful_count' | 'created_at' | 'updated_at'>;
+
+// One page of a product's reviews
+export type ReviewPage = {
+  items: Review[];
+  total: number;   // All reviews of the product, across every page
+};
+
+export type ReviewListOptions = {
+  sort: ReviewSort;
+  page: number;       // 1-based
+  pageSize: number;
+};
+
+// How many of a product's reviews gave `stars`
+export type StarCount = { stars: number; count: number };
+
+// The product's rating and review_count, from its star counts
+// Two decimals is plenty and keeps "4.666666" out of the database (which rounds the same way)
+export function summarizeStarCounts(distribution: StarCount[]) {
+  const count = distribution.reduce((sum, entry) => sum + entry.count, 0);
+  const total = distribution.reduce((sum, entry) => sum + entry.stars * entry.count, 0);
+  return {
+    average: count > 0 ? Math.round((total / count) * 100) / 100 : 0,
+    count,
+  };
+}
+
+// Storage for reviews and the "helpful" votes on them
+// One review per user and product, and one helpful vote per user and review
+// Storage keeps the counts in step by itself - the product's rating and review_count whenever its
+// reviews change, a review's helpful_count whenever it gets a vote (database triggers for Supabase) -
+// so nothing outside it ever writes them
+export type ReviewRepository = {
+  listForProduct(productId: string, options: ReviewListOptions): Promise<ReviewPage>;
+  // 5 stars down to 1 - counted by storage, so every review is in there however many there are
+  countStars(productId: string): Promise<StarCount[]>;
+  findByUser(productId: string, userId: string): Promise<Review | null>;
+  getById(id: string): Promise<Review>;
+  create(review: NewReview): Promise<Review>;
+  update(id: string, content: ReviewContent): Promise<Review>;
+  delete(id: string): Promise<void>;
+  // Votes are rows of their own - voting never writes the review. Voting twice is a no-op
+  // Returns the review with its new helpful_count
+  addHelpfulVote(reviewId: string, userId: string): Promise<Review>;
+  // Which of these reviews the user already voted helpful
+  listVotedReviewIds(userId: string, reviewIds: string[]): Promise<string[]>;
+};
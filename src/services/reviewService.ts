@@ -0,0 +1,118 @@
+import { isLocalBackend } from '../lib/config';
+import { getSessionUser } from '../lib/session';
+import { ReviewContent, ReviewRepository, ReviewSort, StarCount, summarizeStarCounts } from './reviewRepository';
+import { supabaseReviewRepository } from './supabaseReviewRepository';
+import { localReviewRepository } from './localReviewRepository';
+import { productService } from './productService';
+
+export type { ReviewContent, ReviewPage, ReviewSort, StarCount } from './reviewRepository';
+
+const repository: ReviewRepository = isLocalBackend
+  ? localReviewRepository
+  : supabaseReviewRepository;
+
+export const REVIEW_PAGE_SIZE = 5;
+
+export const reviewRules = {
+  title: { max: 120 },
+  body: { max: 5000 },
+};
+
+// How a product's reviews add up: the average, how many, and how many gave each star count
+export type ReviewStats = {
+  average: number;
+  count: number;
+  distribution: StarCount[];  // 5 stars down to 1
+};
+
+export function summarizeStars(distribution: StarCount[]): ReviewStats {
+  return { ...summarizeStarCounts(distribution), distribution };
+}
+
+// Returns the first problem found, or null when the review is good to post
+export function checkReview(content: ReviewContent) {
+  if (!Number.isInteger(content.stars) || content.stars < 1 || content.stars > 5) {
+    return 'Pick between 1 and 5 stars';
+  }
+  if (!content.title.trim()) return 'Give your review a title';
+  if (content.title.trim().length > reviewRules.title.max) {
+    return `Keep the title under ${reviewRules.title.max} characters`;
+  }
+  if (!content.body.trim()) return 'Tell people a bit about it';
+  if (content.body.trim().length > reviewRules.body.max) {
+    return `Reviews are limited to ${reviewRules.body.max} characters`;
+  }
+  return null;
+}
+
+async function requireUser(message: string) {
+  const user = await getSessionUser();
+  if (!user) throw new Error(message);
+  return user;
+}
+
+// Storage brings the product's rating up to date as reviews change - this fetches the result
+async function getRatedProduct(productId: string) {
+  return productService.getProductById(productId, { includeDeleted: true });
+}
+
+// Product reviews. Anyone signed in may review - even viewers - once per product,
+// and only the author can edit or delete a review
+export const reviewService = {
+  async getReviews(productId: string, sort: ReviewSort = 'newest', page = 1) {
+    return repository.listForProduct(productId, { sort, page, pageSize: REVIEW_PAGE_SIZE });
+  },
+
+  async getReviewStats(productId: string) {
+    return summarizeStars(await repository.countStars(productId));
+  },
+
+  // The signed-in user's review of the product, if they wrote one
+  async getMyReview(productId: string) {
+    const user = await getSessionUser();
+    return user ? repository.findByUser(productId, user.id) : null;
+  },
+
+  // Post a review, or update the user's existing one - there's only ever one each
+  // Returns the product too, since its rating just changed
+  async saveReview(productId: string, content: ReviewContent) {
+    const problem = checkReview(content);
+    if (problem) throw new Error(problem);
+    const user = await requireUser('Sign in to review products');
+    // Trashed (or missing) products can't be reviewed
+    await productService.getProductById(productId);
+
+    const trimmed = { stars: content.stars, title: content.title.trim(), body: content.body.trim() };
+    const existing = await repository.findByUser(productId, user.id);
+    const review = existing
+      ? await repository.update(existing.id, trimmed)
+      : await repository.create({
+          ...trimmed,
+          product_id: productId,
+          user_id: user.id,
+          user_email: user.email ?? null,
+        });
+    return { review, product: await getRatedProduct(productId) };
+  },
+
+  async deleteReview(id: string) {
+    const user = await requireUser('Sign in to manage your reviews');
+    const review = await repository.getById(id);
+    if (review.user_id !== user.id) throw new Error('You can only delete your own reviews');
+    await repository.delete(id);
+    return getRatedProduct(review.product_id);
+  },
+
+  async markHelpful(reviewId: string) {
+    const user = await requireUser('Sign in to vote on reviews');
+    const review = await repository.getById(reviewId);
+    if (review.user_id === user.id) throw new Error("You can't vote on your own review");
+    return repository.addHelpfulVote(reviewId, user.id);
+  },
+
+  // Which of these reviews the signed-in user already found helpful
+  async getMyHelpfulVotes(reviewIds: string[]) {
+    const user = await getSessionUser();
+    return new Set(user ? await repository.listVotedReviewIds(user.id, reviewIds) : []);
+  },
+};
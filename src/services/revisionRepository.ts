@@ -0,0 +1,29 @@
+import { Product } from '../lib/supabase';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+// Old and new value of one field
+export type FieldChange = {
+  from: unknown;
+  to: unknown;
+};
+
+// One recorded change to a product
+export type ProductRevision = {
+  id: string;
+  product_id: string;
+  action: RevisionAction;
+  changes: Record<string, FieldChange>; // Only the fields that actually changed
+  snapshot: Product;                    // The product as it was right after this change
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+};
+
+export type NewRevision = Omit<ProductRevision, 'id' | 'created_at'>;
+
+// Storage for revisions - append-only, newest first when listed
+export type RevisionRepository = {
+  add(revision: NewRevision): Promise<ProductRevision>;
+  listForProduct(productId: string): Promise<ProductRevision[]>;
+};
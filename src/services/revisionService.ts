@@ -0,0 +1,87 @@
+import { isLocalBackend } from '../lib/config';
+import { getSessionUser } from '../lib/session';
+import { pickProductValues } from '../lib/productSchema';
+import { Product } from '../lib/supabase';
+import { ProductUpdate } from './productRepository';
+import { FieldChange, ProductRevision, RevisionAction, RevisionRepository } from './revisionRepository';
+import { supabaseRevisionRepository } from './supabaseRevisionRepository';
+import { localRevisionRepository } from './localRevisionRepository';
+
+export type { FieldChange, ProductRevision, RevisionAction } from './revisionRepository';
+
+const repository: RevisionRepository = isLocalBackend
+  ? localRevisionRepository
+  : supabaseRevisionRepository;
+
+// Bookkeeping fields - never part of a diff and never written back on revert
+// (the revision itself already records who made each change, ratings follow the reviews,
+// stock has its own adjustment log and is_low_stock is computed by the database from it)
+const SYSTEM_FIELDS = new Set([
+  'id',
+  'created_at',
+  'version',
+  'rating',
+  'review_count',
+  'stock_on_hand',
+  'is_low_stock',
+  'deleted_at',
+  'created_by',
+  'created_by_email',
+  'updated_by',
+]);
+
+function isSameValue(a: unknown, b: unknown) {
+  // JSON comparison so arrays/objects compare by content
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Field-by-field diff between two versions of a product
+// `before` is null for a brand new product, so every field shows up as added
+export function diffProducts(before: Product | null, after: Product) {
+  const changes: Record<string, FieldChange> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+
+  fields.forEach(field => {
+    // deleted_at is the one system field worth seeing in history
+    if (SYSTEM_FIELDS.has(field) && field !== 'deleted_at') return;
+
+    const from = before ? (before as Record<string, unknown>)[field] : null;
+    const to = (after as Record<string, unknown>)[field];
+    if (!isSameValue(from, to)) {
+      changes[field] = { from: from ?? null, to: to ?? null };
+    }
+  });
+
+  return changes;
+}
+
+// The editable part of a revision's snapshot, ready to pass to productService.updateProduct
+export function revisionToUpdate(revision: ProductRevision): ProductUpdate {
+  return pickProductValues(revision.snapshot);
+}
+
+// Change history for products - productService records, the History panel reads
+export const revisionService = {
+  // Store a revision for a change that already happened
+  // History is best effort: a failed write is logged rather than undoing the product change
+  async record(action: RevisionAction, before: Product | null, after: Product) {
+    try {
+      const actor = await getSessionUser();
+      await repository.add({
+        product_id: after.id,
+        action,
+        changes: diffProducts(before, after),
+        snapshot: after,
+        actor_id: actor?.id ?? null,
+        actor_email: actor?.email ?? null,
+      });
+    } catch (err) {
+      console.error('Failed to record product history:', err);
+    }
+  },
+
+  // All revisions for a product, newest first
+  async getHistory(productId: string) {
+    return repository.listForProduct(productId);
+  },
+};
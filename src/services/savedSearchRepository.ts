@@ -0,0 +1,12 @@
+import { SavedSearch } from '../lib/supabase';
+
+export type NewSavedSearch = Omit<SavedSearch, 'id' | 'created_at'>;
+export type SavedSearchUpdate = Partial<Pick<SavedSearch, 'name' | 'query' | 'pinned'>>;
+
+// Storage for saved searches - a user only ever sees their own
+export type SavedSearchRepository = {
+  list(userId: string): Promise<SavedSearch[]>;
+  create(search: NewSavedSearch): Promise<SavedSearch>;
+  update(id: string, updates: SavedSearchUpdate): Promise<SavedSearch>;
+  delete(id: string): Promise<void>;
+};
@@ -0,0 +1,163 @@
+import { isLocalBackend } from '../lib/config';
+import { getSessionUser } from '../lib/session';
+import { ATTRIBUTE_KEY_PATTERN, AttributeFilters } from '../lib/attributes';
+import { CurrencyCode, isCurrencyCode } from '../lib/currency';
+import { ProductFilter, ProductSortField, SortDirection, resolveSort } from './productRepository';
+import { parseSearchQuery } from './searchQuery';
+import { SavedSearchRepository } from './savedSearchRepository';
+import { supabaseSavedSearchRepository } from './supabaseSavedSearchRepository';
+import { localSavedSearchRepository } from './localSavedSearchRepository';
+
+const repository: SavedSearchRepository = isLocalBackend
+  ? localSavedSearchRepository
+  : supabaseSavedSearchRepository;
+
+// Everything the product list lets you search by, as it travels in the URL
+// "Mine only" rather than a user id, and price bounds with the currency they're in (priceCurrency),
+// so a shared link means the same thing to whoever opens it
+export type ProductSearch = {
+  filters: Pick<
+    ProductFilter,
+    'searchQuery' | 'category' | 'minPrice' | 'maxPrice' | 'priceCurrency' | 'minRating' | 'lowStockOnly' | 'attributes'
+  >;
+  mineOnly: boolean;
+  // Left out for the default sort, which depends on the search (see resolveSort)
+  sortBy?: ProductSortField;
+  sortDirection?: SortDirection;
+};
+
+const SORT_FIELDS: ProductSortField[] = ['price', 'rating', 'name', 'created_at', 'relevance'];
+
+// Query string keys, matched to the filter they carry
+const NUMBER_PARAMS = {
+  min_price: 'minPrice',
+  max_price: 'maxPrice',
+  min_rating: 'minRating',
+} as const;
+
+// Attribute filters: attr.size=M, attr.wattage.min=100, attr.wattage.max=500
+const ATTRIBUTE_PARAM = /^attr\.([^.]+)(?:\.(min|max))?$/;
+
+function parseAttributeParams(params: URLSearchParams) {
+  const attributes: AttributeFilters = {};
+  params.forEach((value, param) => {
+    const [, key, bound] = ATTRIBUTE_PARAM.exec(param) ?? [];
+    if (!key || !ATTRIBUTE_KEY_PATTERN.test(key) || !value.trim()) return;
+    if (!bound) {
+      attributes[key] = { ...attributes[key], equals: value.trim() };
+    } else if (Number.isFinite(Number(value))) {
+      attributes[key] = { ...attributes[key], [bound]: Number(value) };
+    }
+  });
+  return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+// Read a search from a query string (or URLSearchParams) - anything malformed is just ignored
+export function parseProductSearch(query: string | URLSearchParams): ProductSearch {
+  const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+  const filters: ProductSearch['filters'] = {};
+
+  const searchQuery = params.get('q')?.trim();
+  if (searchQuery) filters.searchQuery = searchQuery;
+  const category = params.get('category');
+  if (category) filters.category = category;
+  for (const [param, field] of Object.entries(NUMBER_PARAMS)) {
+    const value = Number(params.get(param));
+    if (params.get(param) && Number.isFinite(value)) filters[field] = value;
+  }
+  const priceCurrency = params.get('price_currency')?.toUpperCase();
+  if (isCurrencyCode(priceCurrency)) filters.priceCurrency = priceCurrency;
+  if (params.get('low_stock') === '1') filters.lowStockOnly = true;
+  const attributes = parseAttributeParams(params);
+  if (attributes) filters.attributes = attributes;
+
+  // sort=price:asc - the default sort is left out of the URL
+  const [sortBy, sortDirection] = (params.get('sort') ?? '').split(':');
+  const sort = SORT_FIELDS.includes(sortBy as ProductSortField) && (sortDirection === 'asc' || sortDirection === 'desc')
+    ? { sortBy: sortBy as ProductSortField, sortDirection: sortDirection as SortDirection }
+    : {};
+
+  return { filters, mineOnly: params.get('mine') === '1', ...sort };
+}
+
+// The other way round. Defaults are left out, so an unfiltered list is a bare URL
+export function formatProductSearch(search: ProductSearch) {
+  const params = new URLSearchParams();
+  const { filters } = search;
+  if (filters.searchQuery) params.set('q', filters.searchQuery);
+  if (filters.category) params.set('category', filters.category);
+  for (const [param, field] of Object.entries(NUMBER_PARAMS)) {
+    if (filters[field] !== undefined) params.set(param, String(filters[field]));
+  }
+  if (filters.priceCurrency) params.set('price_currency', filters.priceCurrency);
+  if (filters.lowStockOnly) params.set('low_stock', '1');
+  for (const [key, condition] of Object.entries(filters.attributes ?? {})) {
+    if (condition.equals !== undefined) params.set(`attr.${key}`, condition.equals);
+    if (condition.min !== undefined) params.set(`attr.${key}.min`, String(condition.min));
+    if (condition.max !== undefined) params.set(`attr.${key}.max`, String(condition.max));
+  }
+  if (search.mineOnly) params.set('mine', '1');
+
+  const defaults = resolveSort({ searchQuery: filters.searchQuery });
+  if (search.sortBy && (search.sortBy !== defaults.sortBy || search.sortDirection !== defaults.sortDirection)) {
+    params.set('sort', `${search.sortBy}:${search.sortDirection ?? 'desc'}`);
+  }
+  return params.toString();
+}
+
+// Whether any price bounds are set - min/max, or price: in the search box
+function hasPriceConditions(filters: ProductSearch['filters']) {
+  return filters.minPrice !== undefined || filters.maxPrice !== undefined ||
+    parseSearchQuery(filters.searchQuery).conditions.some(condition => condition.field === 'price');
+}
+
+// Pins the price bounds to `currency` - the one they were typed in - so they don't change meaning
+// for someone with another display currency. Searches without price bounds don't carry one
+export function withPriceCurrency(search: ProductSearch, currency: CurrencyCode): ProductSearch {
+  const filters: ProductSearch['filters'] = { ...search.filters, priceCurrency: currency };
+  if (!hasPriceConditions(filters)) delete filters.priceCurrency;
+  return { ...search, filters };
+}
+
+// Link to the current page with a search applied - for sharing
+export function getSearchUrl(query: string) {
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+}
+
+async function requireUserId() {
+  const user = await getSessionUser();
+  if (!user) throw new Error('Sign in to save searches');
+  return user.id;
+}
+
+// Named searches, private to each account. Anyone signed in may keep their own - even viewers
+export const savedSearchService = {
+  async getSavedSearches() {
+    const user = await getSessionUser();
+    return user ? repository.list(user.id) : [];
+  },
+
+  async saveSearch(name: string, query: string) {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Give the search a name');
+    const userId = await requireUserId();
+    return repository.create({ user_id: userId, name: trimmed, query, pinned: false });
+  },
+
+  async setPinned(id: string, pinned: boolean) {
+    await requireUserId();
+    return repository.update(id, { pinned });
+  },
+
+  async renameSearch(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Give the search a name');
+    await requireUserId();
+    return repository.update(id, { name: trimmed });
+  },
+
+  async deleteSearch(id: string) {
+    await requireUserId();
+    return repository.delete(id);
+  },
+};
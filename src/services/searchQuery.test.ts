@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../lib/supabase';
+import { matchesSearchQuery, parseSearchQuery, scoreProduct } from './searchQuery';
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p1',
+  name: 'Noise cancelling headphones',
+  description: 'Wireless, over-ear',
+  category: 'Electronics',
+  price: 120,
+  rating: 4,
+  created_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+  it('returns an empty query for no input', () => {
+    expect(parseSearchQuery()).toEqual({
+      terms: [],
+      excluded: [],
+      categories: [],
+      excludedCategories: [],
+      conditions: [],
+    });
+  });
+
+  it('reads words, phrases and exclusions, lower-cased', () => {
+    const query = parseSearchQuery('Headphones "Noise Cancelling" -refurbished -"open box"');
+    expect(query.terms).toEqual(['headphones', 'noise cancelling']);
+    expect(query.excluded).toEqual(['refurbished', 'open box']);
+  });
+
+  it('reads categories, including the cat: alias and exclusions', () => {
+    const query = parseSearchQuery('category:Books cat:"Home Office" -category:Clothing');
+    expect(query.categories).toEqual(['Books', 'Home Office']);
+    expect(query.excludedCategories).toEqual(['Clothing']);
+  });
+
+  it('reads numeric comparisons and ranges', () => {
+    expect(parseSearchQuery('price:<20 rating:>=4 price:10..20 rating:5').conditions).toEqual([
+      { field: 'price', op: 'lt', value: 20 },
+      { field: 'rating', op: 'gte', value: 4 },
+      { field: 'price', op: 'gte', value: 10 },
+      { field: 'price', op: 'lte', value: 20 },
+      { field: 'rating', op: 'eq', value: 5 },
+    ]);
+  });
+
+  it('searches for anything that does not parse as a field as text', () => {
+    const query = parseSearchQuery('price:cheap colour:red');
+    expect(query.conditions).toEqual([]);
+    expect(query.terms).toEqual(['price:cheap', 'colour:red']);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('needs every term in the name or description', () => {
+    expect(matchesSearchQuery(product(), parseSearchQuery('headphones wireless'))).toBe(true);
+    expect(matchesSearchQuery(product(), parseSearchQuery('headphones wired'))).toBe(false);
+  });
+
+  it('leaves out exclusions', () => {
+    expect(matchesSearchQuery(product(), parseSearchQuery('-wireless'))).toBe(false);
+  });
+
+  it('matches categories whatever the case', () => {
+    expect(matchesSearchQuery(product(), parseSearchQuery('category:electronics'))).toBe(true);
+    expect(matchesSearchQuery(product(), parseSearchQuery('-cat:ELECTRONICS'))).toBe(false);
+  });
+
+  it('compares prices in the currency given', () => {
+    const query = parseSearchQuery('price:<100');
+    expect(matchesSearchQuery(product(), query)).toBe(false);
+    expect(matchesSearchQuery(product(), query, 90)).toBe(true);
+  });
+});
+
+describe('scoreProduct', () => {
+  it('ranks name hits over description hits', () => {
+    const query = parseSearchQuery('wireless');
+    const inName = product({ name: 'Wireless mouse', description: '' });
+    const inDescription = product({ name: 'Mouse', description: 'Wireless' });
+    expect(scoreProduct(inName, query)).toBeGreaterThan(scoreProduct(inDescription, query));
+  });
+
+  it('gives an exact name match the most', () => {
+    const query = parseSearchQuery('desk lamp');
+    expect(scoreProduct(product({ name: 'Desk lamp', description: '' }), query)).toBe(4 + 3 + 5);
+  });
+});
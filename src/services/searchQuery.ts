@@ -0,0 +1,135 @@
+import { Product } from '../lib/supabase';
+
+// The search box understands a small query language:
+//   headphones "noise cancelling"   words and quoted phrases, all of them must match name or description
+//   -refurbished  -"open box"       none of these may match
+//   category:Books  cat:"Home Office"  -category:Clothing
+//   price:<20  price:>=5  price:10..20  rating:>=4  rating:5
+// Anything that doesn't parse as a field is just searched for as text
+
+export type NumericField = 'price' | 'rating';
+export type NumericOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+export type NumericCondition = {
+  field: NumericField;
+  op: NumericOperator;
+  value: number;
+};
+
+export type SearchQuery = {
+  terms: string[];               // Free text - lower-cased
+  excluded: string[];            // -word / -"phrase" - lower-cased
+  categories: string[];          // category:X (more than one means any of them)
+  excludedCategories: string[];  // -category:X
+  conditions: NumericCondition[];
+};
+
+const FIELD_ALIASES: Record<string, 'category' | NumericField> = {
+  category: 'category',
+  cat: 'category',
+  price: 'price',
+  rating: 'rating',
+};
+
+const OPERATORS: Record<string, NumericOperator> = {
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte',
+  '=': 'eq',
+};
+
+// optional "-", optional "field:", then a quoted phrase or a bare word
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const COMPARISON_PATTERN = new RegExp(`^(<=|>=|<|>|=)?${NUMBER}$`);
+const RANGE_PATTERN = new RegExp(`^${NUMBER}\\.\\.${NUMBER}$`);
+
+// price:<20 -> [{ lt 20 }], price:10..20 -> [{ gte 10 }, { lte 20 }]
+function parseNumeric(field: NumericField, value: string): NumericCondition[] | null {
+  const range = RANGE_PATTERN.exec(value);
+  if (range) {
+    return [
+      { field, op: 'gte', value: Number(range[1]) },
+      { field, op: 'lte', value: Number(range[2]) },
+    ];
+  }
+  const comparison = COMPARISON_PATTERN.exec(value);
+  if (!comparison) return null;
+  return [{ field, op: OPERATORS[comparison[1] ?? '='], value: Number(comparison[2]) }];
+}
+
+export function parseSearchQuery(input?: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], excluded: [], categories: [], excludedCategories: [], conditions: [] };
+  if (!input) return parsed;
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, fieldName, phrase, word] = match;
+    const value = (phrase ?? word ?? '').trim();
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+
+    if (field === 'category' && value) {
+      (negation ? parsed.excludedCategories : parsed.categories).push(value);
+      continue;
+    }
+    if ((field === 'price' || field === 'rating') && !negation) {
+      const conditions = parseNumeric(field, value);
+      if (conditions) {
+        parsed.conditions.push(...conditions);
+        continue;
+      }
+    }
+
+    // Unknown fields (and numbers that didn't parse) are searched for as typed
+    const text = (fieldName ? raw.replace(/^-/, '') : value).replace(/"/g, '').trim().toLowerCase();
+    if (!text || text === '-') continue;
+    (negation ? parsed.excluded : parsed.terms).push(text);
+  }
+  return parsed;
+}
+
+export function hasFreeText(query: SearchQuery) {
+  return query.terms.length > 0;
+}
+
+function compare(actual: number, { op, value }: NumericCondition) {
+  switch (op) {
+    case 'lt': return actual < value;
+    case 'lte': return actual <= value;
+    case 'gt': return actual > value;
+    case 'gte': return actual >= value;
+    case 'eq': return actual === value;
+  }
+}
+
+// In-memory version of the query - mirrors what supabaseProductRepository sends to the database
+// `price` is the product's price in the currency the query's prices mean (see getFilterPrice)
+export function matchesSearchQuery(product: Product, query: SearchQuery, price = product.price) {
+  const name = product.name.toLowerCase();
+  const description = product.description.toLowerCase();
+  const category = product.category.toLowerCase();
+  const mentions = (text: string) => name.includes(text) || description.includes(text);
+
+  if (!query.terms.every(mentions)) return false;
+  if (query.excluded.some(mentions)) return false;
+  if (query.categories.length > 0 && !query.categories.some(c => c.toLowerCase() === category)) return false;
+  if (query.excludedCategories.some(c => c.toLowerCase() === category)) return false;
+  return query.conditions.every(condition =>
+    compare(condition.field === 'price' ? price : product[condition.field], condition)
+  );
+}
+
+// Relevance of a product to the free text - name hits count for more than description hits,
+// and a name that starts with the term (or is exactly the whole query) more still
+export function scoreProduct(product: Product, query: SearchQuery) {
+  const name = product.name.toLowerCase();
+  const description = product.description.toLowerCase();
+  let score = 0;
+
+  for (const term of query.terms) {
+    if (name.includes(term)) score += name.startsWith(term) ? 4 : 3;
+    if (description.includes(term)) score += 1;
+  }
+  if (query.terms.length > 0 && name === query.terms.join(' ')) score += 5;
+  return score;
+}
@@ -0,0 +1,12 @@
+import { UserSession } from '../lib/supabase';
+
+export type NewUserSession = Pick<UserSession, 'user_id' | 'user_agent'>;
+
+// Storage for the session list - a user only ever sees their own
+export type SessionRepository = {
+  list(userId: string): Promise<UserSession[]>;        // Active ones, most recently seen first
+  get(id: string): Promise<UserSession | null>;
+  create(session: NewUserSession): Promise<UserSession>;
+  touch(id: string): Promise<void>;                    // Bump last_seen_at
+  revoke(ids: string[]): Promise<void>;
+};
@@ -0,0 +1,106 @@
+import { User } from '@supabase/supabase-js';
+import { getSupabase, UserSession } from '../lib/supabase';
+import { isLocalBackend } from '../lib/config';
+import { getSessionUser } from '../lib/session';
+import { SessionRepository } from './sessionRepository';
+import { supabaseSessionRepository } from './supabaseSessionRepository';
+import { localSessionRepository } from './localSessionRepository';
+
+const repository: SessionRepository = isLocalBackend
+  ? localSessionRepository
+  : supabaseSessionRepository;
+
+// Which row is this browser's. It's in localStorage so every tab shares it, the same as the auth session
+const CURRENT_SESSION_KEY = 'catalog.sessionId';
+// Held while checking so two tabs opening at once don't both start a session
+const SESSION_LOCK = 'catalog-session';
+
+export type SessionListEntry = UserSession & { current: boolean };
+
+function readCurrentId() {
+  try {
+    return window.localStorage.getItem(CURRENT_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeCurrentId(id: string | null) {
+  try {
+    if (id) window.localStorage.setItem(CURRENT_SESSION_KEY, id);
+    else window.localStorage.removeItem(CURRENT_SESSION_KEY);
+  } catch {
+    // Without storage every page load is a new session - not worth failing over
+  }
+}
+
+function withSessionLock<T>(run: () => Promise<T>): Promise<T> {
+  return typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(SESSION_LOCK, run)
+    : run();
+}
+
+async function requireUser() {
+  const user = await getSessionUser();
+  if (!user) throw new Error('You need to be signed in to manage sessions');
+  return user;
+}
+
+// The session list behind the account page. Revoking marks the row, and the browser it belongs to
+// signs itself out the next time it checks in (see check) - so it can take a few minutes
+export const sessionService = {
+  // Make sure this browser has a live session row for `user` and mark it as seen
+  // Returns false when the row was revoked from another session - this browser should sign out
+  check(user: User): Promise<boolean> {
+    return withSessionLock(async () => {
+      const id = readCurrentId();
+      const existing = id ? await repository.get(id) : null;
+      if (existing && existing.user_id === user.id) {
+        if (existing.revoked_at) return false;
+        await repository.touch(existing.id);
+        return true;
+      }
+      const created = await repository.create({
+        user_id: user.id,
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      });
+      writeCurrentId(created.id);
+      return true;
+    });
+  },
+
+  // Signing out (for whatever reason) - the row goes off the list and this browser forgets it
+  async end() {
+    const id = readCurrentId();
+    writeCurrentId(null);
+    if (id) await repository.revoke([id]);
+  },
+
+  async listSessions(): Promise<SessionListEntry[]> {
+    const user = await requireUser();
+    const currentId = readCurrentId();
+    const sessions = await repository.list(user.id);
+    return sessions.map(session => ({ ...session, current: session.id === currentId }));
+  },
+
+  async revoke(id: string) {
+    const user = await requireUser();
+    if (id === readCurrentId()) throw new Error("That's this session - sign out instead");
+    const session = await repository.get(id);
+    if (!session || session.user_id !== user.id) throw new Error(`Session ${id} not found`);
+    await repository.revoke([id]);
+  },
+
+  // Everything but this browser. Supabase can also cut off their refresh tokens straight away,
+  // so they don't wait for their next check-in
+  async revokeOthers() {
+    const user = await requireUser();
+    const currentId = readCurrentId();
+    const others = (await repository.list(user.id)).filter(session => session.id !== currentId);
+    await repository.revoke(others.map(session => session.id));
+    if (!isLocalBackend) {
+      const { error } = await getSupabase().auth.signOut({ scope: 'others' });
+      if (error) throw new Error(`Couldn't sign out the other sessions: ${error.message}`);
+    }
+  },
+};
@@ -0,0 +1,28 @@
+import { StockAdjustment, StockAdjustmentKind } from '../lib/supabase';
+
+// What stockService hands to storage. `quantity` is as asked for (see StockAdjustmentRequest) -
+// storage works out the new stock from the current one and records the signed change itself
+export type StockAdjustmentInput = {
+  product_id: string;
+  kind: StockAdjustmentKind;
+  quantity: number;
+  reason: string;
+  actor_id: string | null;
+  actor_email: string | null;
+};
+
+// The stock on hand after an adjustment - throws if there isn't enough to sell
+// The adjust_stock database function does the same sums
+export function applyStockAdjustment(current: number, kind: StockAdjustmentKind, quantity: number) {
+  if (kind === 'receive') return current + quantity;
+  if (kind === 'correct') return quantity;
+  if (quantity > current) throw new Error(`Only ${current} in stock`);
+  return current - quantity;
+}
+
+// Storage for stock and its audit trail - append-only, newest first when listed
+export type StockRepository = {
+  // Moves the product's stock_on_hand and records the adjustment in one step - never one without the other
+  adjust(input: StockAdjustmentInput): Promise<StockAdjustment>;
+  listForProduct(productId: string): Promise<StockAdjustment[]>;
+};
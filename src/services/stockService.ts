@@ -0,0 +1,75 @@
+import { isLocalBackend } from '../lib/config';
+import { requirePermission } from '../lib/permissions';
+import { getSessionUser } from '../lib/session';
+import { Product, StockAdjustmentKind } from '../lib/supabase';
+import { getStockOnHand } from './productRepository';
+import { StockRepository } from './stockRepository';
+import { supabaseStockRepository } from './supabaseStockRepository';
+import { localStockRepository } from './localStockRepository';
+import { productService } from './productService';
+
+const repository: StockRepository = isLocalBackend
+  ? localStockRepository
+  : supabaseStockRepository;
+
+// What the user asks for. `quantity` means:
+//   receive - how many came in, sell - how many went out, correct - the counted stock on hand
+export type StockAdjustmentRequest = {
+  kind: StockAdjustmentKind;
+  quantity: number;
+  reason: string;
+};
+
+// Returns the first problem found, or null when the adjustment can go ahead
+export function checkStockAdjustment(request: StockAdjustmentRequest) {
+  if (!Number.isInteger(request.quantity) || request.quantity < 0) {
+    return 'Quantities are whole numbers, zero or more';
+  }
+  if (request.kind !== 'correct' && request.quantity === 0) {
+    return request.kind === 'receive' ? 'How many came in?' : 'How many went out?';
+  }
+  if (!request.reason.trim()) return 'Add a reason so the next person knows what happened';
+  return null;
+}
+
+// How far under its threshold a product is - the dashboard shows the worst first
+export function getShortfall(product: Product) {
+  return (product.reorder_threshold ?? 0) - getStockOnHand(product);
+}
+
+// Stock on hand only ever moves through here, and every move is recorded with who and why
+export const stockService = {
+  async adjustStock(productId: string, request: StockAdjustmentRequest) {
+    const problem = checkStockAdjustment(request);
+    if (problem) throw new Error(problem);
+    await requirePermission('stock:adjust');
+
+    // The stock and its record change together, so a failure leaves neither behind
+    const actor = await getSessionUser();
+    const adjustment = await repository.adjust({
+      product_id: productId,
+      kind: request.kind,
+      quantity: request.quantity,
+      reason: request.reason.trim(),
+      actor_id: actor?.id ?? null,
+      actor_email: actor?.email ?? null,
+    });
+    // Read back through productService so the offline cache has the new stock too
+    const product = await productService.getProductById(productId, { includeDeleted: true });
+    return { product, adjustment };
+  },
+
+  // Everything that ever moved this product's stock, newest first
+  async getAdjustments(productId: string) {
+    return repository.listForProduct(productId);
+  },
+
+  // Products at or below their reorder threshold, furthest under first
+  async getLowStockProducts() {
+    const products: Product[] = [];
+    for await (const product of productService.iterateProducts({ lowStockOnly: true, limit: 200 })) {
+      products.push(product);
+    }
+    return products.sort((a, b) => getShortfall(b) - getShortfall(a) || a.name.localeCompare(b.name));
+  },
+};
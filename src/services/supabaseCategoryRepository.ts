@@ -0,0 +1,49 @@
+import { Category, getSupabase } from '../lib/supabase';
+import { CategoryRepository } from './categoryRepository';
+
+// Categories stored in the Supabase 'categories' table
+export const supabaseCategoryRepository: CategoryRepository = {
+  async list() {
+    const { data, error } = await getSupabase()
+      .from('categories')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw new Error(`Couldn't fetch categories: ${error.message}`);
+    return data as Category[];
+  },
+
+  async create(category) {
+    const { data, error } = await getSupabase()
+      .from('categories')
+      .insert([{ ...category, archived_at: null, created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create category: ${error.message}`);
+    return data as Category;
+  },
+
+  async update(id, updates) {
+    const { data, error } = await getSupabase()
+      .from('categories')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't update category ${id}: ${error.message}`);
+    return data as Category;
+  },
+
+  // One transaction in the database (the rename_category function), so products never point at a
+  // name that's gone
+  async rename(id, name) {
+    const { data, error } = await getSupabase()
+      .rpc('rename_category', { category_id: id, new_name: name })
+      .single();
+
+    if (error) throw new Error(`Couldn't rename category ${id}: ${error.message}`);
+    return data as Category;
+  },
+};
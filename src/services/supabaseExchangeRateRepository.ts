@@ -0,0 +1,25 @@
+import { ExchangeRate, getSupabase } from '../lib/supabase';
+import { ExchangeRateRepository } from './exchangeRateRepository';
+
+// Rates in the Supabase 'exchange_rates' table, keyed by currency
+export const supabaseExchangeRateRepository: ExchangeRateRepository = {
+  async list() {
+    const { data, error } = await getSupabase()
+      .from('exchange_rates')
+      .select('*');
+
+    if (error) throw new Error(`Couldn't fetch exchange rates: ${error.message}`);
+    return data as ExchangeRate[];
+  },
+
+  async set(currency, rate, updatedByEmail) {
+    const { data, error } = await getSupabase()
+      .from('exchange_rates')
+      .upsert({ currency, rate, updated_at: new Date().toISOString(), updated_by_email: updatedByEmail })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't update the ${currency} rate: ${error.message}`);
+    return data as ExchangeRate;
+  },
+};
@@ -0,0 +1,22 @@
+import { getSupabase } from '../lib/supabase';
+import { ImageStorage } from './imageStorage';
+
+// Public bucket in Supabase Storage
+const BUCKET = 'product-images';
+
+export const supabaseImageStorage: ImageStorage = {
+  async upload(path, file) {
+    const bucket = getSupabase().storage.from(BUCKET);
+    const { error } = await bucket.upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) throw new Error(`Failed to upload image: ${error.message}`);
+    return bucket.getPublicUrl(path).data.publicUrl;
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const { error } = await getSupabase().storage.from(BUCKET).remove(paths);
+
+    if (error) throw new Error(`Failed to delete images: ${error.message}`);
+  },
+};
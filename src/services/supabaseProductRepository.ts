@@ -0,0 +1,400 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { ATTRIBUTE_KEY_PATTERN } from '../lib/attributes';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, convertPrice } from '../lib/currency';
+import { getSupabase, Product } from '../lib/supabase';
+import {
+  DEFAULT_PAGE_SIZE,
+  DuplicateSkuError,
+  ProductChange,
+  ProductConflictError,
+  ProductFilter,
+  ProductNotFoundError,
+  ProductRepository,
+  convertsPrices,
+  decodeCursor,
+  encodeCursor,
+  resolveSort,
+} from './productRepository';
+import { ProductFacets } from './productFacets';
+import { NumericCondition, parseSearchQuery } from './searchQuery';
+
+// 23505 from the unique index on upper(sku) - details reads "Key (upper(sku))=(ABC-1) already exists."
+function toDuplicateSkuError(error: PostgrestError) {
+  if (error.code !== '23505' || !error.details?.includes('sku')) return null;
+  return new DuplicateSkuError(/=\((.*)\) already exists/.exec(error.details)?.[1] ?? 'value');
+}
+
+// PostgREST filter strings split on commas and parentheses, so wrap values in double quotes
+function quoteFilterValue(value: string | number) {
+  return typeof value === 'number'
+    ? String(value)
+    : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Escape LIKE wildcards so user text only ever matches literally
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+const containsPattern = (text: string) => `%${escapeLike(text)}%`;
+
+// Base query with the user's filters applied, shared by the page and count requests
+// `ranked` reads through the search_products function instead of the table: the same rows plus a
+// relevance column - how well each matches the search terms, scored the same way as scoreProduct
+// (sent as a POST with the terms in the body - it's never used for the head-only count, see list)
+function filteredQuery(filters?: ProductFilter, countOnly = false, ranked = false) {
+  const fromTable = () => getSupabase()
+    .from('products')
+    .select('*', { count: countOnly ? 'exact' : undefined, head: countOnly });
+  // Products rows (plus relevance), so every filter below applies to it just the same
+  let query = ranked
+    ? getSupabase().rpc(
+      'search_products',
+      { search_terms: parseSearchQuery(filters?.searchQuery).terms }
+    ) as unknown as ReturnType<typeof fromTable>
+    : fromTable();
+
+  // Live catalog by default, the trash when asked for
+  query = filters?.onlyDeleted
+    ? query.not('deleted_at', 'is', null)
+    : query.is('deleted_at', null);
+
+  // Apply any filters the user has set
+  if (filters) {
+    // Only the current user's products
+    if (filters.createdBy) {
+      query = query.eq('created_by', filters.createdBy);
+    }
+    // Filter by category if specified
+    if (filters.categories) {
+      query = query.in('category', filters.categories);
+    } else if (filters.category) {
+      query = query.eq('category', filters.category);
+    }
+    // Price range - collected with the search box's price: conditions and applied below
+    const priceConditions: Omit<NumericCondition, 'field'>[] = [];
+    if (filters.minPrice !== undefined) {
+      priceConditions.push({ op: 'gte', value: filters.minPrice });
+    }
+    if (filters.maxPrice !== undefined) {
+      priceConditions.push({ op: 'lte', value: filters.maxPrice });
+    }
+    // Only show products with good ratings if requested
+    if (filters.minRating !== undefined) {
+      query = query.gte('rating', filters.minRating);
+    }
+    // PostgREST can't compare two columns, so this uses is_low_stock, a generated column
+    // (stock_on_hand <= reorder_threshold) - the same rule as isLowStock
+    if (filters.lowStockOnly) {
+      query = query.eq('is_low_stock', true);
+    }
+    // attributes is jsonb: ->> gives text for the case-insensitive match, -> keeps numbers numeric for ranges
+    // The key goes into the column path unquoted, so only schema-shaped keys get that far
+    for (const [key, condition] of Object.entries(filters.attributes ?? {})) {
+      if (!ATTRIBUTE_KEY_PATTERN.test(key)) throw new Error(`Can't filter on attribute "${key}"`);
+      if (condition.equals !== undefined) {
+        query = query.ilike(`attributes->>${key}`, escapeLike(condition.equals));
+      }
+      if (condition.min !== undefined) {
+        query = query.gte(`attributes->${key}`, condition.min);
+      }
+      if (condition.max !== undefined) {
+        query = query.lte(`attributes->${key}`, condition.max);
+      }
+    }
+    // The search box query (see searchQuery.ts) - every piece of user text is escaped and quoted
+    // so commas, parentheses and % can't change the filter's meaning
+    if (filters.searchQuery) {
+      const search = parseSearchQuery(filters.searchQuery);
+      // Each term may be in the name or the description
+      for (const term of search.terms) {
+        const pattern = quoteFilterValue(containsPattern(term));
+        query = query.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+      }
+      for (const term of search.excluded) {
+        query = query
+          .not('name', 'ilike', containsPattern(term))
+          .not('description', 'ilike', containsPattern(term));
+      }
+      // ilike without wildcards - an exact, case-insensitive match
+      if (search.categories.length > 0) {
+        query = query.or(
+          search.categories
+            .map(category => `category.ilike.${quoteFilterValue(escapeLike(category))}`)
+            .join(',')
+        );
+      }
+      for (const category of search.excludedCategories) {
+        query = query.not('category', 'ilike', escapeLike(category));
+      }
+      for (const { field, op, value } of search.conditions) {
+        if (field === 'price') priceConditions.push({ op, value });
+        else query = query.filter(field, op, value);
+      }
+    }
+
+    // Prices in other currencies are converted: each currency gets the bounds translated into it,
+    // so the database compares every price in the currency it's stored in
+    const { priceCurrency, exchangeRates } = filters;
+    if (priceConditions.length > 0 && priceCurrency && exchangeRates) {
+      query = query.or(
+        SUPPORTED_CURRENCIES.map(currency => {
+          const inCurrency = currency === BASE_CURRENCY
+            ? `or(currency.is.null,currency.eq.${currency})`
+            : `currency.eq.${currency}`;
+          const bounds = priceConditions.map(({ op, value }) =>
+            `price.${op}.${convertPrice(value, priceCurrency, currency, exchangeRates)}`
+          );
+          return `and(${[inCurrency, ...bounds].join(',')})`;
+        }).join(',')
+      );
+    } else {
+      for (const { op, value } of priceConditions) {
+        query = query.filter('price', op, value);
+      }
+    }
+  }
+
+  return query;
+}
+
+// The filters as the product_facets database function takes them. The search box is parsed here,
+// as for filteredQuery, and prices only convert when there's a currency and rates to do it with
+function facetArguments(filters: ProductFilter = {}) {
+  const search = parseSearchQuery(filters.searchQuery);
+  const converts = convertsPrices(filters);
+  return {
+    only_deleted: Boolean(filters.onlyDeleted),
+    created_by: filters.createdBy ?? null,
+    low_stock_only: Boolean(filters.lowStockOnly),
+    attribute_filters: filters.attributes ?? {},
+    search_terms: search.terms,
+    excluded_terms: search.excluded,
+    search_categories: search.categories,
+    excluded_categories: search.excludedCategories,
+    search_conditions: search.conditions,
+    categories: filters.categories ?? (filters.category ? [filters.category] : null),
+    min_price: filters.minPrice ?? null,
+    max_price: filters.maxPrice ?? null,
+    min_rating: filters.minRating ?? null,
+    price_currency: converts ? filters.priceCurrency : null,
+    exchange_rates: converts ? filters.exchangeRates : null,
+  };
+}
+
+// The relevance and price_base columns are only there to sort and page by - they aren't product fields
+function withoutSortValues(row: Record<string, unknown>) {
+  const product = { ...row };
+  delete product.relevance;
+  delete product.price_base;
+  return product as Product;
+}
+
+// Products stored in the Supabase 'products' table
+export const supabaseProductRepository: ProductRepository = {
+  async create(product) {
+    const { data, error } = await getSupabase()
+      .from('products')
+      .insert([{ 
+        ...product, 
+        rating: 0,
+        review_count: 0,
+        stock_on_hand: 0,
+        version: 1,
+        created_at: new Date().toISOString() // Keep track of when products are added
+      }])
+      .select()
+      .single();
+
+    if (error) throw toDuplicateSkuError(error) ?? new Error(`Failed to create product: ${error.message}`);
+    return data as Product;
+  },
+
+  async createMany(products) {
+    const createdAt = new Date().toISOString();
+    const { data, error } = await getSupabase()
+      .from('products')
+      .insert(products.map(product => ({
+        ...product,
+        rating: 0,
+        review_count: 0,
+        stock_on_hand: 0,
+        version: 1,
+        created_at: createdAt,
+      })))
+      .select();
+
+    if (error) throw toDuplicateSkuError(error) ?? new Error(`Failed to create products: ${error.message}`);
+    return data as Product[];
+  },
+
+  // Sorted by filters.sortBy (newest first by default), one page at a time
+  async list(filters) {
+    const { sortBy, sortDirection } = resolveSort(filters);
+    const limit = filters?.limit ?? DEFAULT_PAGE_SIZE;
+    const ascending = sortDirection === 'asc';
+
+    // Everything is sorted (and paged) by the database. Relevance comes from search_products, and
+    // converted prices sort by price_base - the price in BASE_CURRENCY, computed by the database from
+    // exchange_rates. Converting to any currency keeps that order, so it holds for every display currency
+    const ranked = sortBy === 'relevance';
+    const sortColumn = ranked ? 'relevance' : sortBy === 'price' && convertsPrices(filters) ? 'price_base' : sortBy;
+
+    // Total is counted separately - the keyset condition below would otherwise shrink it. Always
+    // from the table: ranking doesn't change which rows match, and a head-only search_products call
+    // would have to carry the terms in the query string, where postgrest-js doesn't escape them
+    const countQuery = filteredQuery(filters, true);
+
+    let pageQuery = filteredQuery(filters, false, ranked);
+    if (filters?.cursor) {
+      // Rows strictly after the cursor in sort order, id breaking ties
+      const { value, id } = decodeCursor(filters.cursor);
+      const op = ascending ? 'gt' : 'lt';
+      const quoted = quoteFilterValue(value);
+      pageQuery = pageQuery.or(
+        `${sortColumn}.${op}.${quoted},and(${sortColumn}.eq.${quoted},id.${op}.${quoteFilterValue(id)})`
+      );
+    }
+
+    // Fetch one extra row to know whether there's another page
+    const [{ count, error: countError }, { data, error }] = await Promise.all([
+      countQuery,
+      // price_base is a computed column - only returned when asked for by name
+      pageQuery
+        .select(sortColumn === 'price_base' ? '*, price_base' : '*')
+        .order(sortColumn, { ascending })
+        .order('id', { ascending })
+        .limit(limit + 1),
+    ]);
+
+    if (error || countError) {
+      throw new Error(`Couldn't fetch products: ${(error ?? countError)?.message}`);
+    }
+
+    const rows = (data ?? []) as unknown as Record<string, string | number>[];
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items: items.map(withoutSortValues),
+      total: count ?? 0,
+      nextCursor: rows.length > limit ? encodeCursor({ value: last[sortColumn], id: String(last.id) }) : null,
+    };
+  },
+
+  // Counted and bucketed by the database - only the totals come back, however big the catalog
+  async getFacets(filters) {
+    const { data, error } = await getSupabase().rpc('product_facets', facetArguments(filters));
+
+    if (error) throw new Error(`Couldn't fetch product facets: ${error.message}`);
+    return data as ProductFacets;
+  },
+
+  async update(id, updates, expectedVersion) {
+    // Conditional update: only matches while the row still has the version the caller saw
+    let query = getSupabase()
+      .from('products')
+      .update({ ...updates, version: expectedVersion + 1 })
+      .eq('id', id);
+    query = expectedVersion === 0
+      ? query.or('version.is.null,version.eq.0')
+      : query.eq('version', expectedVersion);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw toDuplicateSkuError(error) ?? new Error(`Couldn't update product ${id}: ${error.message}`);
+    if (!data) {
+      // Nothing matched - either it's gone or someone else got there first
+      const current = await this.getById(id, { includeDeleted: true });
+      throw new ProductConflictError(current);
+    }
+    return data as Product;
+  },
+
+  async softDelete(id) {
+    const { data, error } = await getSupabase()
+      .from('products')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to delete product ${id}: ${error.message}`);
+    return data as Product;
+  },
+
+  async restore(id) {
+    const { data, error } = await getSupabase()
+      .from('products')
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't restore product ${id}: ${error.message}`);
+    return data as Product;
+  },
+
+  // The trash check is part of the delete itself, so a product restored in the meantime is left alone
+  async purge(id) {
+    const { data, error } = await getSupabase()
+      .from('products')
+      .delete()
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select('id');
+
+    if (error) throw new Error(`Failed to permanently delete product ${id}: ${error.message}`);
+    if (data.length === 0) throw new Error(`Failed to permanently delete product ${id}: it isn't in the trash`);
+  },
+
+  async purgeDeletedBefore(cutoff) {
+    const { data, error } = await getSupabase()
+      .from('products')
+      .delete()
+      .lt('deleted_at', cutoff)
+      .select('*');
+
+    if (error) throw new Error(`Failed to empty the trash: ${error.message}`);
+    return data as Product[];
+  },
+
+  async getById(id, options) {
+    let query = getSupabase()
+      .from('products')
+      .select('*')
+      .eq('id', id);
+    if (!options?.includeDeleted) {
+      query = query.is('deleted_at', null);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    // 22P02: not even a valid uuid, so certainly not a product
+    if (error?.code === '22P02' || (!error && !data)) throw new ProductNotFoundError(id);
+    if (error) throw new Error(`Couldn't fetch product ${id}: ${error.message}`);
+    return data as Product;
+  },
+
+  // Supabase realtime on the products table (needs realtime enabled for it)
+  subscribe(listener) {
+    const supabase = getSupabase();
+    const channel = supabase
+      .channel(`products-changes-${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, payload => {
+        let change: ProductChange | null = null;
+        if (payload.eventType === 'INSERT') {
+          change = { type: 'insert', product: payload.new as Product };
+        } else if (payload.eventType === 'UPDATE') {
+          change = { type: 'update', product: payload.new as Product };
+        } else if (payload.eventType === 'DELETE' && (payload.old as Partial<Product>).id) {
+          change = { type: 'delete', id: (payload.old as Product).id };
+        }
+        if (change) listener(change);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import { Review, getSupabase } from '../lib/supabase';
+import { ReviewRepository } from './reviewRepository';
+
+const STAR_VALUES = [5, 4, 3, 2, 1];
+
+// Reviews in the Supabase 'product_reviews' table, helpful votes in 'review_votes'
+// (unique on product_id + user_id and review_id + user_id respectively)
+// Triggers on both keep products.rating/review_count and product_reviews.helpful_count up to date
+export const supabaseReviewRepository: ReviewRepository = {
+  async listForProduct(productId, { sort, page, pageSize }) {
+    let query = getSupabase()
+      .from('product_reviews')
+      .select('*', { count: 'exact' })
+      .eq('product_id', productId);
+    if (sort === 'helpful') {
+      query = query.order('helpful_count', { ascending: false });
+    }
+    const from = (page - 1) * pageSize;
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Couldn't fetch reviews for product ${productId}: ${error.message}`);
+    return { items: data as Review[], total: count ?? 0 };
+  },
+
+  // Head-only counts - no rows come back, so there's no row limit to fall foul of
+  async countStars(productId) {
+    return Promise.all(STAR_VALUES.map(async stars => {
+      const { count, error } = await getSupabase()
+        .from('product_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', productId)
+        .eq('stars', stars);
+
+      if (error) throw new Error(`Couldn't fetch ratings for product ${productId}: ${error.message}`);
+      return { stars, count: count ?? 0 };
+    }));
+  },
+
+  async findByUser(productId, userId) {
+    const { data, error } = await getSupabase()
+      .from('product_reviews')
+      .select('*')
+      .eq('product_id', productId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Couldn't fetch your review: ${error.message}`);
+    return data as Review | null;
+  },
+
+  async getById(id) {
+    const { data, error } = await getSupabase()
+      .from('product_reviews')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw new Error(`Couldn't fetch review ${id}: ${error.message}`);
+    return data as Review;
+  },
+
+  async create(review) {
+    const { data, error } = await getSupabase()
+      .from('product_reviews')
+      .insert([{ ...review, created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    // 23505: the unique constraint - they reviewed it already (e.g. from another tab)
+    if (error?.code === '23505') throw new Error('You have already reviewed this product');
+    if (error) throw new Error(`Failed to post review: ${error.message}`);
+    return data as Review;
+  },
+
+  async update(id, content) {
+    const { data, error } = await getSupabase()
+      .from('product_reviews')
+      .update({ ...content, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't update review ${id}: ${error.message}`);
+    return data as Review;
+  },
+
+  async delete(id) {
+    const { error } = await getSupabase()
+      .from('product_reviews')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete review ${id}: ${error.message}`);
+  },
+
+  // The trigger recounts the votes rather than incrementing, so concurrent votes can't lose one
+  async addHelpfulVote(reviewId, userId) {
+    const { error } = await getSupabase()
+      .from('review_votes')
+      .insert([{ review_id: reviewId, user_id: userId }]);
+
+    // 23505: voted already
+    if (error && error.code !== '23505') throw new Error(`Couldn't record your vote: ${error.message}`);
+    return this.getById(reviewId);
+  },
+
+  async listVotedReviewIds(userId, reviewIds) {
+    if (reviewIds.length === 0) return [];
+    const { data, error } = await getSupabase()
+      .from('review_votes')
+      .select('review_id')
+      .eq('user_id', userId)
+      .in('review_id', reviewIds);
+
+    if (error) throw new Error(`Couldn't fetch your votes: ${error.message}`);
+    return (data as { review_id: string }[]).map(row => row.review_id);
+  },
+};
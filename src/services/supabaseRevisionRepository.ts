@@ -0,0 +1,27 @@
+import { getSupabase } from '../lib/supabase';
+import { ProductRevision, RevisionRepository } from './revisionRepository';
+
+// Revisions stored in the Supabase 'product_revisions' table
+export const supabaseRevisionRepository: RevisionRepository = {
+  async add(revision) {
+    const { data, error } = await getSupabase()
+      .from('product_revisions')
+      .insert([{ ...revision, created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record product history: ${error.message}`);
+    return data as ProductRevision;
+  },
+
+  async listForProduct(productId) {
+    const { data, error } = await getSupabase()
+      .from('product_revisions')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Couldn't fetch history for product ${productId}: ${error.message}`);
+    return data as ProductRevision[];
+  },
+};
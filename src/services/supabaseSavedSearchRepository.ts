@@ -0,0 +1,48 @@
+import { SavedSearch, getSupabase } from '../lib/supabase';
+import { SavedSearchRepository } from './savedSearchRepository';
+
+// Saved searches in the Supabase 'saved_searches' table (row level security keeps them per user)
+export const supabaseSavedSearchRepository: SavedSearchRepository = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw new Error(`Couldn't fetch saved searches: ${error.message}`);
+    return data as SavedSearch[];
+  },
+
+  async create(search) {
+    const { data, error } = await getSupabase()
+      .from('saved_searches')
+      .insert([{ ...search, created_at: new Date().toISOString() }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save search: ${error.message}`);
+    return data as SavedSearch;
+  },
+
+  async update(id, updates) {
+    const { data, error } = await getSupabase()
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't update saved search ${id}: ${error.message}`);
+    return data as SavedSearch;
+  },
+
+  async delete(id) {
+    const { error } = await getSupabase()
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to delete saved search ${id}: ${error.message}`);
+  },
+};
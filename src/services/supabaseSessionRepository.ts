@@ -0,0 +1,60 @@
+import { UserSession, getSupabase } from '../lib/supabase';
+import { SessionRepository } from './sessionRepository';
+
+// Sessions in the Supabase 'user_sessions' table (row level security keeps them per user)
+export const supabaseSessionRepository: SessionRepository = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from('user_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) throw new Error(`Couldn't fetch sessions: ${error.message}`);
+    return data as UserSession[];
+  },
+
+  async get(id) {
+    const { data, error } = await getSupabase()
+      .from('user_sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Couldn't fetch session ${id}: ${error.message}`);
+    return data as UserSession | null;
+  },
+
+  async create(session) {
+    const now = new Date().toISOString();
+    const { data, error } = await getSupabase()
+      .from('user_sessions')
+      .insert([{ ...session, created_at: now, last_seen_at: now }])
+      .select()
+      .single();
+
+    if (error) throw new Error(`Couldn't record the session: ${error.message}`);
+    return data as UserSession;
+  },
+
+  async touch(id) {
+    const { error } = await getSupabase()
+      .from('user_sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw new Error(`Couldn't update session ${id}: ${error.message}`);
+  },
+
+  async revoke(ids) {
+    if (ids.length === 0) return;
+    const { error } = await getSupabase()
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('revoked_at', null);
+
+    if (error) throw new Error(`Couldn't revoke sessions: ${error.message}`);
+  },
+};
@@ -0,0 +1,29 @@
+import { StockAdjustment, getSupabase } from '../lib/supabase';
+import { StockRepository } from './stockRepository';
+
+// Adjustments stored in the Supabase 'stock_adjustments' table
+export const supabaseStockRepository: StockRepository = {
+  // The adjust_stock function locks the product, records the adjustment and moves the stock in one
+  // transaction. It takes the actor from the session, so actor_id/actor_email aren't sent
+  async adjust({ product_id, kind, quantity, reason }) {
+    const { data, error } = await getSupabase()
+      .rpc('adjust_stock', { product_id, kind, quantity, reason })
+      .single();
+
+    // P0001: refused by the function itself (e.g. not enough stock) - its message is for the user
+    if (error?.code === 'P0001') throw new Error(error.message);
+    if (error) throw new Error(`Couldn't adjust stock for product ${product_id}: ${error.message}`);
+    return data as StockAdjustment;
+  },
+
+  async listForProduct(productId) {
+    const { data, error } = await getSupabase()
+      .from('stock_adjustments')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Couldn't fetch stock history for product ${productId}: ${error.message}`);
+    return data as StockAdjustment[];
+  },
+};
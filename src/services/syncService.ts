@@ -0,0 +1,264 @@
+import { isNetworkError, isOnline } from '../lib/network';
+import { getSessionUser } from '../lib/session';
+import { ProductConflictError, getProductVersion } from './productRepository';
+import { QueuedMutation, isQueuedBy, mutationQueue } from './mutationQueue';
+import { categoryService } from './categoryService';
+import { productService } from './productService';
+
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  // Only the signed-in user's changes - anyone else's are never shown or replayed
+  pending: QueuedMutation[];    // Waiting to be replayed, oldest first
+  failed: QueuedMutation[];     // The server said no - someone has to retry or discard these
+  lastSyncedAt: string | null;  // When queued changes last reached the server
+};
+
+// Backoff for replays that couldn't reach the server: 2s, 4s, 8s... capped at a minute
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+// Held while replaying so two open tabs don't both send the same queue
+const SYNC_LOCK = 'catalog-sync';
+// Whose offline data this browser holds - the cached catalog is what that user was allowed to see
+const OFFLINE_OWNER_KEY = 'catalog.offlineUser';
+
+let state: SyncState = {
+  online: isOnline(),
+  syncing: false,
+  pending: [],
+  failed: [],
+  lastSyncedAt: null,
+};
+const listeners = new Set<(state: SyncState) => void>();
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let retryTimer: number | undefined;
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+}
+
+// The signed-in user's queued changes, oldest first
+async function listOwnQueue() {
+  const user = await getSessionUser();
+  if (!user) return [];
+  return (await mutationQueue.list()).filter(mutation => isQueuedBy(mutation, user.id));
+}
+
+async function reloadQueue() {
+  const queue = await listOwnQueue();
+  setState({
+    pending: queue.filter(mutation => mutation.status === 'pending'),
+    failed: queue.filter(mutation => mutation.status === 'failed'),
+  });
+}
+
+function scheduleRetry(attempts: number) {
+  window.clearTimeout(retryTimer);
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  retryTimer = window.setTimeout(() => syncService.flush(), delay);
+}
+
+function readOfflineOwner() {
+  try {
+    return window.localStorage.getItem(OFFLINE_OWNER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeOfflineOwner(userId: string | null) {
+  try {
+    if (userId) window.localStorage.setItem(OFFLINE_OWNER_KEY, userId);
+    else window.localStorage.removeItem(OFFLINE_OWNER_KEY);
+  } catch {
+    // Without storage there's nothing persisted to hand over either
+  }
+}
+
+// Offline data someone else left behind (their session ran out, or clearing it on sign-out failed)
+// isn't for this user: their cached catalog goes, and so do their queued changes
+async function claimOfflineData(userId: string) {
+  if (readOfflineOwner() === userId) return;
+  await productService.clearOfflineCache();
+  await categoryService.clearOfflineCache();
+  for (const mutation of await mutationQueue.list()) {
+    if (!isQueuedBy(mutation, userId)) await mutationQueue.remove(mutation.id);
+  }
+  writeOfflineOwner(userId);
+}
+
+function withSyncLock(run: () => Promise<void>) {
+  return typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(SYNC_LOCK, run)
+    : run();
+}
+
+// Replay the queue in order. A change the server refuses is marked failed and holds back
+// later changes to the same product; an unreachable server stops the run until the retry
+async function replayQueue() {
+  let replayed = 0;
+  const blocked = new Set<string>();
+  const realIds = new Map<string, string>();
+
+  for (const queued of await listOwnQueue()) {
+    const mutation = { ...queued, productId: realIds.get(queued.productId) ?? queued.productId };
+    if (mutation.status === 'failed' || blocked.has(mutation.productId)) {
+      blocked.add(mutation.productId);
+      continue;
+    }
+
+    try {
+      const result = await productService.replayMutation(mutation);
+      await mutationQueue.remove(mutation.id);
+      if (mutation.kind === 'create') {
+        realIds.set(mutation.productId, result.id);
+        await mutationQueue.remapProduct(mutation.productId, result.id);
+      }
+      replayed++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const attempts = mutation.attempts + 1;
+      if (isNetworkError(err)) {
+        await mutationQueue.save({ ...mutation, attempts, error: message });
+        scheduleRetry(attempts);
+        break;
+      }
+      await mutationQueue.save({
+        ...mutation,
+        attempts,
+        status: 'failed',
+        error: message,
+        conflictVersion: err instanceof ProductConflictError ? getProductVersion(err.current) : undefined,
+      });
+      blocked.add(mutation.productId);
+    }
+  }
+
+  if (replayed > 0) setState({ lastSyncedAt: new Date().toISOString() });
+}
+
+// Background replay of changes made offline (see productService and mutationQueue)
+export const syncService = {
+  getState() {
+    return state;
+  },
+
+  subscribe(listener: (state: SyncState) => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Replay whatever is queued, if we're online. Calls during a run queue up one more run
+  async flush(): Promise<void> {
+    if (!isOnline()) return;
+    if (flushing) {
+      flushAgain = true;
+      return flushing;
+    }
+
+    window.clearTimeout(retryTimer);
+    setState({ syncing: true });
+    flushing = withSyncLock(replayQueue)
+      .catch(err => console.error('Sync error:', err))
+      .finally(async () => {
+        flushing = null;
+        await reloadQueue();
+        setState({ syncing: false });
+        if (flushAgain) {
+          flushAgain = false;
+          syncService.flush();
+        }
+      });
+    return flushing;
+  },
+
+  // Try a failed change again. keepMine re-sends a conflicting update against the server's
+  // current version - i.e. overwrite their change with this one
+  async retry(id: string, options?: { keepMine?: boolean }) {
+    const queue = await listOwnQueue();
+    const mutation = queue.find(queued => queued.id === id);
+    if (!mutation) return;
+
+    await mutationQueue.save({ ...mutation, status: 'pending', attempts: 0, error: undefined });
+    if (options?.keepMine && mutation.kind === 'update' && mutation.conflictVersion !== undefined) {
+      // Later offline edits of the same product were made on top of this one - move them along too
+      const shift = mutation.conflictVersion - mutation.expectedVersion;
+      const rebased = queue.filter(queued => queued.seq >= mutation.seq && queued.productId === mutation.productId);
+      for (const queued of rebased) {
+        if (queued.kind !== 'update') continue;
+        await mutationQueue.save({
+          ...queued,
+          ...(queued.id === id && { status: 'pending', attempts: 0, error: undefined }),
+          expectedVersion: queued.expectedVersion + shift,
+          conflictVersion: undefined,
+        });
+      }
+    }
+    await reloadQueue();
+    await syncService.flush();
+  },
+
+  // Give up on a failed change. The cached copy still shows it, so that goes too;
+  // for a create, the later changes to the never-created product go with it
+  async discard(id: string) {
+    const queue = await listOwnQueue();
+    const mutation = queue.find(queued => queued.id === id);
+    if (!mutation) return;
+
+    const dropped = mutation.kind === 'create'
+      ? queue.filter(queued => queued.productId === mutation.productId)
+      : [mutation];
+    for (const queued of dropped) {
+      await mutationQueue.remove(queued.id);
+    }
+    await productService.forgetCachedProduct(mutation.productId);
+    await reloadQueue();
+    await syncService.flush();
+  },
+
+  // Sign-out: forget the cached catalog and the queued changes so the next person on this device
+  // starts clean. Unsynced changes are lost - the UI asks before signing out over them
+  // keepQueued is for sign-outs nobody chose (idle, revoked): the changes stay, and sync if the same
+  // user signs back in - anyone else signing in drops them
+  async clearOfflineData(options?: { keepQueued?: boolean }) {
+    window.clearTimeout(retryTimer);
+    if (!options?.keepQueued) await mutationQueue.clear();
+    await productService.clearOfflineCache();
+    await categoryService.clearOfflineCache();
+    writeOfflineOwner(null);
+    setState({ pending: [], failed: [], lastSyncedAt: null });
+  },
+
+  // Follow connectivity and replay as soon as there's something to send, for the signed-in user
+  // Returns a stop function
+  start(userId: string) {
+    const handleOnline = () => {
+      setState({ online: true });
+      syncService.flush();
+    };
+    const handleOffline = () => setState({ online: false });
+    const stopListening = mutationQueue.onEnqueue(() => {
+      reloadQueue();
+      syncService.flush();
+    });
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    setState({ online: isOnline() });
+    claimOfflineData(userId)
+      .catch(err => console.error('Offline data cleanup error:', err))
+      .then(reloadQueue)
+      .then(() => syncService.flush());
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      stopListening();
+      window.clearTimeout(retryTimer);
+    };
+  },
+};
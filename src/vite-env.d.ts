@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_BACKEND?: 'supabase' | 'local';
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+  readonly VITE_OWNER_ONLY_EDITS?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_IDLE_WARNING_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
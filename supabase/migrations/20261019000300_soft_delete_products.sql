@@ -0,0 +1,68 @@
+-- Soft delete: products go to the trash (deleted_at set) and are only purged for good from there
+
+-- The products table predates these migrations - this only creates it on a fresh project
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text not null default '',
+  category text not null,
+  price numeric not null check (price >= 0),
+  rating numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.products add column if not exists deleted_at timestamptz;
+
+-- Every list reads one side or the other: the live catalog (deleted_at is null) or the trash
+create index if not exists products_deleted_at_idx on public.products (deleted_at);
+
+alter table public.products enable row level security;
+
+drop policy if exists products_select on public.products;
+create policy products_select on public.products
+  for select to authenticated
+  using (true);
+
+drop policy if exists products_insert on public.products;
+create policy products_insert on public.products
+  for insert to authenticated
+  with check (deleted_at is null);
+
+drop policy if exists products_update on public.products;
+create policy products_update on public.products
+  for update to authenticated
+  using (true)
+  with check (true);
+
+-- Deleting a row is the permanent purge - only ever of something already in the trash
+drop policy if exists products_delete on public.products;
+create policy products_delete on public.products
+  for delete to authenticated
+  using (deleted_at is not null);
+
+-- Everything in the trash longer than the retention period goes for good, once a day on the server -
+-- whether or not anyone opens the trash. Keep the 30 days in step with VITE_TRASH_RETENTION_DAYS,
+-- which the trash page quotes. Runs as the cron job's owner, so the delete policy doesn't apply.
+-- The products' photos stay in the product-images bucket: storage files only go through the Storage API
+create or replace function public.purge_expired_products(retention interval)
+returns integer
+language sql
+as $$
+  with purged as (
+    delete from public.products
+    where deleted_at < now() - retention
+    returning id
+  )
+  select count(*)::integer from purged
+$$;
+
+revoke execute on function public.purge_expired_products(interval) from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+-- Scheduling under the same name again just updates the job
+select cron.schedule(
+  'purge-expired-products',
+  '15 3 * * *',
+  $$select public.purge_expired_products('30 days')$$
+);
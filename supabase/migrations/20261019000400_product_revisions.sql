@@ -0,0 +1,28 @@
+-- Append-only history of every product change, newest first in the History panel
+create table if not exists public.product_revisions (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign key: the history (and the image paths in its snapshots) outlives a purged product
+  product_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  changes jsonb not null default '{}',
+  snapshot jsonb not null,
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists product_revisions_product_id_idx
+  on public.product_revisions (product_id, created_at desc);
+
+alter table public.product_revisions enable row level security;
+
+drop policy if exists product_revisions_select on public.product_revisions;
+create policy product_revisions_select on public.product_revisions
+  for select to authenticated
+  using (true);
+
+-- Recorded as whoever is signed in; no update or delete policies, so nothing can be rewritten
+drop policy if exists product_revisions_insert on public.product_revisions;
+create policy product_revisions_insert on public.product_revisions
+  for insert to authenticated
+  with check (actor_id = auth.uid());
@@ -0,0 +1,32 @@
+-- Roles, the same rules as lib/permissions.ts: the role is app_metadata.role on the user
+-- (only settable server-side) and anyone without one is a viewer
+create or replace function public.app_role()
+returns text
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', 'viewer')
+$$;
+
+-- Admins and editors create, edit, trash and restore; only admins purge for good
+drop policy if exists products_insert on public.products;
+create policy products_insert on public.products
+  for insert to authenticated
+  with check (public.app_role() in ('admin', 'editor') and deleted_at is null);
+
+drop policy if exists products_update on public.products;
+create policy products_update on public.products
+  for update to authenticated
+  using (public.app_role() in ('admin', 'editor'))
+  with check (public.app_role() in ('admin', 'editor'));
+
+drop policy if exists products_delete on public.products;
+create policy products_delete on public.products
+  for delete to authenticated
+  using (public.app_role() = 'admin' and deleted_at is not null);
+
+-- Only the people who can change products leave revisions behind
+drop policy if exists product_revisions_insert on public.product_revisions;
+create policy product_revisions_insert on public.product_revisions
+  for insert to authenticated
+  with check (public.app_role() in ('admin', 'editor') and actor_id = auth.uid());
@@ -0,0 +1,38 @@
+-- Who added each product (and who last changed it), for "My products" and owner-only edits
+alter table public.products
+  add column if not exists created_by uuid references auth.users (id) on delete set null,
+  add column if not exists created_by_email text,
+  add column if not exists updated_by uuid references auth.users (id) on delete set null;
+
+create index if not exists products_created_by_idx on public.products (created_by);
+
+-- New products belong to whoever adds them
+drop policy if exists products_insert on public.products;
+create policy products_insert on public.products
+  for insert to authenticated
+  with check (
+    public.app_role() in ('admin', 'editor')
+    and deleted_at is null
+    and created_by = auth.uid()
+  );
+
+-- The owner never changes after the fact, whatever an update sends
+create or replace function public.keep_product_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_by := old.created_by;
+  new.created_by_email := old.created_by_email;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_keep_owner on public.products;
+create trigger products_keep_owner
+  before update on public.products
+  for each row execute function public.keep_product_owner();
+
+-- Owner-only mode (VITE_OWNER_ONLY_EDITS) is a client setting. To have the database hold editors
+-- to it as well, swap the update policy for:
+--   using (public.app_role() = 'admin' or (public.app_role() = 'editor' and created_by = auth.uid()))
@@ -0,0 +1,26 @@
+-- Product photos: the files live in the product-images bucket, the product keeps their urls and paths
+alter table public.products
+  add column if not exists images jsonb not null default '[]',
+  add column if not exists primary_image_id text;
+
+-- Public, so image urls work in <img> tags without signing
+insert into storage.buckets (id, name, public)
+values ('product-images', 'product-images', true)
+on conflict (id) do nothing;
+
+-- Whoever can change products can add and remove their photos
+drop policy if exists product_images_insert on storage.objects;
+create policy product_images_insert on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'product-images' and public.app_role() in ('admin', 'editor'));
+
+drop policy if exists product_images_delete on storage.objects;
+create policy product_images_delete on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'product-images' and public.app_role() in ('admin', 'editor'));
+
+-- Storage looks the objects up before removing them, so deleting needs read access too
+drop policy if exists product_images_select on storage.objects;
+create policy product_images_select on storage.objects
+  for select to authenticated
+  using (bucket_id = 'product-images');
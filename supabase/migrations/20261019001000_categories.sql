@@ -0,0 +1,55 @@
+-- Categories as records: a tree (parent_id), ordered among siblings, archived instead of deleted
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  parent_id uuid references public.categories (id) on delete restrict,
+  sort_order integer not null default 0,
+  archived_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Products refer to categories by name, so names are unique whatever the case
+create unique index if not exists categories_name_key on public.categories (lower(name));
+
+-- The categories the app used to hard-code
+insert into public.categories (name, sort_order)
+values ('Electronics', 0), ('Clothing', 1), ('Books', 2), ('Home', 3)
+on conflict do nothing;
+
+alter table public.categories enable row level security;
+
+drop policy if exists categories_select on public.categories;
+create policy categories_select on public.categories
+  for select to authenticated
+  using (true);
+
+drop policy if exists categories_manage on public.categories;
+create policy categories_manage on public.categories
+  for all to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+-- Renames the category and moves its products over in one transaction, so no product is ever left
+-- pointing at a name that's gone. Runs as the caller, so the product policies still apply too
+create or replace function public.rename_category(category_id uuid, new_name text)
+returns public.categories
+language plpgsql
+as $$
+declare
+  old_name text;
+  renamed public.categories;
+begin
+  if public.app_role() <> 'admin' then
+    raise exception 'Only admins can rename categories' using errcode = '42501';
+  end if;
+
+  select name into old_name from public.categories where id = category_id for update;
+  if not found then
+    raise exception 'Category % not found', category_id using errcode = 'P0002';
+  end if;
+
+  update public.categories set name = trim(new_name) where id = category_id returning * into renamed;
+  update public.products set category = renamed.name where category = old_name;
+  return renamed;
+end;
+$$;
@@ -0,0 +1,12 @@
+-- Live product changes for the list: inserts, updates and deletes go out over Supabase Realtime
+-- (each subscriber only hears about rows the products policies let them read)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'products'
+  ) then
+    alter publication supabase_realtime add table public.products;
+  end if;
+end;
+$$;
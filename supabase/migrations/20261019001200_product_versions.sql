@@ -0,0 +1,30 @@
+-- The concurrency token: every update bumps it, and only lands while it's still what the editor saw
+-- Rows from before start at 0, the same as a missing version in the app
+alter table public.products add column if not exists version integer not null default 0;
+
+-- Moving products to a renamed category is an edit too - bump their versions so an open form
+-- working from the old name conflicts instead of quietly writing it back
+create or replace function public.rename_category(category_id uuid, new_name text)
+returns public.categories
+language plpgsql
+as $$
+declare
+  old_name text;
+  renamed public.categories;
+begin
+  if public.app_role() <> 'admin' then
+    raise exception 'Only admins can rename categories' using errcode = '42501';
+  end if;
+
+  select name into old_name from public.categories where id = category_id for update;
+  if not found then
+    raise exception 'Category % not found', category_id using errcode = 'P0002';
+  end if;
+
+  update public.categories set name = trim(new_name) where id = category_id returning * into renamed;
+  update public.products
+  set category = renamed.name, version = version + 1
+  where category = old_name;
+  return renamed;
+end;
+$$;
@@ -0,0 +1,20 @@
+-- Named filter/sort combinations, kept per account
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query text not null default '',
+  pinned boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_id_idx on public.saved_searches (user_id, name);
+
+-- Everyone only ever sees and changes their own
+alter table public.saved_searches enable row level security;
+
+drop policy if exists saved_searches_own on public.saved_searches;
+create policy saved_searches_own on public.saved_searches
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,48 @@
+-- Ranked search: search_products returns products rows plus a relevance column, so the app can
+-- filter, sort and page by relevance like any other column
+
+-- How well a product matches the search terms (lower-cased) - the same scoring as scoreProduct
+-- in searchQuery.ts: name hits beat description hits, a name starting with a term or equal to
+-- the whole query more so
+create or replace function public.product_relevance(product public.products, search_terms text[])
+returns integer
+language sql
+immutable
+as $$
+  select coalesce(sum(
+    case
+      when starts_with(lower(product.name), term) then 4
+      when strpos(lower(product.name), term) > 0 then 3
+      else 0
+    end
+    + case when strpos(lower(product.description), term) > 0 then 1 else 0 end
+  ), 0)::integer
+  + case
+    when cardinality(search_terms) > 0 and lower(product.name) = array_to_string(search_terms, ' ') then 5
+    else 0
+  end
+  from unnest(search_terms) as term
+$$;
+
+-- The row type search_products returns. Never read directly - it runs as the caller, so the
+-- products policies hold either way. Migrations that add product columns recreate it
+create or replace view public.product_search_rows
+with (security_invoker = true)
+as select 0 as relevance, p.* from public.products p;
+
+-- Every product with its relevance; the app's usual filters (including the term matches) apply on top
+create or replace function public.search_products(search_terms text[])
+returns setof public.product_search_rows
+language sql
+stable
+as $$
+  select public.product_relevance(p, search_terms), p.* from public.products p
+$$;
+
+-- The term filters are ilike '%term%' on name and description - trigram indexes keep those fast
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists products_name_trgm_idx
+  on public.products using gin (name extensions.gin_trgm_ops);
+create index if not exists products_description_trgm_idx
+  on public.products using gin (description extensions.gin_trgm_ops);
@@ -0,0 +1,163 @@
+-- Facet counts for the product filters, worked out where the rows are: products per category,
+-- per minimum rating and a price histogram, as one jsonb object shaped like ProductFacets
+--
+-- The arguments are the app's filters (see facetArguments in supabaseProductRepository). The
+-- faceted ones - categories, min/max price, min rating - only narrow the *other* facets, so each
+-- facet shows what changing its own choice would give. The same sums as computeFacets, which
+-- does them in memory for the local backend and the offline cache
+--
+-- Runs as the caller, so the products policies decide which rows are counted. plpgsql, so the
+-- body is only checked when it runs - it reads columns later migrations add
+create or replace function public.product_facets(
+  only_deleted boolean default false,
+  created_by uuid default null,
+  low_stock_only boolean default false,
+  attribute_filters jsonb default '{}',
+  search_terms text[] default '{}',
+  excluded_terms text[] default '{}',
+  search_categories text[] default '{}',
+  excluded_categories text[] default '{}',
+  search_conditions jsonb default '[]',
+  categories text[] default null,
+  min_price numeric default null,
+  max_price numeric default null,
+  min_rating numeric default null,
+  price_currency text default null,
+  exchange_rates jsonb default null
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  price_buckets constant integer := 12;
+begin
+  return (
+    with matching as (
+      select
+        p.category,
+        p.rating,
+        converted.price,
+        (product_facets.categories is null or p.category = any(product_facets.categories)) as in_category,
+        (product_facets.min_price is null or converted.price >= product_facets.min_price)
+          and (product_facets.max_price is null or converted.price <= product_facets.max_price) as in_price_range,
+        (product_facets.min_rating is null or p.rating >= product_facets.min_rating) as in_rating
+      from public.products p
+      -- The price in price_currency at the app's rates, as getFilterPrice works it out
+      cross join lateral (
+        select case
+          when product_facets.price_currency is null
+            or product_facets.exchange_rates is null
+            or coalesce(p.currency, 'USD') = product_facets.price_currency
+          then p.price
+          else p.price
+            / (product_facets.exchange_rates ->> coalesce(p.currency, 'USD'))::numeric
+            * (product_facets.exchange_rates ->> product_facets.price_currency)::numeric
+        end as price
+      ) converted
+      where (case when product_facets.only_deleted then p.deleted_at is not null else p.deleted_at is null end)
+        and (product_facets.created_by is null or p.created_by = product_facets.created_by)
+        and (not product_facets.low_stock_only or p.is_low_stock)
+        -- Every attribute condition holds: equals is case-insensitive, min/max only match numbers
+        and not exists (
+          select 1
+          from jsonb_each(product_facets.attribute_filters) as f (key, condition)
+          where not coalesce(
+            p.attributes ? f.key
+            and (not f.condition ? 'equals'
+              or lower(p.attributes ->> f.key) = lower(f.condition ->> 'equals'))
+            and (not f.condition ? 'min'
+              or (jsonb_typeof(p.attributes -> f.key) = 'number'
+                and (p.attributes ->> f.key)::numeric >= (f.condition ->> 'min')::numeric))
+            and (not f.condition ? 'max'
+              or (jsonb_typeof(p.attributes -> f.key) = 'number'
+                and (p.attributes ->> f.key)::numeric <= (f.condition ->> 'max')::numeric)),
+            false
+          )
+        )
+        -- The search box, as matchesSearchQuery reads it (terms come lower-cased)
+        and not exists (
+          select 1 from unnest(product_facets.search_terms) as term
+          where strpos(lower(p.name), term) = 0 and strpos(lower(coalesce(p.description, '')), term) = 0
+        )
+        and not exists (
+          select 1 from unnest(product_facets.excluded_terms) as term
+          where strpos(lower(p.name), term) > 0 or strpos(lower(coalesce(p.description, '')), term) > 0
+        )
+        and (
+          cardinality(product_facets.search_categories) = 0
+          or lower(p.category) in (select lower(c) from unnest(product_facets.search_categories) as c)
+        )
+        and lower(p.category) not in (select lower(c) from unnest(product_facets.excluded_categories) as c)
+        and not exists (
+          select 1
+          from jsonb_to_recordset(product_facets.search_conditions) as c (field text, op text, value numeric)
+          cross join lateral (
+            select case c.field when 'price' then converted.price else p.rating end as actual
+          ) compared
+          where not case c.op
+            when 'lt' then compared.actual < c.value
+            when 'lte' then compared.actual <= c.value
+            when 'gt' then compared.actual > c.value
+            when 'gte' then compared.actual >= c.value
+            else compared.actual = c.value
+          end
+        )
+    ),
+    -- Whole-number bounds, as on the slider; a single price gets a single bucket
+    bounds as (
+      select
+        coalesce(floor(min(price)), 0) as low,
+        coalesce(ceil(max(price)), 0) as high
+      from matching
+      where in_category and in_rating
+    ),
+    bucketed as (
+      select
+        case
+          when b.high > b.low then least(width_bucket(m.price, b.low, b.high, price_buckets), price_buckets)
+          else 1
+        end as bucket,
+        count(*) as count
+      from matching m
+      cross join bounds b
+      where m.in_category and m.in_rating
+      group by 1
+    ),
+    category_counts as (
+      select category, count(*) as count
+      from matching
+      where in_price_range and in_rating
+      group by category
+    )
+    select jsonb_build_object(
+      'categories', coalesce(
+        (select jsonb_agg(jsonb_build_object('category', category, 'count', count) order by count desc, category)
+          from category_counts),
+        '[]'::jsonb
+      ),
+      'ratings', (
+        select jsonb_agg(jsonb_build_object('minRating', threshold, 'count', (
+          select count(*) from matching where in_category and in_price_range and rating >= threshold
+        )) order by threshold desc)
+        from unnest(array[4, 3, 2, 1]) as threshold
+      ),
+      'price', (
+        select jsonb_build_object(
+          'min', b.low,
+          'max', b.high,
+          'buckets', jsonb_agg(jsonb_build_object(
+            'from', b.low + (n - 1) * (b.high - b.low) / price_buckets,
+            'to', case when b.high > b.low then b.low + n * (b.high - b.low) / price_buckets else b.high end,
+            'count', coalesce(bucketed.count, 0)
+          ) order by n)
+        )
+        from bounds b
+        cross join generate_series(1, case when b.high > b.low then price_buckets else 1 end) as n
+        left join bucketed on bucketed.bucket = n
+        group by b.low, b.high
+      )
+    )
+  );
+end;
+$$;
@@ -0,0 +1,192 @@
+-- Product reviews and helpful votes. products.rating/review_count and product_reviews.helpful_count
+-- are kept by the triggers below - clients can't write them
+alter table public.products add column if not exists review_count integer not null default 0;
+
+create table if not exists public.product_reviews (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  user_email text,
+  stars smallint not null check (stars between 1 and 5),
+  title text not null default '',
+  body text not null default '',
+  helpful_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  unique (product_id, user_id)
+);
+
+create index if not exists product_reviews_product_id_idx
+  on public.product_reviews (product_id, created_at desc);
+
+create table if not exists public.review_votes (
+  review_id uuid not null references public.product_reviews (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (review_id, user_id)
+);
+
+alter table public.product_reviews enable row level security;
+alter table public.review_votes enable row level security;
+
+drop policy if exists product_reviews_select on public.product_reviews;
+create policy product_reviews_select on public.product_reviews
+  for select to authenticated
+  using (true);
+
+-- One review per person (the unique key), only of products still in the catalog
+drop policy if exists product_reviews_insert on public.product_reviews;
+create policy product_reviews_insert on public.product_reviews
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.products p where p.id = product_id and p.deleted_at is null)
+  );
+
+drop policy if exists product_reviews_update on public.product_reviews;
+create policy product_reviews_update on public.product_reviews
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists product_reviews_delete on public.product_reviews;
+create policy product_reviews_delete on public.product_reviews
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Your own votes only, and never on your own review
+drop policy if exists review_votes_select on public.review_votes;
+create policy review_votes_select on public.review_votes
+  for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists review_votes_insert on public.review_votes;
+create policy review_votes_insert on public.review_votes
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and not exists (select 1 from public.product_reviews r where r.id = review_id and r.user_id = auth.uid())
+  );
+
+-- Recomputed from the reviews rather than adjusted, so concurrent reviews can't drift it
+-- Security definer: reviewers (viewers included) can't update products themselves
+create or replace function public.refresh_product_rating(target_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.products p
+  set rating = coalesce(summary.average, 0), review_count = summary.total
+  from (
+    select round(avg(stars)::numeric, 2) as average, count(*)::integer as total
+    from public.product_reviews
+    where product_id = target_id
+  ) summary
+  where p.id = target_id
+$$;
+
+create or replace function public.product_reviews_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_product_rating(old.product_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.product_id <> old.product_id) then
+    perform public.refresh_product_rating(new.product_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists product_reviews_refresh_rating on public.product_reviews;
+create trigger product_reviews_refresh_rating
+  after insert or delete or update of stars, product_id on public.product_reviews
+  for each row execute function public.product_reviews_changed();
+
+-- Same for helpful votes: a recount, never an increment
+create or replace function public.review_votes_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_id uuid := case when tg_op = 'DELETE' then old.review_id else new.review_id end;
+begin
+  update public.product_reviews
+  set helpful_count = (select count(*) from public.review_votes where review_id = target_id)
+  where id = target_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists review_votes_refresh_count on public.review_votes;
+create trigger review_votes_refresh_count
+  after insert or delete on public.review_votes
+  for each row execute function public.review_votes_changed();
+
+-- Existing products start from whatever reviews they have (none, on a fresh install) - before the
+-- guards below are in place, which would otherwise keep the old values
+update public.products p
+set rating = coalesce(summary.average, 0), review_count = summary.total
+from (
+  select p2.id, round(avg(r.stars)::numeric, 2) as average, count(r.id)::integer as total
+  from public.products p2
+  left join public.product_reviews r on r.product_id = p2.id
+  group by p2.id
+) summary
+where p.id = summary.id;
+
+-- Direct writes (trigger depth 1 - straight from a client statement) can't set the computed columns;
+-- the triggers above write them from one level down
+create or replace function public.keep_product_rating()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() > 1 then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.rating := 0;
+    new.review_count := 0;
+  else
+    new.rating := old.rating;
+    new.review_count := old.review_count;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_keep_rating on public.products;
+create trigger products_keep_rating
+  before insert or update on public.products
+  for each row execute function public.keep_product_rating();
+
+create or replace function public.keep_helpful_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() > 1 then
+    return new;
+  end if;
+  new.helpful_count := case when tg_op = 'INSERT' then 0 else old.helpful_count end;
+  return new;
+end;
+$$;
+
+drop trigger if exists product_reviews_keep_helpful_count on public.product_reviews;
+create trigger product_reviews_keep_helpful_count
+  before insert or update on public.product_reviews
+  for each row execute function public.keep_helpful_count();
+
+-- review_count is a new products column - keep search_products' row type in step
+create or replace view public.product_search_rows
+with (security_invoker = true)
+as select 0 as relevance, p.* from public.products p;
@@ -0,0 +1,144 @@
+-- SKUs, stock on hand and reorder thresholds, with a record of every stock adjustment
+alter table public.products
+  add column if not exists sku text,
+  add column if not exists stock_on_hand integer not null default 0 check (stock_on_hand >= 0),
+  add column if not exists reorder_threshold integer check (reorder_threshold >= 0);
+
+-- Unique whatever the case - the app reads the clashing value back out of this index's error
+create unique index if not exists products_sku_key on public.products (upper(sku));
+
+-- PostgREST can't compare two columns, so the low-stock filter reads this instead
+-- (no threshold means stock isn't tracked, so never low)
+alter table public.products
+  add column if not exists is_low_stock boolean
+  generated always as (reorder_threshold is not null and stock_on_hand <= reorder_threshold) stored;
+
+create index if not exists products_is_low_stock_idx on public.products (is_low_stock) where is_low_stock;
+
+create table if not exists public.stock_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  kind text not null check (kind in ('receive', 'sell', 'correct')),
+  quantity integer not null,
+  stock_after integer not null check (stock_after >= 0),
+  reason text not null default '',
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_adjustments_product_id_idx
+  on public.stock_adjustments (product_id, created_at desc);
+
+-- Everyone can read the history. There's no insert policy: adjustments only come from adjust_stock,
+-- and nobody rewrites them
+alter table public.stock_adjustments enable row level security;
+
+drop policy if exists stock_adjustments_select on public.stock_adjustments;
+create policy stock_adjustments_select on public.stock_adjustments
+  for select to authenticated
+  using (true);
+
+drop policy if exists stock_adjustments_insert on public.stock_adjustments;
+
+-- Each recorded adjustment sets the product's stock - the only way stock_on_hand ever moves
+create or replace function public.stock_adjustment_recorded()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.products set stock_on_hand = new.stock_after where id = new.product_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists stock_adjustments_move_stock on public.stock_adjustments;
+create trigger stock_adjustments_move_stock
+  after insert on public.stock_adjustments
+  for each row execute function public.stock_adjustment_recorded();
+
+-- Direct writes (trigger depth 1 - straight from a client statement) can't set stock_on_hand;
+-- the trigger above writes it from one level down
+create or replace function public.keep_product_stock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() > 1 then
+    return new;
+  end if;
+  new.stock_on_hand := case when tg_op = 'INSERT' then 0 else old.stock_on_hand end;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_keep_stock on public.products;
+create trigger products_keep_stock
+  before insert or update on public.products
+  for each row execute function public.keep_product_stock();
+
+-- Moves a product's stock and records why, in one transaction. The product row is locked first,
+-- so concurrent adjustments queue up instead of losing one. `quantity` is as the app asks for it:
+-- receive - how many came in, sell - how many went out, correct - the counted stock on hand
+-- (the same sums as applyStockAdjustment). Security definer, as clients can't insert adjustments;
+-- the role check stands in for the policies
+create or replace function public.adjust_stock(product_id uuid, kind text, quantity integer, reason text)
+returns public.stock_adjustments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stock integer;
+  new_stock integer;
+  recorded public.stock_adjustments;
+begin
+  if public.app_role() not in ('admin', 'editor') then
+    raise exception 'Your role doesn''t allow stock adjustments' using errcode = '42501';
+  end if;
+  if adjust_stock.quantity is null or adjust_stock.quantity < 0 then
+    raise exception 'Quantities are whole numbers, zero or more';
+  end if;
+  if coalesce(trim(adjust_stock.reason), '') = '' then
+    raise exception 'Add a reason so the next person knows what happened';
+  end if;
+
+  select p.stock_on_hand into current_stock
+  from public.products p
+  where p.id = adjust_stock.product_id
+  for update;
+  if not found then
+    raise exception 'Product % not found', adjust_stock.product_id using errcode = 'P0002';
+  end if;
+
+  new_stock := case adjust_stock.kind
+    when 'receive' then current_stock + adjust_stock.quantity
+    when 'sell' then current_stock - adjust_stock.quantity
+    when 'correct' then adjust_stock.quantity
+  end;
+  if new_stock is null then
+    raise exception 'Unknown adjustment kind %', adjust_stock.kind using errcode = '22023';
+  end if;
+  if new_stock < 0 then
+    raise exception 'Only % in stock', current_stock;
+  end if;
+
+  insert into public.stock_adjustments (product_id, kind, quantity, stock_after, reason, actor_id, actor_email)
+  values (
+    adjust_stock.product_id,
+    adjust_stock.kind,
+    new_stock - current_stock,
+    new_stock,
+    trim(adjust_stock.reason),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  returning * into recorded;
+  return recorded;
+end;
+$$;
+
+-- New products columns - keep search_products' row type in step
+create or replace view public.product_search_rows
+with (security_invoker = true)
+as select 0 as relevance, p.* from public.products p;
@@ -0,0 +1,51 @@
+-- Product prices in one of the supported currencies, and the rates to convert between them
+-- Rows from before are in the base currency (USD), the same as a missing currency in the app
+alter table public.products
+  add column if not exists currency text not null default 'USD' check (currency in ('USD', 'EUR', 'GBP'));
+
+-- Units of each currency per one USD
+create table if not exists public.exchange_rates (
+  currency text primary key check (currency in ('USD', 'EUR', 'GBP')),
+  rate numeric not null check (rate > 0),
+  updated_at timestamptz not null default now(),
+  updated_by_email text
+);
+
+insert into public.exchange_rates (currency, rate)
+values ('USD', 1), ('EUR', 0.92), ('GBP', 0.79)
+on conflict (currency) do nothing;
+
+-- Everyone converts prices with them; only admins set them
+alter table public.exchange_rates enable row level security;
+
+drop policy if exists exchange_rates_select on public.exchange_rates;
+create policy exchange_rates_select on public.exchange_rates
+  for select to authenticated
+  using (true);
+
+drop policy if exists exchange_rates_manage on public.exchange_rates;
+create policy exchange_rates_manage on public.exchange_rates
+  for all to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+-- The price in USD at the current rates - a computed column (select=*,price_base), so prices in
+-- different currencies can be sorted and paged together. A currency without a rate counts as USD
+create or replace function public.price_base(product public.products)
+returns numeric
+language sql
+stable
+as $$
+  select round(
+    product.price / coalesce(
+      (select rate from public.exchange_rates where currency = coalesce(product.currency, 'USD')),
+      1
+    ),
+    6
+  )
+$$;
+
+-- currency is a new products column - keep search_products' row type in step
+create or replace view public.product_search_rows
+with (security_invoker = true)
+as select 0 as relevance, p.* from public.products p;
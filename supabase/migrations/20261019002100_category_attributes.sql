@@ -0,0 +1,29 @@
+-- Per-category attribute schemas (categories.attributes) and the values products keep for them
+alter table public.categories add column if not exists attributes jsonb not null default '[]';
+alter table public.products add column if not exists attributes jsonb not null default '{}';
+
+-- What each seed category asks for, as in the local backend - only where nothing's been set up yet
+update public.categories c
+set attributes = seed.attributes
+from (values
+  ('Electronics', '[
+    {"key": "wattage", "label": "Wattage", "type": "number", "unit": "W", "min": 0},
+    {"key": "warranty_months", "label": "Warranty", "type": "number", "unit": "months", "required": true, "min": 0, "max": 120},
+    {"key": "wireless", "label": "Wireless", "type": "boolean"}
+  ]'::jsonb),
+  ('Clothing', '[
+    {"key": "size", "label": "Size", "type": "enum", "required": true, "options": ["XS", "S", "M", "L", "XL", "XXL"]},
+    {"key": "material", "label": "Material", "type": "text", "required": true, "max": 80}
+  ]'::jsonb),
+  ('Books', '[
+    {"key": "author", "label": "Author", "type": "text", "required": true, "max": 120},
+    {"key": "isbn", "label": "ISBN", "type": "text", "required": true, "min": 10, "max": 17},
+    {"key": "pages", "label": "Pages", "type": "number", "min": 1}
+  ]'::jsonb)
+) as seed (name, attributes)
+where lower(c.name) = lower(seed.name) and c.attributes = '[]'::jsonb;
+
+-- attributes is a new products column - keep search_products' row type in step
+create or replace view public.product_search_rows
+with (security_invoker = true)
+as select 0 as relevance, p.* from public.products p;
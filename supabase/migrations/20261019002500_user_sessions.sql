@@ -0,0 +1,41 @@
+-- Where each account is signed in, so a browser can be revoked from the account page
+-- Revoked browsers notice on their next check-in (revoked_at set) and sign themselves out
+create table if not exists public.user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  user_agent text not null default '',
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists user_sessions_user_id_idx
+  on public.user_sessions (user_id, last_seen_at desc)
+  where revoked_at is null;
+
+-- Everyone only ever sees and changes their own
+alter table public.user_sessions enable row level security;
+
+drop policy if exists user_sessions_own on public.user_sessions;
+create policy user_sessions_own on public.user_sessions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Revoking is for good: once revoked_at is set it stays set
+create or replace function public.keep_session_revoked()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.revoked_at is not null then
+    new.revoked_at := old.revoked_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_sessions_keep_revoked on public.user_sessions;
+create trigger user_sessions_keep_revoked
+  before update on public.user_sessions
+  for each row execute function public.keep_session_revoked();